@@ -12,30 +12,47 @@
 // Export activate/deactivate for main.js
 // The tests use instanceof against these and therefore we need to make sure we're using the same version of the bson module in the tests as in the bundle,
 //   so export it from the bundle itself.
-export { ObjectID, ObjectId } from 'bson';
+export { Decimal128, Long, MinKey, ObjectID, ObjectId } from 'bson';
 // Exports for tests
 // The tests are not packaged with the webpack bundle and therefore only have access to code exported from this file.
 //
 // The tests should import '../extension.bundle.ts'. At design-time they live in tests/ and so will pick up this file (extension.bundle.ts).
 // At runtime the tests live in dist/tests and will therefore pick up the main webpack bundle at dist/extension.bundle.js.
 export * from 'vscode-azureextensionui';
+export { getThrottleDelay, transformDocument } from './src/commands/copyCollection';
 export { emulatorPassword, isWindows } from './src/constants';
 export { ParsedDocDBConnectionString, parseDocDBConnectionString } from './src/docdb/docDBConnectionStrings';
 export { getCosmosClient } from './src/docdb/getCosmosClient';
+export { getPartitionKeyPathValue, parsePartitionKeyPaths, setPartitionKeyPathValue, validatePartitionKeyPaths } from './src/docdb/partitionKeys';
+export { getFilterQuery, IDocumentsFilter, stripKeyword } from './src/docdb/tree/DocDBDocumentsTreeItem';
 export { activateInternal, deactivateInternal } from './src/extension';
 export { ext } from './src/extensionVariables';
-export { connectToMongoClient, isCosmosEmulatorConnectionString } from './src/mongo/connectToMongoClient';
+export { getAggregationExport, getPreviewPipeline, getStageName, parsePipeline, toJavaScript } from './src/mongo/aggregation/aggregationPipeline';
+export { getCollectionDetails, IMongoCollectionStats } from './src/mongo/commands/showMongoCollectionDetails';
+export { connectToMongoClient, isCosmosDBConnectionString, isCosmosEmulatorConnectionString } from './src/mongo/connectToMongoClient';
 export { MongoCommand } from './src/mongo/MongoCommand';
 export { addDatabaseToAccountConnectionString, encodeMongoConnectionString, getDatabaseNameFromConnectionString } from './src/mongo/mongoConnectionStrings';
+export { formatIndexKeys, getDefaultIndexName, getIndexDescription, getIndexKeys, getIndexOptions, IMongoIndex, IMongoIndexSpecification, validateIndexField } from './src/mongo/mongoIndexes';
 export { findCommandAtPosition, getAllCommandsFromText } from './src/mongo/MongoScrapbook';
+export { MongoScriptSandbox } from './src/mongo/script/MongoScriptSandbox';
+export { IScriptStatement, splitStatements } from './src/mongo/script/splitStatements';
 export { MongoShell } from './src/mongo/MongoShell';
 export { IDatabaseInfo } from './src/mongo/tree/MongoAccountTreeItem';
+export { getFindCommand, IMongoFindCommand } from './src/mongo/tree/MongoCollectionTreeItem';
+export { parseValidationRules } from './src/mongo/tree/MongoCollectionValidationTreeItem';
+export { IMongoDocument, IResolvedMongoDocuments, resolveMongoConflicts } from './src/mongo/tree/MongoDocumentTreeItem';
 export { addDatabaseToConnectionString } from './src/postgres/postgresConnectionStrings';
 export { AttachedAccountsTreeItem, MONGO_CONNECTION_EXPECTED } from './src/tree/AttachedAccountsTreeItem';
 export { AzureAccountTreeItemWithAttached } from './src/tree/AzureAccountTreeItemWithAttached';
+export { flattenDocument, parseCsvDocument, toCsvRow } from './src/utils/csvUtils';
+export { compareDocuments, IComparedDocument, IDocumentChanges } from './src/utils/documentChanges';
+export { mergeDocuments } from './src/utils/documentConflicts';
+export { CsvParser, IDocumentParser, IParsedDocument, JsonLinesParser, JsonParser } from './src/utils/documentReaders';
 export { improveError } from './src/utils/improveError';
 export * from './src/utils/nonNull';
 export { randomUtils } from './src/utils/randomUtils';
+export { getValueType, ISchemaFieldReport, ISchemaReport, SchemaAnalyzer, toJsonSchema } from './src/utils/schemaAnalysis';
+export { toPascalCase, toTypeScriptInterfaces } from './src/utils/schemaToTypeScript';
 export { getGlobalSetting, updateGlobalSetting } from './src/utils/settingUtils';
 export { rejectOnTimeout, valueOnTimeout } from './src/utils/timeout';
 export { getDocumentTreeItemLabel, IDisposable } from './src/utils/vscodeUtils';
@@ -5,12 +5,14 @@
 
 import { Collection, Db } from "mongodb";
 import { basename, dirname } from 'path';
-import { FileStat, FileType, MessageItem, Uri, workspace } from "vscode";
+import { FileStat, FileType, MessageItem, Uri, window, workspace } from "vscode";
 import { AzExtItemQuery, AzExtItemUriParts, AzExtTreeFileSystem, AzExtTreeItem, DialogResponses, IActionContext, UserCancelledError } from 'vscode-azureextensionui';
 import { FileChangeType } from "vscode-languageclient";
 import { ext } from "./extensionVariables";
-import { MongoCollectionTreeItem } from "./mongo/tree/MongoCollectionTreeItem";
+import { IMongoCursorOptions, MongoCollectionTreeItem } from "./mongo/tree/MongoCollectionTreeItem";
 import { MongoDatabaseTreeItem } from "./mongo/tree/MongoDatabaseTreeItem";
+import { showDiff } from "./utils/diffUtils";
+import { IDocumentChange, IDocumentChanges } from "./utils/documentChanges";
 import { localize } from "./utils/localize";
 import { getWorkspaceSetting, updateGlobalSetting } from "./utils/settingUtils";
 import { getNodeEditorLabel } from "./utils/vscodeUtils";
@@ -21,8 +23,18 @@ export interface IEditableTreeItem extends AzExtTreeItem {
     mTime: number;
     getFileContent(context: IActionContext): Promise<string>;
     writeFileContent(context: IActionContext, data: string): Promise<void>;
+    /**
+     * Implemented by files of many documents, so that the changes to the documents can be previewed before they are saved
+     */
+    getDocumentChanges?(context: IActionContext, data: string): Promise<IDocumentChanges>;
+    /**
+     * True if the changes are always previewed before they are saved, whatever the settings, e.g. because saving them can be costly
+     */
+    isSavePreviewRequired?: boolean;
 }
 
+const cursorOptionKeys: (keyof IMongoCursorOptions)[] = ['sort', 'skip', 'limit', 'projection'];
+
 export class DatabasesFileSystem extends AzExtTreeFileSystem<IEditableTreeItem> {
     public static scheme: string = 'azureDatabases';
     public scheme: string = DatabasesFileSystem.scheme;
@@ -39,10 +51,20 @@ export class DatabasesFileSystem extends AzExtTreeFileSystem<IEditableTreeItem>
 
     public async writeFileImpl(context: IActionContext, node: IEditableTreeItem, content: Uint8Array, _originalUri: Uri): Promise<void> {
         const showSavePromptKey: string = 'showSavePrompt';
+        const showSavePreviewKey: string = 'showSavePreview';
         // NOTE: Using "cosmosDB" instead of "azureDatabases" here for the sake of backwards compatibility. If/when this file system adds support for non-cosmosdb items, we should consider changing this to "azureDatabases"
         const prefix: string = 'cosmosDB';
         const nodeEditorLabel: string = getNodeEditorLabel(node);
-        if (this._showSaveConfirmation && getWorkspaceSetting<boolean>(showSavePromptKey, undefined, prefix)) {
+        const showSavePrompt: boolean | undefined = getWorkspaceSetting<boolean>(showSavePromptKey, undefined, prefix);
+        // The preview is also shown when uploading without the save prompt, since it's the only place where the changes can be reviewed
+        if (node.getDocumentChanges && (node.isSavePreviewRequired || (showSavePrompt && getWorkspaceSetting<boolean>(showSavePreviewKey, undefined, prefix)))) {
+            if (!await confirmDocumentChanges(context, node, await node.getDocumentChanges(context, content.toString()))) {
+                const noChangesMessage: string = localize('noChangesToSave', 'No changes to save in "{0}".', node.filePath);
+                ext.outputChannel.appendLog(noChangesMessage);
+                void window.showInformationMessage(noChangesMessage);
+                return;
+            }
+        } else if (this._showSaveConfirmation && showSavePrompt) {
             const message: string = localize('saveConfirmation', 'Saving "{0}" will update the entity "{1}" to the cloud.', node.filePath, nodeEditorLabel);
             const result: MessageItem | undefined = await ext.ui.showWarningMessage(message, DialogResponses.upload, DialogResponses.alwaysUpload, DialogResponses.dontUpload);
             if (result === DialogResponses.alwaysUpload) {
@@ -80,8 +102,13 @@ export class DatabasesFileSystem extends AzExtTreeFileSystem<IEditableTreeItem>
 
     protected getUriParts(node: IEditableTreeItem): AzExtItemUriParts {
         const uriParts: AzExtItemUriParts = super.getUriParts(node);
-        if (node instanceof MongoCollectionTreeItem && node.findArgs) {
-            addFindArgsToQuery(uriParts.query, node.findArgs);
+        if (node instanceof MongoCollectionTreeItem) {
+            if (node.findArgs) {
+                addFindArgsToQuery(uriParts.query, node.findArgs);
+            }
+            if (node.cursorOptions) {
+                addCursorOptionsToQuery(uriParts.query, node.cursorOptions);
+            }
         }
         return uriParts;
     }
@@ -101,14 +128,54 @@ export class DatabasesFileSystem extends AzExtTreeFileSystem<IEditableTreeItem>
 
         if (node && node instanceof MongoCollectionTreeItem) {
             const findArgs: {}[] | undefined = getFindArgsFromQuery(query);
-            if (findArgs) {
-                return new MongoCollectionTreeItem(node.parent, node.collection, findArgs);
+            const cursorOptions: IMongoCursorOptions | undefined = getCursorOptionsFromQuery(query);
+            if (findArgs || cursorOptions) {
+                return new MongoCollectionTreeItem(node.parent, node.collection, findArgs, cursorOptions);
             }
         }
         return node;
     }
 }
 
+/**
+ * Shows the documents that would be changed by a save in a diff editor, lists the changed fields in the output, and asks to confirm the save.
+ * Returns false if there are no changes to save
+ */
+async function confirmDocumentChanges(context: IActionContext, node: IEditableTreeItem, changes: IDocumentChanges): Promise<boolean> {
+    const { modified, added, removed } = changes;
+    context.telemetry.measurements.modifiedCount = modified.length;
+    context.telemetry.measurements.addedCount = added.length;
+    context.telemetry.measurements.removedCount = removed.length;
+    if (!modified.length && !added.length && !removed.length) {
+        return false;
+    }
+
+    ext.outputChannel.appendLog(localize('savePreview', 'Changes to save in "{0}":', node.filePath));
+    for (const change of modified) {
+        ext.outputChannel.appendLine(localize('modifiedDocument', 'Modified "{0}": {1}', change.label, change.fields.join(', ')));
+    }
+    for (const change of added) {
+        ext.outputChannel.appendLine(localize('addedDocument', 'Added "{0}"', change.label));
+    }
+    for (const change of removed) {
+        ext.outputChannel.appendLine(localize('removedDocument', 'Removed "{0}" from the file. It won\'t be deleted.', change.label));
+    }
+    ext.outputChannel.show(true);
+
+    // Only the changed documents are shown, so that a few changes don't get lost among hundreds of documents
+    const changedDocuments: IDocumentChange[] = [...modified, ...added, ...removed];
+    const loaded: string = JSON.stringify(changedDocuments.filter(c => c.original).map(c => c.original), null, 2);
+    const edited: string = JSON.stringify(changedDocuments.filter(c => c.modified).map(c => c.modified), null, 2);
+    await showDiff(basename(node.filePath, '.json'), loaded, edited, '.json', localize('loadedTitle', 'Loaded'), localize('editedTitle', 'Edited'));
+
+    let message: string = changes.confirmation || localize('confirmDocumentChanges', 'Saving "{0}" will modify {1} and add {2} document(s). Review the changes in the diff editor and the changed fields in the output.', node.filePath, modified.length, added.length);
+    if (removed.length) {
+        message += ' ' + localize('removedNotDeleted', '{0} document(s) removed from the file won\'t be deleted.', removed.length);
+    }
+    await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.upload, DialogResponses.cancel);
+    return true;
+}
+
 function addFindArgsToQuery(query: AzExtItemQuery, commandArgs: {}[]): void {
     let count: number = 0;
     for (const arg of commandArgs) {
@@ -138,3 +205,24 @@ function getFindArgsFromQuery(query: AzExtItemQuery): {}[] | undefined {
 function getFindArgKey(count: number): string {
     return 'arg' + String(count);
 }
+
+function addCursorOptionsToQuery(query: AzExtItemQuery, cursorOptions: IMongoCursorOptions): void {
+    for (const key of cursorOptionKeys) {
+        if (cursorOptions[key] !== undefined) {
+            query[key] = JSON.stringify(cursorOptions[key]);
+        }
+    }
+}
+
+function getCursorOptionsFromQuery(query: AzExtItemQuery): IMongoCursorOptions | undefined {
+    let result: IMongoCursorOptions | undefined;
+    for (const key of cursorOptionKeys) {
+        const value: string | string[] | undefined = query[key];
+        if (typeof value === 'string') {
+            result = result || {};
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+            result[key] = JSON.parse(value);
+        }
+    }
+    return result;
+}
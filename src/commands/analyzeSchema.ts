@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IActionContext, openReadOnlyContent } from 'vscode-azureextensionui';
+import { DocDBCollectionTreeItem } from '../docdb/tree/DocDBCollectionTreeItem';
+import { ext } from '../extensionVariables';
+import { MongoCollectionTreeItem } from '../mongo/tree/MongoCollectionTreeItem';
+import { localize } from '../utils/localize';
+import { ISchemaReport, SchemaAnalyzer, toJsonSchema } from '../utils/schemaAnalysis';
+import { toTypeScriptInterfaces } from '../utils/schemaToTypeScript';
+import * as vscodeUtil from '../utils/vscodeUtils';
+import { getSchemaSampleSizeSetting } from '../utils/workspacUtils';
+import { getDocumentSource, IDocumentSource } from './documentSources';
+
+export async function analyzeSchema(context: IActionContext, node?: MongoCollectionTreeItem | DocDBCollectionTreeItem): Promise<void> {
+    if (!node) {
+        node = <MongoCollectionTreeItem | DocDBCollectionTreeItem>await ext.tree.showTreeItemPicker([MongoCollectionTreeItem.contextValue, DocDBCollectionTreeItem.contextValue], context);
+    }
+
+    const collectionName: string = node.label;
+    const report: ISchemaReport = await sampleCollection(context, node);
+    if (!report.sampledDocuments) {
+        void vscode.window.showInformationMessage(localize('noDocumentsToAnalyze', 'Collection "{0}" has no documents to analyze.', collectionName));
+        return;
+    }
+
+    const label: string = `${collectionName}-schema-report`;
+    await openReadOnlyContent({ label, fullId: `${node.fullId}/${label}` }, JSON.stringify(report, null, 2), '.json', { viewColumn: vscode.ViewColumn.Beside });
+
+    const isMongo: boolean = node instanceof MongoCollectionTreeItem;
+    const exportJsonSchema: vscode.MessageItem = { title: localize('exportJsonSchema', 'Export as JSON Schema') };
+    const exportTypeScript: vscode.MessageItem = { title: localize('exportTypeScript', 'Export as TypeScript') };
+    const message: string = localize('analyzedSchema', 'Analyzed {0} document(s) of "{1}".', report.sampledDocuments, collectionName);
+    void vscode.window.showInformationMessage(message, exportJsonSchema, exportTypeScript).then(async result => {
+        if (result === exportJsonSchema) {
+            // Mongo collections get the $jsonSchema dialect so that the schema can be used in the validation rules of the collection
+            const schema: {} = toJsonSchema(report, isMongo ? 'bson' : 'json', collectionName);
+            await vscodeUtil.showNewFile(JSON.stringify(schema, null, 2), `${collectionName}-schema`, '.json');
+        } else if (result === exportTypeScript) {
+            await vscodeUtil.showNewFile(toTypeScriptInterfaces(report, collectionName), collectionName, '.ts');
+        }
+    });
+}
+
+/**
+ * Analyzes up to the number of documents in the "schemaSampleSize" setting. Mongo collections are read with their current filter
+ */
+export async function sampleCollection(context: IActionContext, node: MongoCollectionTreeItem | DocDBCollectionTreeItem): Promise<ISchemaReport> {
+    const sampleSize: number = getSchemaSampleSizeSetting();
+    context.telemetry.measurements.sampleSize = sampleSize;
+
+    const source: IDocumentSource = getDocumentSource(node instanceof MongoCollectionTreeItem ? node : node.documentsTreeItem);
+    const analyzer: SchemaAnalyzer = new SchemaAnalyzer();
+    let count: number = 0;
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: localize('analyzingSchema', 'Analyzing documents of "{0}"...', node.label),
+            cancellable: true
+        },
+        async (progress, token) => {
+            try {
+                while (count < sampleSize && !token.isCancellationRequested) {
+                    const documents: {}[] | undefined = await source.getNextBatch();
+                    if (!documents) {
+                        break;
+                    }
+
+                    for (const document of documents.slice(0, sampleSize - count)) {
+                        // Mongo documents are analyzed as read so that BSON types such as ObjectId are kept
+                        analyzer.addDocument(node instanceof MongoCollectionTreeItem ? document : source.toJson(document));
+                        count += 1;
+                    }
+                    progress.report({ message: localize('analyzedCount', '{0} document(s)', count) });
+                }
+            } finally {
+                // The sample usually stops before the end of the collection
+                await source.close();
+            }
+        }
+    );
+
+    context.telemetry.measurements.analyzedCount = count;
+    return analyzer.getReport();
+}
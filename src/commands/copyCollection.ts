@@ -0,0 +1,267 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CosmosClient } from '@azure/cosmos';
+import * as vscode from 'vscode';
+import { IActionContext, IAzureQuickPickItem, parseError, UserCancelledError } from 'vscode-azureextensionui';
+import { getPartitionKeyPathValue, setPartitionKeyPathValue } from '../docdb/partitionKeys';
+import { IThroughputOffer, readThroughputOffer } from '../docdb/throughput';
+import { DocDBCollectionTreeItem } from '../docdb/tree/DocDBCollectionTreeItem';
+import { ext } from '../extensionVariables';
+import { MongoCollectionTreeItem } from '../mongo/tree/MongoCollectionTreeItem';
+import { localize } from '../utils/localize';
+import { DocumentInserter, getDocumentInserter, IImportBatchResult, IImportDocument, ImportConflictPolicy, promptForConflictPolicy } from './documentInserters';
+import { getDocumentSource, IDocumentSource } from './documentSources';
+
+type CollectionTreeItem = MongoCollectionTreeItem | DocDBCollectionTreeItem;
+
+export type CopyTransform = 'mongoIdToId' | 'simplifyExtendedJson' | 'idToMongoId' | 'fillPartitionKey';
+
+/**
+ * A field of the source documents to copy into a partition key path of the target collection
+ */
+export interface IPartitionKeyMapping {
+    sourcePath: string;
+    targetPath: string;
+}
+
+/**
+ * The share of a Core (SQL) collection's provisioned throughput that a copy may use, so that other clients of the collection aren't throttled
+ */
+const copyThroughputRatio: number = 0.8;
+
+const numberTypes: string[] = ['$numberInt', '$numberLong', '$numberDouble', '$numberDecimal'];
+
+export async function copyCollection(context: IActionContext, sourceNode?: CollectionTreeItem): Promise<void> {
+    if (!sourceNode) {
+        sourceNode = <CollectionTreeItem>await ext.tree.showTreeItemPicker([MongoCollectionTreeItem.contextValue, DocDBCollectionTreeItem.contextValue], context);
+    }
+
+    const targetNode: CollectionTreeItem = <CollectionTreeItem>await ext.tree.showTreeItemPicker([MongoCollectionTreeItem.contextValue, DocDBCollectionTreeItem.contextValue], context);
+    if (targetNode.fullId === sourceNode.fullId) {
+        throw new Error(localize('copyToSameCollection', 'Select a collection other than "{0}" to copy to.', sourceNode.label));
+    }
+
+    const transforms: CopyTransform[] = await promptForTransforms(sourceNode, targetNode);
+    const partitionKeyMappings: IPartitionKeyMapping[] = transforms.includes('fillPartitionKey') ? await promptForPartitionKeyMappings(<DocDBCollectionTreeItem>targetNode) : [];
+    const maxCount: number | undefined = await promptForMaxCount();
+    const conflictPolicy: ImportConflictPolicy = await promptForConflictPolicy();
+    context.telemetry.properties.sourceApi = sourceNode instanceof MongoCollectionTreeItem ? 'mongo' : 'core';
+    context.telemetry.properties.targetApi = targetNode instanceof MongoCollectionTreeItem ? 'mongo' : 'core';
+    context.telemetry.properties.transforms = transforms.join(',');
+    context.telemetry.properties.conflictPolicy = conflictPolicy;
+
+    const source: IDocumentSource = getDocumentSource(sourceNode instanceof MongoCollectionTreeItem ? sourceNode : sourceNode.documentsTreeItem);
+    const insertDocuments: DocumentInserter = getDocumentInserter(targetNode, conflictPolicy);
+    const throughputLimit: number | undefined = targetNode instanceof DocDBCollectionTreeItem ? await getThroughputLimit(targetNode) : undefined;
+    if (throughputLimit) {
+        ext.outputChannel.appendLog(localize('copyThroughputLimit', 'Limiting the copy to {0} RU/s of the throughput of "{1}".', Math.floor(throughputLimit), targetNode.label));
+    }
+
+    const sourceLabel: string = sourceNode.label;
+    let readCount: number = 0;
+    let copiedCount: number = 0;
+    let skippedCount: number = 0;
+    let failedCount: number = 0;
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: localize('copyingDocuments', 'Copying documents from "{0}" to "{1}"...', sourceLabel, targetNode.label),
+                cancellable: true
+            },
+            async (progress, token) => {
+                let documents: {}[] | undefined;
+                while ((maxCount === undefined || readCount < maxCount) && (documents = await source.getNextBatch())) {
+                    const batch: IImportDocument[] = documents.slice(0, maxCount === undefined ? undefined : maxCount - readCount).map((document: {}, i: number) => {
+                        return { source: sourceLabel, index: readCount + i, document: transformDocument(source.toJson(document), transforms, partitionKeyMappings) };
+                    });
+                    readCount += batch.length;
+
+                    const start: number = Date.now();
+                    const result: IImportBatchResult = await insertDocuments(batch);
+                    copiedCount += result.importedCount;
+                    skippedCount += result.skippedCount;
+                    failedCount += result.failures.length;
+                    for (const failure of result.failures) {
+                        ext.outputChannel.appendLine(localize('copyFailure', '{0}: Failed to copy document {1}: {2}', sourceLabel, getDocumentId(failure.document.document) || failure.document.index + 1, failure.error));
+                    }
+
+                    if (throughputLimit && result.requestCharge) {
+                        await delay(getThrottleDelay(result.requestCharge, throughputLimit, Date.now() - start));
+                    }
+
+                    progress.report({ message: localize('copyProgress', '{0} copied, {1} skipped, {2} failed', copiedCount, skippedCount, failedCount) });
+                    if (token.isCancellationRequested) {
+                        throw new UserCancelledError();
+                    }
+                }
+            }
+        );
+    } catch (error) {
+        if (error instanceof UserCancelledError) {
+            ext.outputChannel.appendLog(localize('copyCancelled', 'Copy cancelled. {0} document(s) were copied before cancelling.', copiedCount));
+        }
+        throw error;
+    } finally {
+        // A cancelled or failed copy stops before the end of the source, as does a copy of the first documents
+        await source.close();
+        context.telemetry.measurements.copiedCount = copiedCount;
+        context.telemetry.measurements.skippedCount = skippedCount;
+        context.telemetry.measurements.failedCount = failedCount;
+        await targetNode.refresh(context);
+    }
+
+    const result: string = localize('copyResult', 'Copied {0} document(s) from "{1}" to "{2}". {3} document(s) already existed and were skipped, {4} failed.', copiedCount, sourceLabel, targetNode.label, skippedCount, failedCount);
+    ext.outputChannel.appendLog(result);
+    if (failedCount) {
+        ext.outputChannel.show();
+        throw new Error(localize('copyFailures', '{0} See output for more details.', result));
+    }
+    void vscode.window.showInformationMessage(result);
+}
+
+async function promptForTransforms(sourceNode: CollectionTreeItem, targetNode: CollectionTreeItem): Promise<CopyTransform[]> {
+    const picks: IAzureQuickPickItem<CopyTransform>[] = [];
+    if (sourceNode instanceof MongoCollectionTreeItem && targetNode instanceof DocDBCollectionTreeItem) {
+        picks.push(
+            { label: localize('mongoIdToId', 'Map "_id" to "id"'), description: localize('mongoIdToIdDescription', 'Core (SQL) documents are identified by a string "id"'), data: 'mongoIdToId' },
+            { label: localize('simplifyExtendedJson', 'Convert Mongo types'), description: localize('simplifyExtendedJsonDescription', 'Store values such as ObjectId, Date and Long as plain strings and numbers'), data: 'simplifyExtendedJson' }
+        );
+    } else if (sourceNode instanceof DocDBCollectionTreeItem && targetNode instanceof MongoCollectionTreeItem) {
+        picks.push({ label: localize('idToMongoId', 'Map "id" to "_id"'), description: localize('idToMongoIdDescription', 'Keep the ids of the documents instead of generating new ObjectIds'), data: 'idToMongoId' });
+    }
+
+    if (targetNode instanceof DocDBCollectionTreeItem && targetNode.partitionKey) {
+        picks.push({ label: localize('fillPartitionKey', 'Add partition key'), description: localize('fillPartitionKeyDescription', 'Copy a field into the partition key of documents that don\'t have it'), data: 'fillPartitionKey' });
+    }
+
+    if (picks.length === 0) {
+        return [];
+    }
+
+    return (await ext.ui.showQuickPick(picks, {
+        placeHolder: localize('selectTransforms', 'Select how to transform the documents while copying them'),
+        canPickMany: true,
+        isPickSelected: (pick: IAzureQuickPickItem<CopyTransform>) => pick.data !== 'fillPartitionKey',
+        suppressPersistence: true
+    })).map(pick => pick.data);
+}
+
+async function promptForPartitionKeyMappings(targetNode: DocDBCollectionTreeItem): Promise<IPartitionKeyMapping[]> {
+    const mappings: IPartitionKeyMapping[] = [];
+    for (const targetPath of targetNode.partitionKey ? targetNode.partitionKey.paths : []) {
+        const sourcePath: string = await ext.ui.showInputBox({
+            prompt: localize('enterPartitionKeySourcePath', 'Enter the path of the field to copy into the partition key "{0}" of documents that don\'t have it', targetPath),
+            placeHolder: localize('partitionKeySourcePathPlaceHolder', 'e.g. /tenantId'),
+            validateInput: (input: string) => {
+                return /^\/?[^,#?\\\s]+$/.test(input.trim()) ? undefined : localize('invalidPartitionKeySourcePath', 'Enter a single path such as "/tenantId".');
+            }
+        });
+        mappings.push({ sourcePath: sourcePath.trim(), targetPath });
+    }
+    return mappings;
+}
+
+async function promptForMaxCount(): Promise<number | undefined> {
+    const value: string = await ext.ui.showInputBox({
+        prompt: localize('enterMaxCount', 'Enter the maximum number of documents to copy, or leave empty to copy all of them. Filters on the source collection are applied'),
+        validateInput: (input: string) => {
+            return !input || /^[1-9]\d*$/.test(input.trim()) ? undefined : localize('invalidMaxCount', 'Enter a positive whole number.');
+        }
+    });
+    return value.trim() ? Number(value.trim()) : undefined;
+}
+
+async function getThroughputLimit(targetNode: DocDBCollectionTreeItem): Promise<number | undefined> {
+    const client: CosmosClient = targetNode.root.getCosmosClient();
+    try {
+        // The collection may share the throughput of its database
+        const offer: IThroughputOffer | undefined = await readThroughputOffer(client, targetNode.rid) || await readThroughputOffer(client, targetNode.parent.rid);
+        return offer ? offer.throughput * copyThroughputRatio : undefined;
+    } catch (error) {
+        // Serverless accounts don't have throughput, so rely on the SDK to retry throttled requests
+        ext.outputChannel.appendLog(localize('readThroughputFailed', 'Could not read the throughput of "{0}": {1}', targetNode.label, parseError(error).message));
+        return undefined;
+    }
+}
+
+/**
+ * Returns how long to wait after a batch so that the request units it consumed are spread over at least a second per `throughputLimit` RUs
+ */
+export function getThrottleDelay(requestCharge: number, throughputLimit: number, elapsedMs: number): number {
+    return Math.max(0, Math.ceil(requestCharge / throughputLimit * 1000 - elapsedMs));
+}
+
+export function transformDocument(document: {}, transforms: CopyTransform[], partitionKeyMappings: IPartitionKeyMapping[] = []): {} {
+    let result: { [key: string]: unknown } = { ...document };
+    if (transforms.includes('simplifyExtendedJson')) {
+        result = <{ [key: string]: unknown }>simplifyExtendedJson(result);
+    }
+
+    if (transforms.includes('mongoIdToId') && result._id !== undefined && result.id === undefined) {
+        result.id = typeof result._id === 'string' ? result._id : getIdString(result._id);
+        delete result._id;
+    }
+
+    if (transforms.includes('idToMongoId') && result.id !== undefined && result._id === undefined) {
+        result._id = result.id;
+        delete result.id;
+    }
+
+    if (transforms.includes('fillPartitionKey')) {
+        for (const mapping of partitionKeyMappings) {
+            const value: unknown = getPartitionKeyPathValue(result, mapping.sourcePath);
+            if (getPartitionKeyPathValue(result, mapping.targetPath) === undefined && value !== undefined) {
+                setPartitionKeyPathValue(result, mapping.targetPath, value);
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Replaces Extended JSON wrappers such as {"$oid": "..."} or {"$numberLong": "..."} with plain strings and numbers
+ */
+function simplifyExtendedJson(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(simplifyExtendedJson);
+    } else if (value && typeof value === 'object') {
+        const keys: string[] = Object.keys(<{}>value);
+        if (keys.length === 1 && keys[0].startsWith('$')) {
+            const innerValue: unknown = simplifyExtendedJson((<{}>value)[keys[0]]);
+            if (numberTypes.includes(keys[0])) {
+                return Number(innerValue);
+            } else if (keys[0] === '$date' && typeof innerValue === 'number') {
+                return new Date(innerValue).toISOString();
+            }
+            return innerValue;
+        }
+
+        const result: {} = {};
+        for (const key of keys) {
+            result[key] = simplifyExtendedJson((<{}>value)[key]);
+        }
+        return result;
+    }
+    return value;
+}
+
+function getIdString(id: unknown): string {
+    const simplified: unknown = simplifyExtendedJson(id);
+    return typeof simplified === 'string' || typeof simplified === 'number' ? String(simplified) : JSON.stringify(simplified);
+}
+
+function getDocumentId(document: {} | undefined): string | undefined {
+    const id: unknown = document && ((<{ id?: unknown }>document).id !== undefined ? (<{ id?: unknown }>document).id : (<{ _id?: unknown }>document)._id);
+    return id === undefined ? undefined : getIdString(id);
+}
+
+async function delay(milliseconds: number): Promise<void> {
+    return new Promise(resolve => {
+        setTimeout(resolve, milliseconds);
+    });
+}
@@ -0,0 +1,191 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container, ItemDefinition, ItemResponse } from '@azure/cosmos';
+import { BulkWriteResult, WriteError } from 'mongodb';
+import { IAzureQuickPickItem, parseError } from 'vscode-azureextensionui';
+import { DocDBCollectionTreeItem } from '../docdb/tree/DocDBCollectionTreeItem';
+import { ext } from '../extensionVariables';
+import { MongoCollectionTreeItem } from '../mongo/tree/MongoCollectionTreeItem';
+import { IParsedDocument } from '../utils/documentReaders';
+import { localize } from '../utils/localize';
+import { nonNullValue } from '../utils/nonNull';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+/**
+ * How to handle documents with an id that already exists in the collection
+ */
+export type ImportConflictPolicy = 'fail' | 'skip' | 'overwrite' | 'merge';
+
+const conflictPolicyKey: string = 'cosmosDB.importConflictPolicy';
+const conflictStatusCode: number = 409;
+const mongoDuplicateKeyErrorCode: number = 11000;
+
+interface IDocDBWriteResult {
+    isSkipped: boolean;
+    requestCharge: number;
+}
+
+/**
+ * A document to import, along with where it came from so that failures can be reported
+ */
+export interface IImportDocument extends IParsedDocument {
+    /**
+     * The file or collection the document was read from
+     */
+    source: string;
+}
+
+export interface IImportFailure {
+    document: IImportDocument;
+    error: string;
+}
+
+export interface IImportBatchResult {
+    importedCount: number;
+    skippedCount: number;
+    failures: IImportFailure[];
+    /**
+     * The request units consumed by the batch, for Core (SQL) collections
+     */
+    requestCharge?: number;
+}
+
+export type DocumentInserter = (documents: IImportDocument[]) => Promise<IImportBatchResult>;
+
+export async function promptForConflictPolicy(): Promise<ImportConflictPolicy> {
+    const picks: IAzureQuickPickItem<ImportConflictPolicy>[] = [
+        { label: localize('conflictFail', 'Fail'), description: localize('conflictFailDescription', 'Report documents that already exist as failures'), data: 'fail' },
+        { label: localize('conflictSkip', 'Skip existing'), description: localize('conflictSkipDescription', 'Leave documents that already exist unchanged'), data: 'skip' },
+        { label: localize('conflictOverwrite', 'Overwrite'), description: localize('conflictOverwriteDescription', 'Replace documents that already exist'), data: 'overwrite' },
+        { label: localize('conflictMerge', 'Merge'), description: localize('conflictMergeDescription', 'Update the top-level fields of documents that already exist and keep their other fields'), data: 'merge' }
+    ];
+
+    // The last choice is remembered per workspace, since the same fixture files tend to be imported into a workspace's databases
+    const lastConflictPolicy: ImportConflictPolicy | undefined = ext.context.workspaceState.get<ImportConflictPolicy>(conflictPolicyKey);
+    picks.sort((a, b) => Number(b.data === lastConflictPolicy) - Number(a.data === lastConflictPolicy));
+    const conflictPolicy: ImportConflictPolicy = (await ext.ui.showQuickPick(picks, {
+        placeHolder: localize('selectConflictPolicy', 'Select how to handle documents that already exist in the collection'),
+        suppressPersistence: true
+    })).data;
+    await ext.context.workspaceState.update(conflictPolicyKey, conflictPolicy);
+    return conflictPolicy;
+}
+
+export function getDocumentInserter(collectionNode: MongoCollectionTreeItem | DocDBCollectionTreeItem, conflictPolicy: ImportConflictPolicy): DocumentInserter {
+    return collectionNode instanceof MongoCollectionTreeItem ? getMongoInserter(collectionNode, conflictPolicy) : getDocDBInserter(collectionNode, conflictPolicy);
+}
+
+function getDocDBInserter(collectionNode: DocDBCollectionTreeItem, conflictPolicy: ImportConflictPolicy): DocumentInserter {
+    const container: Container = collectionNode.getContainerClient(collectionNode.root.getCosmosClient());
+    return async (documents: IImportDocument[]) => {
+        const failures: IImportFailure[] = [];
+        let importedCount: number = 0;
+        let skippedCount: number = 0;
+        let requestCharge: number = 0;
+        // The version of @azure/cosmos we use doesn't support bulk operations, so the documents in a batch are written concurrently instead
+        await Promise.all(documents.map(async (parsed: IImportDocument) => {
+            const document: ItemDefinition = nonNullValue(parsed.document, 'document');
+            if (typeof document.id === 'number') {
+                // Ids are always strings in Core (SQL), but will be parsed as numbers from CSV files
+                document.id = String(document.id);
+            }
+
+            if (!collectionNode.documentsTreeItem.documentHasPartitionKey(document)) {
+                failures.push({ document: parsed, error: localize('missingPartitionKey', 'The document does not contain the partition key "{0}".', nonNullValue(collectionNode.partitionKey, 'partitionKey').paths.join(', ')) });
+                return;
+            }
+
+            try {
+                const result: IDocDBWriteResult = await writeDocDBDocument(container, collectionNode, document, conflictPolicy);
+                requestCharge += result.requestCharge;
+                if (result.isSkipped) {
+                    skippedCount += 1;
+                } else {
+                    importedCount += 1;
+                }
+            } catch (error) {
+                failures.push({ document: parsed, error: parseError(error).message });
+            }
+        }));
+
+        return { importedCount, skippedCount, failures, requestCharge };
+    };
+}
+
+async function writeDocDBDocument(container: Container, collectionNode: DocDBCollectionTreeItem, document: ItemDefinition, conflictPolicy: ImportConflictPolicy): Promise<IDocDBWriteResult> {
+    let response: ItemResponse<ItemDefinition>;
+    if (conflictPolicy === 'overwrite') {
+        response = await container.items.upsert(document);
+    } else if (conflictPolicy === 'merge' && document.id !== undefined) {
+        // The version of @azure/cosmos we use doesn't support patch, so the existing document is read and replaced instead
+        const readResponse: ItemResponse<ItemDefinition> = await container.item(document.id, collectionNode.documentsTreeItem.getPartitionKeyValue(document)).read<ItemDefinition>();
+        if (readResponse.resource) {
+            response = await readResponse.item.replace({ ...readResponse.resource, ...document });
+        } else {
+            response = await container.items.create(document);
+        }
+        return { isSkipped: false, requestCharge: readResponse.requestCharge + response.requestCharge };
+    } else {
+        try {
+            response = await container.items.create(document);
+        } catch (error) {
+            if (conflictPolicy === 'skip' && (<{ code?: number }>error).code === conflictStatusCode) {
+                return { isSkipped: true, requestCharge: 0 };
+            }
+            throw error;
+        }
+    }
+    return { isSkipped: false, requestCharge: response.requestCharge };
+}
+
+function getMongoInserter(collectionNode: MongoCollectionTreeItem, conflictPolicy: ImportConflictPolicy): DocumentInserter {
+    return async (documents: IImportDocument[]) => {
+        if (!documents.length) {
+            return { importedCount: 0, skippedCount: 0, failures: [] };
+        }
+
+        // Keep types such as ObjectId and Date that were exported as Extended JSON
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        const mongoDocuments: { _id?: unknown }[] = documents.map(d => EJSON.deserialize(d.document));
+        try {
+            await collectionNode.collection.bulkWrite(mongoDocuments.map(d => getMongoWriteOperation(d, conflictPolicy)), { ordered: false });
+            return { importedCount: documents.length, skippedCount: 0, failures: [] };
+        } catch (error) {
+            // With "ordered: false" the other documents are still written if some of them fail
+            const bulkWriteResult: BulkWriteResult | undefined = (<{ result?: BulkWriteResult }>error).result;
+            if (!bulkWriteResult || typeof bulkWriteResult.getWriteErrors !== 'function') {
+                throw error;
+            }
+
+            const writeErrors: WriteError[] = <WriteError[]>bulkWriteResult.getWriteErrors();
+            const failures: IImportFailure[] = [];
+            let skippedCount: number = 0;
+            for (const writeError of writeErrors) {
+                if (conflictPolicy === 'skip' && writeError.code === mongoDuplicateKeyErrorCode) {
+                    skippedCount += 1;
+                } else {
+                    failures.push({ document: documents[writeError.index], error: writeError.errmsg });
+                }
+            }
+            return { importedCount: documents.length - writeErrors.length, skippedCount, failures };
+        }
+    };
+}
+
+function getMongoWriteOperation(document: { _id?: unknown }, conflictPolicy: ImportConflictPolicy): object {
+    if (document._id === undefined || conflictPolicy === 'fail' || conflictPolicy === 'skip') {
+        return { insertOne: { document } };
+    } else if (conflictPolicy === 'overwrite') {
+        return { replaceOne: { filter: { _id: document._id }, replacement: document, upsert: true } };
+    } else {
+        const fields: { _id?: unknown } = { ...document };
+        delete fields._id;
+        // The server rejects an empty $set, so a document with only an _id is inserted if it doesn't exist and otherwise left unchanged
+        const update: {} = Object.keys(fields).length ? { $set: fields } : { $setOnInsert: { _id: document._id } };
+        return { updateOne: { filter: { _id: document._id }, update, upsert: true } };
+    }
+}
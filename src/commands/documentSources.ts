@@ -0,0 +1,82 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { FeedResponse, ItemDefinition, QueryIterator } from '@azure/cosmos';
+import { Cursor } from 'mongodb';
+import { DocDBDocumentsTreeItem } from '../docdb/tree/DocDBDocumentsTreeItem';
+import { hiddenFields } from '../docdb/tree/DocDBDocumentTreeItem';
+import { MongoCollectionTreeItem } from '../mongo/tree/MongoCollectionTreeItem';
+import { getBatchSizeSetting } from '../utils/workspacUtils';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+/**
+ * Reads the documents of a collection in batches. Mongo collections and Core (SQL) documents are read with their current filter
+ */
+export interface IDocumentSource {
+    /**
+     * Returns the next batch of documents, or undefined when there are no more
+     */
+    getNextBatch(): Promise<{}[] | undefined>;
+
+    /**
+     * Converts a document to plain JSON, e.g. to keep Mongo types as Extended JSON
+     */
+    toJson(document: {}): {};
+
+    /**
+     * Releases what the source holds on the server, for when it isn't read to the end
+     */
+    close(): Promise<void>;
+}
+
+export function getDocumentSource(node: MongoCollectionTreeItem | DocDBDocumentsTreeItem): IDocumentSource {
+    return node instanceof MongoCollectionTreeItem ? getMongoSource(node) : getDocDBSource(node);
+}
+
+function getMongoSource(node: MongoCollectionTreeItem): IDocumentSource {
+    const batchSize: number = getBatchSizeSetting();
+    const cursor: Cursor = node.createCursor().batchSize(batchSize);
+    return {
+        getNextBatch: async () => {
+            const documents: {}[] = [];
+            while (documents.length < batchSize && await cursor.hasNext()) {
+                documents.push(<{}>await cursor.next());
+            }
+            return documents.length ? documents : undefined;
+        },
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        toJson: (document: {}) => EJSON.serialize(document),
+        close: async () => {
+            await cursor.close();
+        }
+    };
+}
+
+function getDocDBSource(node: DocDBDocumentsTreeItem): IDocumentSource {
+    const iterator: QueryIterator<ItemDefinition> = node.getIterator(node.root.getCosmosClient(), { maxItemCount: getBatchSizeSetting() });
+    return {
+        getNextBatch: async () => {
+            while (iterator.hasMoreResults()) {
+                const response: FeedResponse<ItemDefinition> = await iterator.fetchNext();
+                // A page can be empty even if there are more results, e.g. for cross-partition queries
+                if (response.resources && response.resources.length) {
+                    return response.resources;
+                }
+            }
+            return undefined;
+        },
+        toJson: (document: ItemDefinition) => {
+            const result: ItemDefinition = { ...document };
+            for (const field of hiddenFields) {
+                delete result[field];
+            }
+            return result;
+        },
+        close: async () => {
+            // Query iterators don't hold anything on the server between pages
+        }
+    };
+}
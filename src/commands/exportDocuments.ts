@@ -0,0 +1,205 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import * as vscode from 'vscode';
+import { IActionContext, IAzureQuickPickItem, UserCancelledError } from 'vscode-azureextensionui';
+import { DocDBDocumentsTreeItem } from '../docdb/tree/DocDBDocumentsTreeItem';
+import { ext } from '../extensionVariables';
+import { MongoCollectionTreeItem } from '../mongo/tree/MongoCollectionTreeItem';
+import { flattenDocument, FlattenedDocument, toCsvRow } from '../utils/csvUtils';
+import { localize } from '../utils/localize';
+import { randomUtils } from '../utils/randomUtils';
+import { getRootPath } from '../utils/workspacUtils';
+import { getDocumentSource, IDocumentSource } from './documentSources';
+
+type ExportFormat = 'json' | 'jsonl' | 'csv';
+
+export async function exportDocuments(context: IActionContext, node?: MongoCollectionTreeItem | DocDBDocumentsTreeItem): Promise<void> {
+    if (!node) {
+        node = <MongoCollectionTreeItem | DocDBDocumentsTreeItem>await ext.tree.showTreeItemPicker([MongoCollectionTreeItem.contextValue, DocDBDocumentsTreeItem.contextValue], context);
+    }
+
+    const formatPicks: IAzureQuickPickItem<ExportFormat>[] = [
+        { label: localize('jsonFormat', 'JSON'), description: localize('jsonFormatDescription', 'A JSON array of documents'), data: 'json' },
+        { label: localize('jsonLinesFormat', 'JSON Lines'), description: localize('jsonLinesFormatDescription', 'One JSON document per line'), data: 'jsonl' },
+        { label: localize('csvFormat', 'CSV'), description: localize('csvFormatDescription', 'One row per document, with nested fields flattened into columns'), data: 'csv' }
+    ];
+    const format: ExportFormat = (await ext.ui.showQuickPick(formatPicks, { placeHolder: localize('selectExportFormat', 'Select a format for the exported documents') })).data;
+    context.telemetry.properties.format = format;
+
+    const collectionName: string = node instanceof MongoCollectionTreeItem ? node.label : node.parent.label;
+    const rootPath: string | undefined = getRootPath();
+    const uri: vscode.Uri | undefined = await vscode.window.showSaveDialog({
+        defaultUri: rootPath ? vscode.Uri.file(path.join(rootPath, `${collectionName}.${format}`)) : undefined,
+        saveLabel: localize('export', 'Export'),
+        filters: { [format.toUpperCase()]: [format] }
+    });
+    if (!uri) {
+        throw new UserCancelledError();
+    }
+
+    const source: IDocumentSource = getDocumentSource(node);
+    const count: number = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: localize('exportingDocuments', 'Exporting documents from "{0}"...', collectionName),
+            cancellable: true
+        },
+        async (progress, token) => {
+            try {
+                return await writeDocuments(uri.fsPath, format, source, token, (exportedCount: number) => {
+                    progress.report({ message: localize('exportedCount', '{0} document(s)', exportedCount) });
+                });
+            } catch (error) {
+                // Don't leave a partial export behind
+                await fse.remove(uri.fsPath);
+                throw error;
+            }
+        }
+    );
+
+    context.telemetry.measurements.exportedCount = count;
+    const message: string = localize('exportedDocuments', 'Exported {0} document(s) from "{1}" to "{2}".', count, collectionName, uri.fsPath);
+    ext.outputChannel.appendLog(message);
+    const open: vscode.MessageItem = { title: localize('openFile', 'Open File') };
+    void vscode.window.showInformationMessage(message, open).then(async result => {
+        if (result === open) {
+            await vscode.window.showTextDocument(uri);
+        }
+    });
+}
+
+async function writeDocuments(filePath: string, format: ExportFormat, source: IDocumentSource, token: vscode.CancellationToken, reportProgress: (count: number) => void): Promise<number> {
+    // CSV needs every column before the header can be written, so the flattened rows are written to a temporary file first
+    const csvRowsPath: string | undefined = format === 'csv' ? path.join(os.tmpdir(), `cosmosdb-export-${randomUtils.getRandomHexString(12)}.jsonl`) : undefined;
+    const writer: FileWriter = new FileWriter(csvRowsPath || filePath);
+    const columns: Set<string> = new Set<string>();
+    let count: number = 0;
+
+    try {
+        try {
+            if (format === 'json') {
+                await writer.write('[');
+            }
+
+            let documents: {}[] | undefined;
+            while ((documents = await source.getNextBatch())) {
+                for (const document of documents) {
+                    const json: {} = source.toJson(document);
+                    if (format === 'json') {
+                        const indented: string = JSON.stringify(json, null, 2).replace(/\n/g, '\n  ');
+                        await writer.write(`${count ? ',' : ''}\n  ${indented}`);
+                    } else if (format === 'jsonl') {
+                        await writer.write(`${JSON.stringify(json)}\n`);
+                    } else {
+                        const row: FlattenedDocument = flattenDocument(json);
+                        Object.keys(row).forEach(column => columns.add(column));
+                        await writer.write(`${JSON.stringify(row)}\n`);
+                    }
+
+                    count += 1;
+                }
+
+                reportProgress(count);
+                if (token.isCancellationRequested) {
+                    throw new UserCancelledError();
+                }
+            }
+        } finally {
+            // A cancelled or failed export stops before the end of the source
+            await source.close();
+        }
+
+        if (format === 'json') {
+            await writer.write(count ? '\n]\n' : ']\n');
+        }
+    } finally {
+        await writer.close();
+    }
+
+    if (csvRowsPath) {
+        try {
+            await writeCsv(filePath, csvRowsPath, Array.from(columns));
+        } finally {
+            await fse.remove(csvRowsPath);
+        }
+    }
+
+    return count;
+}
+
+async function writeCsv(filePath: string, rowsPath: string, columns: string[]): Promise<void> {
+    const writer: FileWriter = new FileWriter(filePath);
+    const input: fse.ReadStream = fse.createReadStream(rowsPath);
+    const lines: readline.Interface = readline.createInterface({ input, crlfDelay: Infinity });
+    try {
+        await writer.write(`${toCsvRow(columns)}\n`);
+        const onLine = async (line: string): Promise<void> => {
+            if (line) {
+                const row: FlattenedDocument = <FlattenedDocument>JSON.parse(line);
+                await writer.write(`${toCsvRow(columns.map(column => row[column]))}\n`);
+            }
+        };
+
+        // Process lines one at a time so that writing the CSV file applies back pressure to reading the rows
+        await new Promise<void>((resolve, reject) => {
+            let pending: Promise<void> = Promise.resolve();
+            let pendingCount: number = 0;
+            lines.on('line', (line: string) => {
+                // Lines that were already read may still be emitted after pausing, so they are queued in order
+                lines.pause();
+                pendingCount += 1;
+                pending = pending.then(async () => {
+                    await onLine(line);
+                    pendingCount -= 1;
+                    if (pendingCount === 0) {
+                        lines.resume();
+                    }
+                });
+                pending.catch(reject);
+            });
+            lines.on('close', () => { pending.then(resolve, reject); });
+        });
+    } finally {
+        // The rows may not have been read to the end if writing failed
+        lines.close();
+        input.destroy();
+        await writer.close();
+    }
+}
+
+/**
+ * Writes text to a file, waiting for the stream to drain when its buffer is full so that large exports aren't held in memory
+ */
+class FileWriter {
+    private readonly _stream: fse.WriteStream;
+    private _error: Error | undefined;
+
+    constructor(filePath: string) {
+        this._stream = fse.createWriteStream(filePath, { encoding: 'utf8' });
+        this._stream.on('error', (error: Error) => { this._error = error; });
+    }
+
+    public async write(text: string): Promise<void> {
+        if (this._error) {
+            throw this._error;
+        }
+
+        if (!this._stream.write(text)) {
+            await new Promise<void>((resolve, reject) => {
+                this._stream.once('drain', resolve);
+                this._stream.once('error', reject);
+            });
+        }
+    }
+
+    public async close(): Promise<void> {
+        await new Promise<void>((resolve) => this._stream.end(resolve));
+    }
+}
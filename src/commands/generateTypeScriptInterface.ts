@@ -0,0 +1,31 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IActionContext } from 'vscode-azureextensionui';
+import { DocDBCollectionTreeItem } from '../docdb/tree/DocDBCollectionTreeItem';
+import { ext } from '../extensionVariables';
+import { MongoCollectionTreeItem } from '../mongo/tree/MongoCollectionTreeItem';
+import { localize } from '../utils/localize';
+import { ISchemaReport } from '../utils/schemaAnalysis';
+import { toTypeScriptInterfaces } from '../utils/schemaToTypeScript';
+import * as vscodeUtil from '../utils/vscodeUtils';
+import { sampleCollection } from './analyzeSchema';
+
+export async function generateTypeScriptInterface(context: IActionContext, node?: MongoCollectionTreeItem | DocDBCollectionTreeItem): Promise<void> {
+    if (!node) {
+        node = <MongoCollectionTreeItem | DocDBCollectionTreeItem>await ext.tree.showTreeItemPicker([MongoCollectionTreeItem.contextValue, DocDBCollectionTreeItem.contextValue], context);
+    }
+
+    const collectionName: string = node.label;
+    const report: ISchemaReport = await sampleCollection(context, node);
+    if (!report.sampledDocuments) {
+        void vscode.window.showInformationMessage(localize('noDocumentsForInterface', 'Collection "{0}" has no documents to generate an interface from.', collectionName));
+        return;
+    }
+
+    const header: string = localize('generatedInterfaceHeader', '// Generated from {0} document(s) of "{1}". Fields missing from some documents are optional.', report.sampledDocuments, collectionName);
+    await vscodeUtil.showNewFile(`${header}\n${toTypeScriptInterfaces(report, collectionName)}`, collectionName, '.ts');
+}
@@ -3,15 +3,49 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { ItemDefinition } from '@azure/cosmos';
 import * as fse from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { IActionContext, parseError } from 'vscode-azureextensionui';
+import { callWithTelemetryAndErrorHandling, IActionContext, UserCancelledError } from 'vscode-azureextensionui';
 import { DocDBCollectionTreeItem } from '../docdb/tree/DocDBCollectionTreeItem';
 import { ext } from '../extensionVariables';
 import { MongoCollectionTreeItem } from '../mongo/tree/MongoCollectionTreeItem';
-import { nonNullProp, nonNullValue } from '../utils/nonNull';
-import { getRootPath } from '../utils/workspacUtils';
+import { importFileExtensions, IParsedDocument, readDocumentsInBatches } from '../utils/documentReaders';
+import { localize } from '../utils/localize';
+import { nonNullValue } from '../utils/nonNull';
+import { randomUtils } from '../utils/randomUtils';
+import { getImportBatchSizeSetting, getImportErrorHandlingSetting, getRootPath } from '../utils/workspacUtils';
+import { DocumentInserter, getDocumentInserter, IImportBatchResult, IImportDocument, IImportFailure, ImportConflictPolicy, promptForConflictPolicy } from './documentInserters';
+
+type ImportErrorHandling = 'continue' | 'stop';
+
+/**
+ * A line of the error report written when documents fail to import. The report is a JSON Lines file, so it can be read again to retry the failed documents
+ */
+interface IImportErrorReportEntry {
+    file: string;
+    /**
+     * The zero-based position of the document in the file
+     */
+    index: number;
+    line?: number;
+    error: string;
+    /**
+     * The document as it was read from the file, or undefined if it couldn't be parsed
+     */
+    document?: {};
+}
+
+interface IImportSource {
+    filePath: string;
+    readInBatches(batchSize: number, onBatch: (documents: IImportDocument[], bytesRead: number) => Promise<void>): Promise<void>;
+}
+
+/**
+ * Thrown to end an import at the first failure when the "stop" error handling is configured
+ */
+class ImportStoppedError extends Error { }
 
 export async function importDocuments(actionContext: IActionContext, uris: vscode.Uri[] | undefined, collectionNode: MongoCollectionTreeItem | DocDBCollectionTreeItem | undefined): Promise<void> {
     if (!uris) {
@@ -19,7 +53,7 @@ export async function importDocuments(actionContext: IActionContext, uris: vscod
     }
     const ignoredUris: vscode.Uri[] = []; //account for https://github.com/Microsoft/vscode/issues/59782
     uris = uris.filter((uri) => {
-        if (uri.fsPath.toLocaleLowerCase().endsWith('.json')) {
+        if (importFileExtensions.includes(path.extname(uri.fsPath).slice(1).toLowerCase())) {
             return true;
         } else {
             ignoredUris.push(uri);
@@ -27,38 +61,115 @@ export async function importDocuments(actionContext: IActionContext, uris: vscod
         }
     });
     if (ignoredUris.length) {
-        ext.outputChannel.appendLog(`Ignoring the following files which are not json:`);
+        ext.outputChannel.appendLog(`Ignoring the following files which are not json, jsonl or csv:`);
         ignoredUris.forEach(uri => ext.outputChannel.appendLine(`${uri.fsPath}`));
         ext.outputChannel.show();
     }
     if (!collectionNode) {
         collectionNode = <MongoCollectionTreeItem | DocDBCollectionTreeItem>await ext.tree.showTreeItemPicker([MongoCollectionTreeItem.contextValue, DocDBCollectionTreeItem.contextValue], actionContext);
     }
-    let result: string;
-    result = await vscode.window.withProgress(
-        {
-            location: vscode.ProgressLocation.Notification,
-            title: "Importing documents..."
-        },
-        async (progress) => {
-            uris = nonNullValue(uris, 'uris');
-            collectionNode = nonNullValue(collectionNode, 'collectionNode');
-
-            progress.report({ increment: 20, message: "Parsing documents for errors" });
-            const documents = await parseDocuments(uris);
-            progress.report({ increment: 30, message: "Parsed documents. Importing" });
-            if (collectionNode instanceof MongoCollectionTreeItem) {
-                result = await insertDocumentsIntoMongo(collectionNode, documents);
-            } else {
-                result = await insertDocumentsIntoDocdb(collectionNode, documents, uris);
+
+    const conflictPolicy: ImportConflictPolicy = await promptForConflictPolicy();
+    await importFromSources(actionContext, collectionNode, uris.map(uri => getFileSource(uri.fsPath)), conflictPolicy);
+}
+
+async function importFromSources(actionContext: IActionContext, collectionNode: MongoCollectionTreeItem | DocDBCollectionTreeItem, sources: IImportSource[], conflictPolicy: ImportConflictPolicy): Promise<void> {
+    const batchSize: number = getImportBatchSizeSetting();
+    const errorHandling: ImportErrorHandling = getImportErrorHandlingSetting();
+    actionContext.telemetry.properties.errorHandling = errorHandling;
+    actionContext.telemetry.properties.conflictPolicy = conflictPolicy;
+    const insertDocuments: DocumentInserter = getDocumentInserter(collectionNode, conflictPolicy);
+    let totalBytes: number = 0;
+    for (const source of sources) {
+        totalBytes += (await fse.stat(source.filePath)).size;
+    }
+
+    // The report is only created once a document fails
+    const reportPath: string = path.join(os.tmpdir(), `cosmosdb-import-errors-${randomUtils.getRandomHexString(12)}.jsonl`);
+    let importedCount: number = 0;
+    let skippedCount: number = 0;
+    let failedCount: number = 0;
+    let isStopped: boolean = false;
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: localize('importingDocuments', 'Importing documents...'),
+                cancellable: true
+            },
+            async (progress, token) => {
+                let totalBytesRead: number = 0;
+                for (const source of sources) {
+                    let sourceBytesRead: number = 0;
+                    await source.readInBatches(batchSize, async (documents: IImportDocument[], bytesRead: number) => {
+                        if (token.isCancellationRequested) {
+                            throw new UserCancelledError();
+                        }
+
+                        const failures: IImportFailure[] = documents.filter(d => d.error !== undefined).map(d => { return { document: d, error: nonNullValue(d.error, 'error') }; });
+                        const result: IImportBatchResult = await insertDocuments(documents.filter(d => d.document !== undefined));
+                        importedCount += result.importedCount;
+                        skippedCount += result.skippedCount;
+                        failures.push(...result.failures);
+                        if (failures.length) {
+                            failedCount += failures.length;
+                            await writeFailures(reportPath, failures);
+                            if (errorHandling === 'stop') {
+                                throw new ImportStoppedError();
+                            }
+                        }
+
+                        const newBytesRead: number = bytesRead - sourceBytesRead;
+                        sourceBytesRead = bytesRead;
+                        totalBytesRead += newBytesRead;
+                        progress.report({
+                            increment: totalBytes ? newBytesRead / totalBytes * 100 : undefined,
+                            message: localize('importProgress', '{0} imported, {1} skipped, {2} failed ({3}%)', importedCount, skippedCount, failedCount, totalBytes ? Math.floor(totalBytesRead / totalBytes * 100) : 100)
+                        });
+                    });
+                }
+            }
+        );
+    } catch (error) {
+        if (error instanceof ImportStoppedError) {
+            isStopped = true;
+        } else {
+            if (error instanceof UserCancelledError) {
+                ext.outputChannel.appendLog(localize('importCancelled', 'Import cancelled. {0} document(s) were imported before cancelling.', importedCount));
             }
-            progress.report({ increment: 50, message: "Finished importing" });
-            return result;
+            if (failedCount) {
+                ext.outputChannel.appendLog(localize('importErrorReport', 'The documents that failed to import were written to "{0}".', reportPath));
+            }
+            throw error;
         }
-    );
+    } finally {
+        actionContext.telemetry.measurements.importedCount = importedCount;
+        actionContext.telemetry.measurements.skippedCount = skippedCount;
+        actionContext.telemetry.measurements.failedCount = failedCount;
+        await collectionNode.refresh(actionContext);
+    }
 
-    await collectionNode.refresh(actionContext);
-    await vscode.window.showInformationMessage(result);
+    const result: string = localize('importResult', 'Imported {0} document(s) into "{1}". {2} document(s) already existed and were skipped, {3} failed.', importedCount, collectionNode.label, skippedCount, failedCount);
+    ext.outputChannel.appendLog(result);
+    if (!failedCount) {
+        void vscode.window.showInformationMessage(result);
+        return;
+    }
+
+    ext.outputChannel.appendLog(localize('importErrorReport', 'The documents that failed to import were written to "{0}".', reportPath));
+    const message: string = isStopped ? localize('importStopped', 'Import stopped at the first failure. {0}', result) : result;
+    const openReport: vscode.MessageItem = { title: localize('openErrorReport', 'Open Error Report') };
+    const retry: vscode.MessageItem = { title: localize('retryFailedDocuments', 'Retry Failed Documents') };
+    void vscode.window.showWarningMessage(message, openReport, retry).then(async response => {
+        await callWithTelemetryAndErrorHandling('cosmosDB.importDocuments.errorReport', async (context: IActionContext) => {
+            if (response === openReport) {
+                await vscode.window.showTextDocument(vscode.Uri.file(reportPath));
+            } else if (response === retry) {
+                context.telemetry.properties.retry = 'true';
+                await importFromSources(context, collectionNode, [getErrorReportSource(reportPath)], conflictPolicy);
+            }
+        });
+    });
 }
 
 async function askForDocuments(): Promise<vscode.Uri[]> {
@@ -66,7 +177,7 @@ async function askForDocuments(): Promise<vscode.Uri[]> {
         canSelectMany: true,
         openLabel: "Import",
         filters: {
-            JSON: ["json"]
+            Documents: importFileExtensions
         }
     };
     const rootPath: string | undefined = getRootPath();
@@ -76,81 +187,50 @@ async function askForDocuments(): Promise<vscode.Uri[]> {
     return await ext.ui.showOpenDialog(openDialogOptions);
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function parseDocuments(uris: vscode.Uri[]): Promise<any[]> {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let documents: any[] = [];
-    let errorFoundFlag: boolean = false;
-    for (const uri of uris) {
-        let parsed;
-        try {
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-            parsed = await fse.readJSON(uri.fsPath);
-        } catch (e) {
-            if (!errorFoundFlag) {
-                errorFoundFlag = true;
-                ext.outputChannel.appendLog("Errors found in documents listed below. Please fix these.");
-                ext.outputChannel.show();
-            }
-            const err = parseError(e);
-            ext.outputChannel.appendLine(`${uri.path}:\n${err.message}`);
-        }
-        if (parsed) {
-            if (Array.isArray(parsed)) {
-                documents = documents.concat(parsed);
-            } else {
-                documents.push(parsed);
-            }
-        }
-    }
-    if (errorFoundFlag) {
-        throw new Error(`Errors found in some documents. Please see the output, fix these and try again.`);
-    }
-
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-return
-    return documents;
+async function writeFailures(reportPath: string, failures: IImportFailure[]): Promise<void> {
+    const entries: IImportErrorReportEntry[] = failures.sort((a, b) => a.document.index - b.document.index).map(failure => {
+        const location: string = failure.document.line === undefined ? failure.document.source : `${failure.document.source}:${failure.document.line}`;
+        ext.outputChannel.appendLine(localize('importFailure', '{0}: Failed to import document {1}: {2}', location, failure.document.index + 1, failure.error));
+        return {
+            file: failure.document.source,
+            index: failure.document.index,
+            line: failure.document.line,
+            error: failure.error,
+            document: failure.document.document
+        };
+    });
+    await fse.appendFile(reportPath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function insertDocumentsIntoDocdb(collectionNode: DocDBCollectionTreeItem, documents: any[], uris: vscode.Uri[]): Promise<string> {
-    const ids: string[] = [];
-    let i = 0;
-    const erroneousFiles: vscode.Uri[] = [];
-    for (i = 0; i < documents.length; i++) {
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-        const document: ItemDefinition = documents[i];
-        if (!collectionNode.documentsTreeItem.documentHasPartitionKey(document)) {
-            erroneousFiles.push(uris[i]);
+function getFileSource(filePath: string): IImportSource {
+    return {
+        filePath,
+        readInBatches: async (batchSize, onBatch) => {
+            await readDocumentsInBatches(filePath, batchSize, async (documents: IParsedDocument[], bytesRead: number) => {
+                await onBatch(documents.map(d => { return { ...d, source: filePath }; }), bytesRead);
+            });
         }
-    }
-    if (erroneousFiles.length) {
-        ext.outputChannel.appendLog(`The following documents do not contain the required partition key:`);
-        erroneousFiles.forEach(file => ext.outputChannel.appendLine(file.path));
-        ext.outputChannel.show();
-        throw new Error(`See output for list of documents that do not contain the partition key '${nonNullProp(collectionNode, 'partitionKey').paths[0]}' required by collection '${collectionNode.label}'`);
-    }
-    for (const document of documents) {
-        const retrieved: ItemDefinition = await collectionNode.documentsTreeItem.createDocument(document);
-        if (retrieved.id) {
-            ids.push(retrieved.id);
-        }
-    }
-    const result: string = `Import into SQL successful. Inserted ${ids.length} document(s). See output for more details.`;
-    for (const id of ids) {
-        ext.outputChannel.appendLine(`Inserted document: ${id}`);
-    }
-    return result;
+    };
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function insertDocumentsIntoMongo(node: MongoCollectionTreeItem, documents: any[]): Promise<string> {
-    let output = "";
-    const parsed = await node.collection.insertMany(documents);
-    if (parsed.result && parsed.result.ok) {
-        output = `Import into mongo successful. Inserted ${parsed.insertedCount} document(s). See output for more details.`;
-        for (const inserted of Object.values(parsed.insertedIds)) {
-            ext.outputChannel.appendLine(`Inserted document: ${inserted}`);
+/**
+ * Reads the failed documents from an error report, keeping the file and position they originally came from
+ */
+function getErrorReportSource(reportPath: string): IImportSource {
+    return {
+        filePath: reportPath,
+        readInBatches: async (batchSize, onBatch) => {
+            await readDocumentsInBatches(reportPath, batchSize, async (documents: IParsedDocument[], bytesRead: number) => {
+                await onBatch(documents.map((d: IParsedDocument) => {
+                    if (!d.document) {
+                        return { ...d, source: reportPath };
+                    }
+
+                    const entry: IImportErrorReportEntry = <IImportErrorReportEntry>d.document;
+                    // Documents that couldn't be parsed can't be retried, so they fail again with the same error
+                    return { source: entry.file, index: entry.index, line: entry.line, document: entry.document, error: entry.document ? undefined : entry.error };
+                }), bytesRead);
+            });
         }
-    }
-    return output;
+    };
 }
@@ -71,6 +71,29 @@ export const defaultStoredProcedure =
     if (!isAccepted) throw new Error('The query was not accepted by the server.');
 };` ;
 
+export const defaultTrigger =
+    `function trigger() {
+    var context = getContext();
+    var request = context.getRequest();
+
+    // Item to be created in the current operation
+    var itemToCreate = request.getBody();
+
+    // Validate properties
+    if (!("timestamp" in itemToCreate)) {
+        var ts = new Date();
+        itemToCreate["timestamp"] = ts.getTime();
+    }
+
+    // Update the item that will be created
+    request.setBody(itemToCreate);
+}`;
+
+export const defaultUserDefinedFunction =
+    `function userDefinedFunction(input) {
+    return input;
+}`;
+
 export const emulatorPassword = 'C2y6yDjf5/R+ob0N8A7Cgv30VRDJIWEHLM+4QDU5DE2nQ9nDuVTqobD4b8mGGyPMbIZnqyMsEcaGQy67XIw/Jw==';
 
 // https://docs.mongodb.com/manual/mongo/#working-with-the-mongo-shell
@@ -82,3 +105,9 @@ export const postgresFileExtension: string = `.psql`;
 export const postgresBaseFileName: string = 'query';
 export const postgresDefaultPort = '5432';
 export const postgresDefaultDatabase = 'postgres';
+
+export const connectedNoSqlContainerKey: string = 'ms-azuretools.vscode-cosmosdb.connectedNoSqlContainer';
+export const noSqlLanguageId: string = 'nosql';
+export const noSqlFileExtension: string = '.nosql';
+export const noSqlDefaultQuery: string = 'SELECT * FROM c';
+export const documentsFilterKeyPrefix: string = 'ms-azuretools.vscode-cosmosdb.documentsFilter/';
@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Uri, window } from 'vscode';
+import { AzureTreeItem, IActionContext } from "vscode-azureextensionui";
+import { connectedNoSqlContainerKey } from '../../constants';
+import { ext } from "../../extensionVariables";
+import { DocDBCollectionTreeItem } from "../tree/DocDBCollectionTreeItem";
+
+export async function connectNoSqlContainer(context: IActionContext, treeItem?: Uri | DocDBCollectionTreeItem): Promise<void> {
+    if (!treeItem || treeItem instanceof Uri) {
+        if (treeItem) {
+            void window.showTextDocument(treeItem);
+        }
+
+        treeItem = <DocDBCollectionTreeItem>await ext.tree.showTreeItemPicker(DocDBCollectionTreeItem.contextValue, context);
+    }
+
+    const oldTreeItemId: string | undefined = ext.connectedNoSqlContainer && ext.connectedNoSqlContainer.fullId;
+    void ext.context.globalState.update(connectedNoSqlContainerKey, treeItem.fullId);
+    ext.connectedNoSqlContainer = treeItem;
+    if (ext.noSqlCodeLensProvider) {
+        ext.noSqlCodeLensProvider.setConnectedContainer(`${treeItem.parent.label}/${treeItem.label}`);
+    }
+    await treeItem.refresh(context);
+
+    if (oldTreeItemId) {
+        // We have to use findTreeItem to get the instance of the old tree item that's being displayed in the ext.tree. Our specific instance might have been out-of-date
+        const oldTreeItem: AzureTreeItem | undefined = await ext.tree.findTreeItem(oldTreeItemId, context);
+        if (oldTreeItem) {
+            await oldTreeItem.refresh(context);
+        }
+    }
+}
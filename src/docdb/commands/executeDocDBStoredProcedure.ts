@@ -0,0 +1,86 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PartitionKeyDefinition, ResourceResponse } from '@azure/cosmos';
+import * as vscode from 'vscode';
+import { IActionContext, openReadOnlyContent } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+import { isHierarchicalPartitionKey } from '../partitionKeys';
+import { DocDBStoredProcedureTreeItem } from '../tree/DocDBStoredProcedureTreeItem';
+
+const scriptLogResultsHeader: string = 'x-ms-documentdb-script-log-results';
+
+export async function executeDocDBStoredProcedure(context: IActionContext, node?: DocDBStoredProcedureTreeItem): Promise<void> {
+    if (!node) {
+        node = <DocDBStoredProcedureTreeItem>await ext.tree.showTreeItemPicker(DocDBStoredProcedureTreeItem.contextValue, context);
+    }
+
+    const partitionKey: PartitionKeyDefinition | undefined = node.parent.parent.partitionKey;
+    let partitionKeyValue: {} | undefined;
+    if (partitionKey) {
+        // Hierarchical partition keys need a value for every level
+        const partitionKeyValues: {}[] = [];
+        for (const path of partitionKey.paths) {
+            const partitionKeyInput: string = await ext.ui.showInputBox({
+                prompt: localize('enterPartitionKeyValue', 'Enter the value of the partition key ("{0}") to execute the stored procedure in', path),
+                placeHolder: localize('partitionKeyValuePlaceholder', 'Strings are used as is, other JSON values (e.g. 42 or true) are parsed'),
+                ignoreFocusOut: true
+            });
+            partitionKeyValues.push(parsePartitionKeyValue(partitionKeyInput));
+        }
+        partitionKeyValue = isHierarchicalPartitionKey(partitionKey) ? partitionKeyValues : partitionKeyValues[0];
+    }
+
+    const parametersInput: string = await ext.ui.showInputBox({
+        prompt: localize('enterParameters', 'Enter the parameters of the stored procedure as a JSON array'),
+        value: '[]',
+        ignoreFocusOut: true,
+        validateInput: validateParameters
+    });
+    const parameters: unknown[] = <unknown[]>JSON.parse(parametersInput);
+    context.telemetry.measurements.parameterCount = parameters.length;
+
+    const response: ResourceResponse<unknown> = await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Window,
+            title: localize('executingStoredProcedure', 'Executing stored procedure "{0}"...', node.label)
+        },
+        async () => await (<DocDBStoredProcedureTreeItem>node).execute(partitionKeyValue, parameters)
+    );
+
+    const logs: string | undefined = <string | undefined>response.headers[scriptLogResultsHeader];
+    const result: {} = {
+        response: response.resource,
+        requestCharge: response.requestCharge,
+        activityId: response.activityId,
+        logs: logs ? decodeURIComponent(logs) : undefined
+    };
+
+    ext.outputChannel.appendLog(localize('executedStoredProcedure', 'Executed stored procedure "{0}". Request charge: {1} RUs. Activity id: {2}', node.label, response.requestCharge, response.activityId));
+    const label: string = `${node.label}-result`;
+    const fullId: string = `${node.fullId}/${label}`;
+    await openReadOnlyContent({ label, fullId }, JSON.stringify(result, null, 2), '.json', { viewColumn: vscode.ViewColumn.Beside });
+}
+
+function parsePartitionKeyValue(input: string): {} {
+    try {
+        return <{}>JSON.parse(input);
+    } catch (error) {
+        return input;
+    }
+}
+
+function validateParameters(input: string): string | undefined {
+    try {
+        const parameters: unknown = JSON.parse(input);
+        if (!Array.isArray(parameters)) {
+            return localize('parametersMustBeArray', 'The parameters must be a JSON array, e.g. ["value", 42]');
+        }
+    } catch (error) {
+        return localize('parametersMustBeJson', 'The parameters must be valid JSON.');
+    }
+    return undefined;
+}
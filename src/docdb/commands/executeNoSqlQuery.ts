@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { FeedResponse } from '@azure/cosmos';
+import * as vscode from 'vscode';
+import { IActionContext, openReadOnlyContent } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+import { loadPersistedNoSqlContainer } from '../registerDocDBCommands';
+import { DocDBCollectionTreeItem } from '../tree/DocDBCollectionTreeItem';
+
+export async function executeNoSqlQuery(context: IActionContext): Promise<void> {
+    await loadPersistedNoSqlContainer();
+
+    let treeItem: DocDBCollectionTreeItem;
+    if (ext.connectedNoSqlContainer) {
+        treeItem = ext.connectedNoSqlContainer;
+    } else {
+        treeItem = <DocDBCollectionTreeItem>await ext.tree.showTreeItemPicker(DocDBCollectionTreeItem.contextValue, context);
+    }
+
+    const activeEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+    if (!activeEditor?.document) {
+        throw new Error(localize('openQueryBeforeExecuting', 'Open a NoSQL query before executing.'));
+    }
+
+    // Run only the selected text if there is a selection, otherwise run the whole scrapbook
+    const selection: vscode.Selection = activeEditor.selection;
+    const query: string = (selection.isEmpty ? activeEditor.document.getText() : activeEditor.document.getText(selection)).trim();
+    if (!query) {
+        throw new Error(localize('emptyQuery', 'The query is empty.'));
+    }
+
+    const client = treeItem.root.getCosmosClient();
+    const response: FeedResponse<unknown> = await treeItem.getContainerClient(client).items.query<unknown>(query).fetchAll();
+    context.telemetry.measurements.resultCount = response.resources.length;
+
+    const label: string = 'Query-results';
+    const fullId: string = `${treeItem.fullId}/${label}`;
+    await openReadOnlyContent({ label, fullId }, JSON.stringify(response.resources, null, 2), '.json', { viewColumn: vscode.ViewColumn.Beside });
+
+    const message: string = localize('executedQuery', 'Query returned {0} document(s). Request charge: {1} RUs. Activity id: {2}', response.resources.length, response.requestCharge, response.activityId);
+    ext.outputChannel.appendLog(message);
+    void vscode.window.showInformationMessage(message);
+}
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CosmosClient } from '@azure/cosmos';
+import * as vscode from 'vscode';
+import { DialogResponses, IActionContext, IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { GraphCollectionTreeItem } from '../../graph/tree/GraphCollectionTreeItem';
+import { GraphDatabaseTreeItem } from '../../graph/tree/GraphDatabaseTreeItem';
+import { localize } from '../../utils/localize';
+import { getThroughputDescription, IThroughputOffer, IThroughputSettings, minAutoscaleMaxThroughput, minManualThroughput, promptForThroughputValue, readThroughputOffer, replaceThroughputOffer } from '../throughput';
+import { DocDBCollectionTreeItem } from '../tree/DocDBCollectionTreeItem';
+import { DocDBDatabaseTreeItem } from '../tree/DocDBDatabaseTreeItem';
+
+type ThroughputTreeItem = DocDBDatabaseTreeItem | GraphDatabaseTreeItem | DocDBCollectionTreeItem | GraphCollectionTreeItem;
+
+export async function scaleThroughput(context: IActionContext, node?: ThroughputTreeItem): Promise<void> {
+    if (!node) {
+        node = <ThroughputTreeItem>await ext.tree.showTreeItemPicker([DocDBDatabaseTreeItem.contextValue, GraphDatabaseTreeItem.contextValue, DocDBCollectionTreeItem.contextValue, GraphCollectionTreeItem.contextValue], context);
+    }
+
+    const isDatabase: boolean = node instanceof DocDBDatabaseTreeItem || node instanceof GraphDatabaseTreeItem;
+    context.telemetry.properties.isDatabase = String(isDatabase);
+
+    const client: CosmosClient = node.root.getCosmosClient();
+    const offer: IThroughputOffer | undefined = await readThroughputOffer(client, node.rid);
+    if (!offer) {
+        const message: string = isDatabase ?
+            localize('noDatabaseThroughput', 'Database "{0}" does not have shared throughput. Throughput is provisioned on each of its collections.', node.label) :
+            localize('sharedCollectionThroughput', 'Collection "{0}" uses the shared throughput of database "{1}".', node.label, node.parent.label);
+        void vscode.window.showInformationMessage(message);
+        return;
+    }
+
+    context.telemetry.properties.isAutoscale = String(offer.isAutoscale);
+    const currentDescription: string = getThroughputDescription(offer);
+    const minDescription: string = offer.minThroughput === undefined ? '' : localize('minThroughput', ' (minimum {0} RU/s)', offer.minThroughput);
+    const picks: IAzureQuickPickItem<boolean>[] = [
+        {
+            label: offer.isAutoscale ? localize('changeMaxThroughput', 'Change maximum RU/s') : localize('changeThroughput', 'Change RU/s'),
+            description: currentDescription + minDescription,
+            data: offer.isAutoscale
+        },
+        {
+            label: offer.isAutoscale ? localize('switchToManual', 'Switch to manual throughput') : localize('switchToAutoscale', 'Switch to autoscale throughput'),
+            data: !offer.isAutoscale
+        }
+    ];
+    const isAutoscale: boolean = (await ext.ui.showQuickPick(picks, {
+        placeHolder: localize('currentThroughput', 'Throughput of "{0}": {1}', node.label, currentDescription),
+        suppressPersistence: true
+    })).data;
+
+    // The minimum returned by the service only applies to the current throughput mode
+    let minThroughput: number = isAutoscale ? minAutoscaleMaxThroughput : minManualThroughput;
+    let defaultValue: number = minThroughput;
+    if (isAutoscale === offer.isAutoscale) {
+        minThroughput = offer.minThroughput ?? minThroughput;
+        defaultValue = offer.throughput;
+    }
+
+    const newSettings: IThroughputSettings = { throughput: await promptForThroughputValue(isAutoscale, minThroughput, defaultValue), isAutoscale };
+    const newDescription: string = getThroughputDescription(newSettings);
+    if (newDescription === currentDescription) {
+        void vscode.window.showInformationMessage(localize('throughputUnchanged', 'The throughput of "{0}" is unchanged.', node.label));
+        return;
+    }
+
+    const message: string = localize('confirmScale', 'Change the throughput of "{0}" from "{1}" to "{2}"? This affects the cost of your account.', node.label, currentDescription, newDescription);
+    await ext.ui.showWarningMessage(message, { modal: true }, { title: localize('scale', 'Scale') }, DialogResponses.cancel);
+
+    const newOffer: IThroughputOffer = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: localize('scalingThroughput', 'Scaling throughput of "{0}"...', node.label) }, async () => {
+        return await replaceThroughputOffer(client, offer, newSettings);
+    });
+
+    const resultMessage: string = localize('scaledThroughput', 'Throughput of "{0}" is now "{1}".', node.label, getThroughputDescription(newOffer));
+    ext.outputChannel.appendLog(resultMessage);
+    void vscode.window.showInformationMessage(resultMessage);
+}
@@ -3,15 +3,24 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { CosmosClient } from "@azure/cosmos";
+import { CosmosClient, CosmosClientOptions, PluginConfig } from "@azure/cosmos";
 import * as https from "https";
 import * as vscode from 'vscode';
 import { appendExtensionUserAgent } from "vscode-azureextensionui";
 import { ext } from "../extensionVariables";
+import { CosmosDiagnostics } from "./services/CosmosDiagnostics";
 
 export function getCosmosClient(endpoint: string, key: string, isEmulator: boolean | undefined): CosmosClient {
 
     const vscodeStrictSSL: boolean | undefined = vscode.workspace.getConfiguration().get<boolean>(ext.settingsKeys.vsCode.proxyStrictSSL);
-    return new CosmosClient({ endpoint, key, userAgentSuffix: appendExtensionUserAgent(), agent: new https.Agent({ rejectUnauthorized: isEmulator ? !isEmulator : vscodeStrictSSL }) });
+    // Plugins aren't part of the public typings of @azure/cosmos, but are supported by the client
+    const options: CosmosClientOptions & { plugins: PluginConfig[] } = {
+        endpoint,
+        key,
+        userAgentSuffix: appendExtensionUserAgent(),
+        agent: new https.Agent({ rejectUnauthorized: isEmulator ? !isEmulator : vscodeStrictSSL }),
+        plugins: [CosmosDiagnostics.plugin]
+    };
+    return new CosmosClient(options);
 
 }
@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PartitionKeyDefinition } from '@azure/cosmos';
+import { localize } from '../utils/localize';
+
+export const maxPartitionKeyPaths: number = 3;
+
+/**
+ * A partition key definition with multiple paths, also known as a hierarchical partition key.
+ * The version of @azure/cosmos we use doesn't have the "kind" property in its typings
+ */
+export interface IHierarchicalPartitionKeyDefinition extends PartitionKeyDefinition {
+    kind: 'MultiHash';
+    version: 2;
+}
+
+export function isHierarchicalPartitionKey(partitionKey: PartitionKeyDefinition | undefined): boolean {
+    return !!partitionKey && partitionKey.paths.length > 1;
+}
+
+/**
+ * Parses the comma-separated partition key paths entered when creating a collection
+ * @returns undefined if no paths were entered (i.e. a fixed size collection)
+ */
+export function parsePartitionKeyPaths(input: string): PartitionKeyDefinition | undefined {
+    const paths: string[] = splitPartitionKeyPaths(input).map(path => path[0] === '/' ? path : '/' + path);
+    if (paths.length === 0) {
+        return undefined;
+    } else if (paths.length === 1) {
+        return { paths };
+    } else {
+        const partitionKey: IHierarchicalPartitionKeyDefinition = { paths, kind: 'MultiHash', version: 2 };
+        return partitionKey;
+    }
+}
+
+export function validatePartitionKeyPaths(input: string): string | undefined {
+    const paths: string[] = splitPartitionKeyPaths(input);
+    if (paths.length > maxPartitionKeyPaths) {
+        return localize('tooManyPartitionKeyPaths', 'A hierarchical partition key can have at most {0} paths.', maxPartitionKeyPaths);
+    } else if (/[#?\\]/.test(input)) {
+        return localize('invalidPartitionKeyCharacters', 'Cannot contain these characters: ?,#,\\, etc.');
+    } else if (input.trim() && paths.length !== input.split(',').length) {
+        return localize('emptyPartitionKeyPath', 'Partition key paths cannot be empty.');
+    } else if (new Set(paths.map(path => path.replace(/^\//, ''))).size !== paths.length) {
+        return localize('duplicatePartitionKeyPath', 'Partition key paths must be unique.');
+    }
+    return undefined;
+}
+
+/**
+ * Returns the value at a partition key path (e.g. "/address/zipCode") of a document, or undefined if the document doesn't have it
+ */
+export function getPartitionKeyPathValue(document: Object, path: string): unknown {
+    let value: unknown = document;
+    for (const field of splitPath(path)) {
+        if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, field)) {
+            value = (<Object>value)[field];
+        } else {
+            return undefined;
+        }
+    }
+    return value;
+}
+
+/**
+ * Sets the value at a partition key path (e.g. "/address/zipCode") of a document, creating any nested objects along the way
+ */
+export function setPartitionKeyPathValue(document: Object, path: string, value: unknown): void {
+    const fields: string[] = splitPath(path);
+    let interim: Object = document;
+    for (const field of fields.slice(0, -1)) {
+        if (!interim[field] || typeof interim[field] !== 'object') {
+            interim[field] = {};
+        }
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        interim = interim[field];
+    }
+    interim[fields[fields.length - 1]] = value;
+}
+
+function splitPartitionKeyPaths(input: string): string[] {
+    return input.split(',').map(path => path.trim()).filter(path => !!path);
+}
+
+function splitPath(path: string): string[] {
+    const fields: string[] = path.split('/');
+    if (fields[0] === '') {
+        fields.shift();
+    }
+    return fields;
+}
@@ -3,20 +3,40 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { commands } from "vscode";
-import { IActionContext, ITreeItemPickerContext, registerCommand } from "vscode-azureextensionui";
-import { doubleClickDebounceDelay } from "../constants";
+import { commands, languages } from "vscode";
+import { callWithTelemetryAndErrorHandling, IActionContext, ITreeItemPickerContext, registerCommand } from "vscode-azureextensionui";
+import { connectedNoSqlContainerKey, doubleClickDebounceDelay, noSqlDefaultQuery, noSqlFileExtension, noSqlLanguageId } from "../constants";
 import { ext } from "../extensionVariables";
 import { AttachedAccountSuffix } from "../tree/AttachedAccountsTreeItem";
+import * as vscodeUtil from '../utils/vscodeUtils';
+import { connectNoSqlContainer } from "./commands/connectNoSqlContainer";
+import { executeDocDBStoredProcedure } from "./commands/executeDocDBStoredProcedure";
+import { executeNoSqlQuery } from "./commands/executeNoSqlQuery";
+import { scaleThroughput } from "./commands/scaleThroughput";
+import { CosmosDiagnostics } from "./services/CosmosDiagnostics";
+import { NoSqlCodeLensProvider } from "./services/NoSqlCodeLensProvider";
 import { DocDBAccountTreeItem } from "./tree/DocDBAccountTreeItem";
+import { DocDBCollectionSettingsTreeItem } from "./tree/DocDBCollectionSettingsTreeItem";
 import { DocDBCollectionTreeItem } from "./tree/DocDBCollectionTreeItem";
 import { DocDBDatabaseTreeItem } from "./tree/DocDBDatabaseTreeItem";
 import { DocDBDocumentsTreeItem } from "./tree/DocDBDocumentsTreeItem";
 import { DocDBDocumentTreeItem } from "./tree/DocDBDocumentTreeItem";
 import { DocDBStoredProceduresTreeItem } from "./tree/DocDBStoredProceduresTreeItem";
 import { DocDBStoredProcedureTreeItem } from "./tree/DocDBStoredProcedureTreeItem";
+import { DocDBTriggersTreeItem } from "./tree/DocDBTriggersTreeItem";
+import { DocDBTriggerTreeItem } from "./tree/DocDBTriggerTreeItem";
+import { DocDBUserDefinedFunctionsTreeItem } from "./tree/DocDBUserDefinedFunctionsTreeItem";
+import { DocDBUserDefinedFunctionTreeItem } from "./tree/DocDBUserDefinedFunctionTreeItem";
 
 export function registerDocDBCommands(): void {
+    ext.cosmosDiagnostics = new CosmosDiagnostics();
+    ext.context.subscriptions.push(ext.cosmosDiagnostics);
+
+    ext.noSqlCodeLensProvider = new NoSqlCodeLensProvider();
+    ext.context.subscriptions.push(languages.registerCodeLensProvider(noSqlLanguageId, ext.noSqlCodeLensProvider));
+
+    void loadPersistedNoSqlContainer();
+
     registerCommand('cosmosDB.createDocDBDatabase', async (context: IActionContext, node?: DocDBAccountTreeItem) => {
         if (!node) {
             node = <DocDBAccountTreeItem>await ext.tree.showTreeItemPicker([DocDBAccountTreeItem.contextValue, DocDBAccountTreeItem.contextValue + AttachedAccountSuffix], context);
@@ -38,6 +58,18 @@ export function registerDocDBCommands(): void {
         await commands.executeCommand("cosmosDB.openDocument", documentNode);
 
     });
+    registerCommand('cosmosDB.filterDocDBDocuments', async (context: IActionContext, node?: DocDBDocumentsTreeItem) => {
+        if (!node) {
+            node = <DocDBDocumentsTreeItem>await ext.tree.showTreeItemPicker(DocDBDocumentsTreeItem.contextValue, context);
+        }
+        await node.editFilter(context);
+    });
+    registerCommand('cosmosDB.openDocDBDocuments', async (context: IActionContext, node?: DocDBDocumentsTreeItem) => {
+        if (!node) {
+            node = <DocDBDocumentsTreeItem>await ext.tree.showTreeItemPicker(DocDBDocumentsTreeItem.contextValue, context);
+        }
+        await ext.fileSystem.showTextDocument(node);
+    });
     registerCommand('cosmosDB.createDocDBStoredProcedure', async (context: IActionContext, node?: DocDBStoredProceduresTreeItem) => {
         if (!node) {
             node = <DocDBStoredProceduresTreeItem>await ext.tree.showTreeItemPicker(DocDBStoredProceduresTreeItem.contextValue, context);
@@ -68,6 +100,7 @@ export function registerDocDBCommands(): void {
         }
         await ext.fileSystem.showTextDocument(node);
     }, doubleClickDebounceDelay);
+    registerCommand('cosmosDB.executeDocDBStoredProcedure', executeDocDBStoredProcedure);
     registerCommand('cosmosDB.deleteDocDBDocument', async (context: IActionContext, node?: DocDBDocumentTreeItem) => {
         const suppressCreateContext: ITreeItemPickerContext = context;
         suppressCreateContext.suppressCreatePick = true;
@@ -84,4 +117,86 @@ export function registerDocDBCommands(): void {
         }
         await node.deleteTreeItem(context);
     });
+    registerCommand('cosmosDB.createDocDBTrigger', async (context: IActionContext, node?: DocDBTriggersTreeItem) => {
+        if (!node) {
+            node = <DocDBTriggersTreeItem>await ext.tree.showTreeItemPicker(DocDBTriggersTreeItem.contextValue, context);
+        }
+        const childNode = await node.createChild(context);
+        await commands.executeCommand("cosmosDB.openTrigger", childNode);
+    });
+    registerCommand('cosmosDB.openTrigger', async (context: IActionContext, node?: DocDBTriggerTreeItem) => {
+        if (!node) {
+            node = <DocDBTriggerTreeItem>await ext.tree.showTreeItemPicker([DocDBTriggerTreeItem.contextValue], context);
+        }
+        await ext.fileSystem.showTextDocument(node);
+    }, doubleClickDebounceDelay);
+    registerCommand('cosmosDB.editDocDBTriggerSettings', async (context: IActionContext, node?: DocDBTriggerTreeItem) => {
+        if (!node) {
+            node = <DocDBTriggerTreeItem>await ext.tree.showTreeItemPicker(DocDBTriggerTreeItem.contextValue, context);
+        }
+        await node.editSettings(context);
+    });
+    registerCommand('cosmosDB.deleteDocDBTrigger', async (context: IActionContext, node?: DocDBTriggerTreeItem) => {
+        const suppressCreateContext: ITreeItemPickerContext = context;
+        suppressCreateContext.suppressCreatePick = true;
+        if (!node) {
+            node = <DocDBTriggerTreeItem>await ext.tree.showTreeItemPicker(DocDBTriggerTreeItem.contextValue, context);
+        }
+        await node.deleteTreeItem(context);
+    });
+    registerCommand('cosmosDB.createDocDBUserDefinedFunction', async (context: IActionContext, node?: DocDBUserDefinedFunctionsTreeItem) => {
+        if (!node) {
+            node = <DocDBUserDefinedFunctionsTreeItem>await ext.tree.showTreeItemPicker(DocDBUserDefinedFunctionsTreeItem.contextValue, context);
+        }
+        const childNode = await node.createChild(context);
+        await commands.executeCommand("cosmosDB.openUserDefinedFunction", childNode);
+    });
+    registerCommand('cosmosDB.openUserDefinedFunction', async (context: IActionContext, node?: DocDBUserDefinedFunctionTreeItem) => {
+        if (!node) {
+            node = <DocDBUserDefinedFunctionTreeItem>await ext.tree.showTreeItemPicker([DocDBUserDefinedFunctionTreeItem.contextValue], context);
+        }
+        await ext.fileSystem.showTextDocument(node);
+    }, doubleClickDebounceDelay);
+    registerCommand('cosmosDB.deleteDocDBUserDefinedFunction', async (context: IActionContext, node?: DocDBUserDefinedFunctionTreeItem) => {
+        const suppressCreateContext: ITreeItemPickerContext = context;
+        suppressCreateContext.suppressCreatePick = true;
+        if (!node) {
+            node = <DocDBUserDefinedFunctionTreeItem>await ext.tree.showTreeItemPicker(DocDBUserDefinedFunctionTreeItem.contextValue, context);
+        }
+        await node.deleteTreeItem(context);
+    });
+    registerCommand('cosmosDB.openDocDBCollectionSettings', async (context: IActionContext, node?: DocDBCollectionSettingsTreeItem) => {
+        if (!node) {
+            node = <DocDBCollectionSettingsTreeItem>await ext.tree.showTreeItemPicker(DocDBCollectionSettingsTreeItem.contextValue, context);
+        }
+        await ext.fileSystem.showTextDocument(node);
+    }, doubleClickDebounceDelay);
+    registerCommand('cosmosDB.scaleThroughput', scaleThroughput);
+    registerCommand('cosmosDB.showRequestChargeSummary', async () => await ext.cosmosDiagnostics?.showSummary());
+    registerCommand('cosmosDB.newNoSqlScrapbook', async () => await vscodeUtil.showNewFile(noSqlDefaultQuery, 'Scrapbook', noSqlFileExtension));
+    registerCommand('cosmosDB.connectNoSqlContainer', connectNoSqlContainer);
+    registerCommand('cosmosDB.executeNoSqlQuery', executeNoSqlQuery);
+}
+
+export async function loadPersistedNoSqlContainer(): Promise<void> {
+    // NOTE: We want to make sure this function never throws or returns a rejected promise because it gets awaited multiple times
+    await callWithTelemetryAndErrorHandling('cosmosDB.loadPersistedNoSqlContainer', async (context: IActionContext) => {
+        context.errorHandling.suppressDisplay = true;
+        context.telemetry.properties.isActivationEvent = 'true';
+
+        try {
+            const persistedTreeItemId: string | undefined = ext.context.globalState.get(connectedNoSqlContainerKey);
+            if (persistedTreeItemId) {
+                const persistedTreeItem: DocDBCollectionTreeItem | undefined = <DocDBCollectionTreeItem>await ext.tree.findTreeItem(persistedTreeItemId, context);
+                if (persistedTreeItem) {
+                    await connectNoSqlContainer(context, persistedTreeItem);
+                }
+            }
+        } finally {
+            // Get code lens provider out of initializing state if there's no connected collection
+            if (!ext.connectedNoSqlContainer && ext.noSqlCodeLensProvider) {
+                ext.noSqlCodeLensProvider.setConnectedContainer(undefined);
+            }
+        }
+    });
 }
@@ -0,0 +1,156 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CosmosHeaders, ErrorResponse, Next, PluginConfig, RequestContext, Response } from '@azure/cosmos';
+import * as vscode from 'vscode';
+import { openReadOnlyContent } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+
+const requestChargeHeader: string = 'x-ms-request-charge';
+const activityIdHeader: string = 'x-ms-activity-id';
+
+interface ICosmosOperation {
+    operation: string;
+    path: string;
+    statusCode: number | undefined;
+    requestCharge: number;
+    durationMs: number;
+    activityId: string | undefined;
+}
+
+interface IOperationSummary {
+    count: number;
+    failedCount: number;
+    requestCharge: number;
+    durationMs: number;
+}
+
+/**
+ * Records the request charge, latency, status code and activity id of every Cosmos DB (SQL API) operation made by the extension.
+ * Operations are logged to a dedicated output channel and the charge of the last one is shown in the status bar
+ */
+export class CosmosDiagnostics implements vscode.Disposable {
+    /**
+     * A plugin for the CosmosClient that records every operation, including failed ones
+     */
+    public static readonly plugin: PluginConfig = {
+        on: 'operation',
+        plugin: async <T>(context: RequestContext, next: Next<T>): Promise<Response<T>> => {
+            const start: number = Date.now();
+            try {
+                const response: Response<T> = await next(context);
+                ext.cosmosDiagnostics?.record(context, response.code, response.headers, Date.now() - start);
+                return response;
+            } catch (error) {
+                const errorResponse: ErrorResponse = <ErrorResponse>error;
+                ext.cosmosDiagnostics?.record(context, errorResponse.code, errorResponse.headers, Date.now() - start);
+                throw error;
+            }
+        }
+    };
+
+    private readonly _outputChannel: vscode.OutputChannel;
+    private readonly _statusBarItem: vscode.StatusBarItem;
+    private readonly _summaries: Map<string, IOperationSummary> = new Map<string, IOperationSummary>();
+    private readonly _sessionStart: Date = new Date();
+
+    constructor() {
+        this._outputChannel = vscode.window.createOutputChannel(localize('cosmosDiagnostics', 'Azure Databases: Cosmos DB Request Charges'));
+        this._statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+        this._statusBarItem.command = 'cosmosDB.showRequestChargeSummary';
+    }
+
+    public record(context: RequestContext, statusCode: number | undefined, headers: CosmosHeaders | undefined, durationMs: number): void {
+        const operation: ICosmosOperation = {
+            operation: `${context.operationType || 'unknown'} ${context.resourceType || ''}`.trim(),
+            path: context.path || '',
+            statusCode,
+            requestCharge: Number(headers?.[requestChargeHeader]) || 0,
+            durationMs,
+            activityId: <string | undefined>headers?.[activityIdHeader]
+        };
+
+        const summary: IOperationSummary = this._summaries.get(operation.operation) || { count: 0, failedCount: 0, requestCharge: 0, durationMs: 0 };
+        summary.count += 1;
+        summary.failedCount += isFailure(statusCode) ? 1 : 0;
+        summary.requestCharge += operation.requestCharge;
+        summary.durationMs += durationMs;
+        this._summaries.set(operation.operation, summary);
+
+        this._outputChannel.appendLine(`${new Date().toLocaleTimeString()} ${formatOperation(operation)}`);
+        this._statusBarItem.text = `$(pulse) ${formatCharge(operation.requestCharge)} RUs`;
+        this._statusBarItem.tooltip = localize('lastOperationTooltip', 'Last Cosmos DB operation: {0}\nClick to show the request charges of this session', formatOperation(operation));
+        this._statusBarItem.show();
+    }
+
+    public async showSummary(): Promise<void> {
+        const lines: string[] = [
+            localize('sessionSummaryTitle', 'Cosmos DB request charges since {0}', this._sessionStart.toLocaleString()),
+            ''
+        ];
+
+        if (this._summaries.size === 0) {
+            lines.push(localize('noOperations', 'No Cosmos DB operations have been made yet.'));
+        } else {
+            const header: string[] = [localize('operation', 'Operation'), localize('count', 'Count'), localize('failed', 'Failed'), localize('totalRUs', 'Total RUs'), localize('averageRUs', 'Avg RUs'), localize('averageMs', 'Avg ms')];
+            const rows: string[][] = [header];
+            const total: IOperationSummary = { count: 0, failedCount: 0, requestCharge: 0, durationMs: 0 };
+            const sortedSummaries: [string, IOperationSummary][] = Array.from(this._summaries.entries()).sort((a, b) => b[1].requestCharge - a[1].requestCharge);
+            for (const [operation, summary] of sortedSummaries) {
+                rows.push(formatSummaryRow(operation, summary));
+                total.count += summary.count;
+                total.failedCount += summary.failedCount;
+                total.requestCharge += summary.requestCharge;
+                total.durationMs += summary.durationMs;
+            }
+            rows.push(formatSummaryRow(localize('total', 'Total'), total));
+
+            const widths: number[] = header.map((_value, i) => Math.max(...rows.map(row => row[i].length)));
+            for (const row of rows) {
+                lines.push(row.map((value, i) => i === 0 ? value.padEnd(widths[i]) : value.padStart(widths[i])).join('  '));
+            }
+        }
+
+        await openReadOnlyContent({ label: 'Cosmos-DB-request-charges', fullId: 'cosmosDB/requestCharges' }, lines.join('\n'), '.txt');
+    }
+
+    public dispose(): void {
+        this._outputChannel.dispose();
+        this._statusBarItem.dispose();
+    }
+}
+
+function isFailure(statusCode: number | undefined): boolean {
+    return statusCode === undefined || statusCode >= 400;
+}
+
+function formatCharge(requestCharge: number): string {
+    return requestCharge.toFixed(2);
+}
+
+function formatOperation(operation: ICosmosOperation): string {
+    return localize(
+        'operationDetails',
+        '{0} "{1}": status {2}, {3} RUs, {4} ms, activity id {5}',
+        operation.operation,
+        operation.path,
+        operation.statusCode === undefined ? localize('unknownStatus', 'unknown') : operation.statusCode,
+        formatCharge(operation.requestCharge),
+        operation.durationMs,
+        operation.activityId || localize('unknownActivityId', 'unknown')
+    );
+}
+
+function formatSummaryRow(operation: string, summary: IOperationSummary): string[] {
+    return [
+        operation,
+        String(summary.count),
+        String(summary.failedCount),
+        formatCharge(summary.requestCharge),
+        formatCharge(summary.requestCharge / summary.count),
+        String(Math.round(summary.durationMs / summary.count))
+    ];
+}
@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CodeLens, CodeLensProvider, Event, EventEmitter, Position, ProviderResult, Range } from "vscode";
+import { callWithTelemetryAndErrorHandling, IActionContext } from "vscode-azureextensionui";
+import { localize } from "../../utils/localize";
+
+export class NoSqlCodeLensProvider implements CodeLensProvider {
+    private _onDidChangeEmitter: EventEmitter<void> = new EventEmitter<void>();
+    private _connectedContainer: string | undefined;
+    private _connectedContainerInitialized: boolean;
+
+    public get onDidChangeCodeLenses(): Event<void> {
+        return this._onDidChangeEmitter.event;
+    }
+
+    public setConnectedContainer(container: string | undefined): void {
+        this._connectedContainer = container;
+        this._connectedContainerInitialized = true;
+        this._onDidChangeEmitter.fire();
+    }
+
+    public provideCodeLenses(): ProviderResult<CodeLens[]> {
+        return callWithTelemetryAndErrorHandling("nosql.provideCodeLenses", (context: IActionContext) => {
+            // Suppress except for errors - this can fire on every keystroke
+            context.telemetry.suppressIfSuccessful = true;
+
+            const isInitialized = this._connectedContainerInitialized;
+            const isConnected = !!this._connectedContainer;
+            const container = isConnected && this._connectedContainer;
+            const lenses: CodeLens[] = [];
+
+            let title: string;
+            if (!isInitialized) {
+                title = localize('initializing', 'Initializing...');
+            } else if (isConnected) {
+                title = localize('connectedToContainer', 'Connected to "{0}"', container);
+            } else {
+                title = localize('connectToContainer', 'Connect to a collection');
+            }
+
+            // Allow displaying and changing connected collection
+            lenses.push(<CodeLens>{
+                command: {
+                    title,
+                    command: isInitialized && 'cosmosDB.connectNoSqlContainer'
+                },
+                range: new Range(new Position(0, 0), new Position(0, 0))
+            });
+
+            if (isConnected) {
+                lenses.push(<CodeLens>{
+                    command: {
+                        title: localize('executeQuery', 'Execute Query'),
+                        command: 'cosmosDB.executeNoSqlQuery'
+                    },
+                    range: new Range(new Position(0, 0), new Position(0, 0))
+                });
+            }
+
+            return lenses;
+        });
+    }
+}
@@ -0,0 +1,173 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CosmosClient, OfferDefinition, OfferResponse, RequestOptions, Resource } from '@azure/cosmos';
+import { IAzureQuickPickItem } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+import { localize } from '../utils/localize';
+
+// The version of @azure/cosmos we use doesn't know about autoscale, so these headers and offer properties are set by hand
+const autoscaleSettingsHeader: string = 'x-ms-cosmos-offer-autopilot-settings';
+const migrateToAutoscaleHeader: string = 'x-ms-cosmos-migrate-offer-to-autopilot';
+const migrateToManualHeader: string = 'x-ms-cosmos-migrate-offer-to-manual-throughput';
+const minThroughputHeader: string = 'x-ms-cosmos-min-throughput';
+
+export const minManualThroughput: number = 400;
+export const minAutoscaleMaxThroughput: number = 1000;
+
+export interface IThroughputSettings {
+    /**
+     * The RU/s for manual throughput, or the maximum RU/s for autoscale throughput
+     */
+    throughput: number;
+    isAutoscale: boolean;
+}
+
+export interface IThroughputOffer extends IThroughputSettings {
+    offer: OfferDefinition & Resource;
+
+    /**
+     * The minimum RU/s allowed by the service for this offer, if it was returned
+     */
+    minThroughput: number | undefined;
+}
+
+interface IOfferContent {
+    offerThroughput?: number;
+    offerAutopilotSettings?: { maxThroughput: number };
+}
+
+/**
+ * Reads the throughput offer of a database or collection, or undefined if it doesn't have dedicated throughput
+ * @param resourceId The "_rid" of the database or collection
+ */
+export async function readThroughputOffer(client: CosmosClient, resourceId: string): Promise<IThroughputOffer | undefined> {
+    const offers: (OfferDefinition & Resource)[] = (await client.offers.query<OfferDefinition & Resource>({
+        query: 'SELECT * FROM root r WHERE r.offerResourceId = @resourceId',
+        parameters: [{ name: '@resourceId', value: resourceId }]
+    }).fetchAll()).resources;
+
+    if (offers.length === 0) {
+        return undefined;
+    }
+
+    return await readOffer(client, offers[0].id);
+}
+
+/**
+ * Replaces the throughput of an offer, switching between manual and autoscale first if needed
+ */
+export async function replaceThroughputOffer(client: CosmosClient, offer: IThroughputOffer, settings: IThroughputSettings): Promise<IThroughputOffer> {
+    if (offer.isAutoscale !== settings.isAutoscale) {
+        // The service picks the new throughput when migrating, so the requested value is applied in a second replace below
+        const initialHeaders = { [settings.isAutoscale ? migrateToAutoscaleHeader : migrateToManualHeader]: 'true' };
+        await client.offer(offer.offer.id).replace(offer.offer, { initialHeaders });
+        offer = await readOffer(client, offer.offer.id);
+    }
+
+    if (offer.throughput !== settings.throughput) {
+        const content: IOfferContent = settings.isAutoscale ?
+            { offerAutopilotSettings: { maxThroughput: settings.throughput } } :
+            { offerThroughput: settings.throughput };
+        await client.offer(offer.offer.id).replace(<OfferDefinition><unknown>{ ...offer.offer, content });
+        offer = await readOffer(client, offer.offer.id);
+    }
+
+    return offer;
+}
+
+/**
+ * Returns the request options used to provision throughput when creating a database or collection
+ */
+export function getThroughputRequestOptions(settings: IThroughputSettings | undefined): RequestOptions {
+    if (!settings) {
+        return {};
+    } else if (settings.isAutoscale) {
+        return { initialHeaders: { [autoscaleSettingsHeader]: JSON.stringify({ maxThroughput: settings.throughput }) } };
+    } else {
+        return { offerThroughput: settings.throughput };
+    }
+}
+
+/**
+ * Prompts for manual or autoscale throughput
+ * @param noThroughputLabel If specified, adds a pick with this label that doesn't provision any throughput (returned as undefined)
+ */
+export async function promptForThroughput(resourceLabel: string, noThroughputLabel?: string, allowAutoscale: boolean = true): Promise<IThroughputSettings | undefined> {
+    const picks: IAzureQuickPickItem<boolean | undefined>[] = [
+        { label: localize('manualThroughput', 'Manual'), description: localize('manualThroughputDescription', 'A fixed number of RU/s'), data: false }
+    ];
+    if (allowAutoscale) {
+        picks.push({ label: localize('autoscaleThroughput', 'Autoscale'), description: localize('autoscaleThroughputDescription', 'Scales between 10% and 100% of a maximum RU/s'), data: true });
+    }
+    if (noThroughputLabel) {
+        picks.unshift({ label: noThroughputLabel, data: undefined });
+    }
+
+    const isAutoscale: boolean | undefined = picks.length === 1 ? false : (await ext.ui.showQuickPick(picks, {
+        placeHolder: localize('selectThroughputMode', 'Select throughput for {0}', resourceLabel),
+        ignoreFocusOut: true
+    })).data;
+
+    if (isAutoscale === undefined) {
+        return undefined;
+    }
+
+    const minThroughput: number = isAutoscale ? minAutoscaleMaxThroughput : minManualThroughput;
+    const throughput: number = await promptForThroughputValue(isAutoscale, minThroughput, minThroughput);
+    return { throughput, isAutoscale };
+}
+
+/**
+ * Prompts for the RU/s (or maximum RU/s for autoscale)
+ */
+export async function promptForThroughputValue(isAutoscale: boolean, minThroughput: number, defaultValue: number): Promise<number> {
+    const prompt: string = isAutoscale ?
+        localize('enterAutoscaleThroughput', 'Enter the maximum RU/s for autoscale, a multiple of 1000 and at least {0}', minThroughput) :
+        localize('enterManualThroughput', 'Enter the RU/s, a multiple of 100 and at least {0}', minThroughput);
+
+    return Number(await ext.ui.showInputBox({
+        prompt,
+        value: defaultValue.toString(),
+        ignoreFocusOut: true,
+        validateInput: (value: string) => validateThroughput(value, isAutoscale, minThroughput)
+    }));
+}
+
+export function getThroughputDescription(settings: IThroughputSettings): string {
+    return settings.isAutoscale ?
+        localize('autoscaleThroughputSummary', 'Autoscale, {0} - {1} RU/s', settings.throughput / 10, settings.throughput) :
+        localize('manualThroughputSummary', 'Manual, {0} RU/s', settings.throughput);
+}
+
+async function readOffer(client: CosmosClient, offerId: string): Promise<IThroughputOffer> {
+    const response: OfferResponse = await client.offer(offerId).read();
+    const offer: OfferDefinition & Resource | undefined = response.resource;
+    if (!offer) {
+        throw new Error(localize('offerNotFound', 'Could not read throughput offer "{0}".', offerId));
+    }
+
+    const content: IOfferContent = <IOfferContent>offer.content || {};
+    const minThroughput: number = Number(response.headers[minThroughputHeader]);
+    return {
+        offer,
+        isAutoscale: !!content.offerAutopilotSettings,
+        throughput: content.offerAutopilotSettings ? content.offerAutopilotSettings.maxThroughput : content.offerThroughput || 0,
+        minThroughput: Number.isNaN(minThroughput) || minThroughput <= 0 ? undefined : minThroughput
+    };
+}
+
+function validateThroughput(value: string, isAutoscale: boolean, minThroughput: number): string | undefined {
+    const throughput: number = Number(value);
+    const increment: number = isAutoscale ? 1000 : 100;
+    if (!value || !Number.isInteger(throughput)) {
+        return localize('throughputNotNumber', 'Throughput must be a whole number.');
+    } else if (throughput < minThroughput) {
+        return localize('throughputTooLow', 'Throughput must be at least {0} RU/s.', minThroughput);
+    } else if (throughput % increment !== 0) {
+        return localize('throughputIncrement', 'Throughput must be a multiple of {0}.', increment);
+    }
+    return undefined;
+}
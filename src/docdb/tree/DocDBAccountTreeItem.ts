@@ -6,11 +6,16 @@
 import { DatabaseDefinition, Resource } from '@azure/cosmos';
 import { DocDBAccountTreeItemBase } from './DocDBAccountTreeItemBase';
 import { DocDBCollectionTreeItem } from './DocDBCollectionTreeItem';
+import { DocDBCollectionSettingsTreeItem } from './DocDBCollectionSettingsTreeItem';
 import { DocDBDatabaseTreeItem } from './DocDBDatabaseTreeItem';
 import { DocDBDocumentsTreeItem } from './DocDBDocumentsTreeItem';
 import { DocDBDocumentTreeItem } from './DocDBDocumentTreeItem';
 import { DocDBStoredProceduresTreeItem } from './DocDBStoredProceduresTreeItem';
 import { DocDBStoredProcedureTreeItem } from './DocDBStoredProcedureTreeItem';
+import { DocDBTriggersTreeItem } from './DocDBTriggersTreeItem';
+import { DocDBTriggerTreeItem } from './DocDBTriggerTreeItem';
+import { DocDBUserDefinedFunctionsTreeItem } from './DocDBUserDefinedFunctionsTreeItem';
+import { DocDBUserDefinedFunctionTreeItem } from './DocDBUserDefinedFunctionTreeItem';
 
 export class DocDBAccountTreeItem extends DocDBAccountTreeItemBase {
     public static contextValue: string = "cosmosDBDocumentServer";
@@ -28,6 +33,11 @@ export class DocDBAccountTreeItem extends DocDBAccountTreeItemBase {
             case DocDBStoredProcedureTreeItem.contextValue:
             case DocDBDocumentsTreeItem.contextValue:
             case DocDBStoredProceduresTreeItem.contextValue:
+            case DocDBTriggersTreeItem.contextValue:
+            case DocDBTriggerTreeItem.contextValue:
+            case DocDBUserDefinedFunctionsTreeItem.contextValue:
+            case DocDBUserDefinedFunctionTreeItem.contextValue:
+            case DocDBCollectionSettingsTreeItem.contextValue:
                 return true;
             default:
                 return false;
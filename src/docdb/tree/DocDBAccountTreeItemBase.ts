@@ -10,9 +10,11 @@ import { AzExtTreeItem, AzureParentTreeItem, AzureTreeItem, ICreateChildImplCont
 import { deleteCosmosDBAccount } from '../../commands/deleteCosmosDBAccount';
 import { getThemeAgnosticIconPath } from '../../constants';
 import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
 import { nonNullProp } from '../../utils/nonNull';
 import { rejectOnTimeout } from '../../utils/timeout';
 import { getCosmosClient } from '../getCosmosClient';
+import { getThroughputRequestOptions, IThroughputSettings, promptForThroughput } from '../throughput';
 import { DocDBTreeItemBase } from './DocDBTreeItemBase';
 import { IDocDBTreeRoot } from './IDocDBTreeRoot';
 
@@ -64,9 +66,14 @@ export abstract class DocDBAccountTreeItemBase extends DocDBTreeItemBase<Databas
         });
 
         if (databaseName) {
+            const throughput: IThroughputSettings | undefined = await promptForThroughput(
+                localize('sharedThroughputFor', 'the database, shared by its collections'),
+                localize('noSharedThroughput', 'No shared throughput (provision throughput on each collection)')
+            );
+
             context.showCreatingTreeItem(databaseName);
             const client = this.root.getCosmosClient();
-            const database: DatabaseResponse = await client.databases.create({ id: databaseName });
+            const database: DatabaseResponse = await client.databases.create({ id: databaseName }, getThroughputRequestOptions(throughput));
             return this.initChild(nonNullProp(database, 'resource'));
         }
 
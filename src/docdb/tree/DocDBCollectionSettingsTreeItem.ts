@@ -0,0 +1,173 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ContainerDefinition, IndexingPolicy } from '@azure/cosmos';
+import * as vscode from 'vscode';
+import { AzureTreeItem, IActionContext, TreeItemIconPath } from 'vscode-azureextensionui';
+import { IEditableTreeItem } from '../../DatabasesFileSystem';
+import { ext } from '../../extensionVariables';
+import { compareDocuments, IComparedDocument, IDocumentChanges } from '../../utils/documentChanges';
+import { localize } from '../../utils/localize';
+import { nonNullProp } from '../../utils/nonNull';
+import { DocDBCollectionTreeItem } from './DocDBCollectionTreeItem';
+import { IDocDBTreeRoot } from './IDocDBTreeRoot';
+
+/**
+ * The parts of a container definition that are shown in the settings file
+ */
+interface ICollectionSettings {
+    indexingPolicy?: IndexingPolicy;
+    defaultTtl?: number;
+    uniqueKeyPolicy?: ContainerDefinition['uniqueKeyPolicy'];
+    conflictResolutionPolicy?: ContainerDefinition['conflictResolutionPolicy'];
+}
+
+const settingsKeys: (keyof ICollectionSettings)[] = ['indexingPolicy', 'defaultTtl', 'uniqueKeyPolicy', 'conflictResolutionPolicy'];
+const immutableSettingsKeys: (keyof ICollectionSettings)[] = ['uniqueKeyPolicy', 'conflictResolutionPolicy'];
+const indexingModes: string[] = ['consistent', 'lazy', 'none'];
+
+/**
+ * Represents the editable settings (indexing policy, TTL, etc.) of a DocumentDB collection
+ */
+export class DocDBCollectionSettingsTreeItem extends AzureTreeItem<IDocDBTreeRoot> implements IEditableTreeItem {
+    public static contextValue: string = "cosmosDBCollectionSettings";
+    public readonly contextValue: string = DocDBCollectionSettingsTreeItem.contextValue;
+    public readonly commandId: string = 'cosmosDB.openDocDBCollectionSettings';
+    public readonly cTime: number = Date.now();
+    // Updating the indexing policy may start a reindex that consumes request units
+    public readonly isSavePreviewRequired: boolean = true;
+    public readonly parent: DocDBCollectionTreeItem;
+    public mTime: number = Date.now();
+
+    constructor(parent: DocDBCollectionTreeItem) {
+        super(parent);
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public get id(): string {
+        return '$Settings';
+    }
+
+    public get label(): string {
+        return localize('settings', 'Settings');
+    }
+
+    public get filePath(): string {
+        return this.parent.label + '-cosmos-settings.json';
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('settings-gear');
+    }
+
+    public async refreshImpl(): Promise<void> {
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public async getFileContent(): Promise<string> {
+        return JSON.stringify(getSettings(await this.readContainer()), null, 2);
+    }
+
+    public async getDocumentChanges(_context: IActionContext, content: string): Promise<IDocumentChanges> {
+        const { oldSettings, newSettings } = await this.readSettingsChanges(content);
+        const changes: IDocumentChanges = compareDocuments([this.toComparedDocument(oldSettings)], [this.toComparedDocument(newSettings)]);
+        changes.confirmation = localize('replaceSettings', 'Review the changes to the settings of collection "{0}". Updating the indexing policy may start a reindex that consumes request units. Update the collection?', this.parent.label);
+        return changes;
+    }
+
+    public async writeFileContent(_context: IActionContext, content: string): Promise<void> {
+        const { container, newSettings } = await this.readSettingsChanges(content);
+        const newContainer: ContainerDefinition = { ...container, indexingPolicy: newSettings.indexingPolicy, defaultTtl: newSettings.defaultTtl };
+        if (newSettings.defaultTtl === undefined) {
+            delete newContainer.defaultTtl;
+        }
+
+        const client = this.root.getCosmosClient();
+        await this.parent.getContainerClient(client).replace(newContainer);
+        ext.outputChannel.appendLog(localize('updatedSettings', 'Updated the settings of collection "{0}".', this.parent.label));
+    }
+
+    /**
+     * Reads the current settings of the collection, and parses the edited settings. Throws if a setting that can't be changed was changed
+     */
+    private async readSettingsChanges(content: string): Promise<{ container: ContainerDefinition; oldSettings: ICollectionSettings; newSettings: ICollectionSettings }> {
+        const newSettings: ICollectionSettings = parseSettings(content);
+        const container: ContainerDefinition = await this.readContainer();
+        const oldSettings: ICollectionSettings = getSettings(container);
+        for (const key of immutableSettingsKeys) {
+            if (JSON.stringify(newSettings[key]) !== JSON.stringify(oldSettings[key])) {
+                throw new Error(localize('immutableSetting', '"{0}" cannot be changed after a collection is created.', key));
+            }
+        }
+        return { container, oldSettings, newSettings };
+    }
+
+    private toComparedDocument(settings: ICollectionSettings): IComparedDocument {
+        // Round trip through JSON so that the settings compare as they are shown in the file
+        return { key: this.id, label: this.label, document: <{}>JSON.parse(JSON.stringify(settings)) };
+    }
+
+    private async readContainer(): Promise<ContainerDefinition> {
+        const client = this.root.getCosmosClient();
+        return nonNullProp(await this.parent.getContainerClient(client).read(), 'resource');
+    }
+}
+
+function getSettings(container: ContainerDefinition): ICollectionSettings {
+    return {
+        indexingPolicy: container.indexingPolicy,
+        defaultTtl: container.defaultTtl,
+        uniqueKeyPolicy: container.uniqueKeyPolicy,
+        conflictResolutionPolicy: container.conflictResolutionPolicy
+    };
+}
+
+function parseSettings(content: string): ICollectionSettings {
+    let settings: ICollectionSettings;
+    try {
+        settings = <ICollectionSettings>JSON.parse(content);
+    } catch (error) {
+        throw new Error(localize('invalidSettingsJson', 'The settings must be valid JSON: {0}', (<Error>error).message));
+    }
+
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+        throw new Error(localize('settingsNotObject', 'The settings must be a JSON object.'));
+    }
+
+    for (const key of Object.keys(settings)) {
+        if (!settingsKeys.includes(<keyof ICollectionSettings>key)) {
+            throw new Error(localize('unknownSetting', 'Unknown setting "{0}". Allowed settings are: {1}', key, settingsKeys.join(', ')));
+        }
+    }
+
+    const defaultTtl: number | undefined = settings.defaultTtl;
+    if (defaultTtl !== undefined && defaultTtl !== -1 && !(Number.isInteger(defaultTtl) && defaultTtl > 0)) {
+        throw new Error(localize('invalidTtl', '"defaultTtl" must be -1 (no default expiry) or a positive number of seconds. Remove it to turn off time to live.'));
+    }
+
+    const indexingPolicy: IndexingPolicy | undefined = settings.indexingPolicy;
+    if (indexingPolicy !== undefined) {
+        if (!indexingPolicy || typeof indexingPolicy !== 'object' || Array.isArray(indexingPolicy)) {
+            throw new Error(localize('indexingPolicyNotObject', '"indexingPolicy" must be a JSON object.'));
+        }
+
+        if (indexingPolicy.indexingMode !== undefined && !indexingModes.includes(indexingPolicy.indexingMode)) {
+            throw new Error(localize('invalidIndexingMode', '"indexingPolicy.indexingMode" must be one of: {0}', indexingModes.join(', ')));
+        }
+
+        for (const pathsKey of <(keyof IndexingPolicy)[]>['includedPaths', 'excludedPaths', 'spatialIndexes', 'compositeIndexes']) {
+            if (indexingPolicy[pathsKey] !== undefined && !Array.isArray(indexingPolicy[pathsKey])) {
+                throw new Error(localize('indexingPathsNotArray', '"indexingPolicy.{0}" must be an array.', pathsKey));
+            }
+        }
+    }
+
+    return {
+        indexingPolicy: settings.indexingPolicy,
+        defaultTtl: settings.defaultTtl,
+        uniqueKeyPolicy: settings.uniqueKeyPolicy,
+        conflictResolutionPolicy: settings.conflictResolutionPolicy
+    };
+}
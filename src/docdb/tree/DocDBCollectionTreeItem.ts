@@ -7,11 +7,17 @@ import { Container, ContainerDefinition, CosmosClient, PartitionKeyDefinition, R
 import * as vscode from 'vscode';
 import { AzureParentTreeItem, AzureTreeItem, DialogResponses, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+import { DocDBCollectionSettingsTreeItem } from './DocDBCollectionSettingsTreeItem';
 import { DocDBDatabaseTreeItem } from './DocDBDatabaseTreeItem';
 import { DocDBDocumentsTreeItem } from './DocDBDocumentsTreeItem';
 import { DocDBDocumentTreeItem } from './DocDBDocumentTreeItem';
 import { DocDBStoredProceduresTreeItem } from './DocDBStoredProceduresTreeItem';
 import { DocDBStoredProcedureTreeItem } from './DocDBStoredProcedureTreeItem';
+import { DocDBTriggersTreeItem } from './DocDBTriggersTreeItem';
+import { DocDBTriggerTreeItem } from './DocDBTriggerTreeItem';
+import { DocDBUserDefinedFunctionsTreeItem } from './DocDBUserDefinedFunctionsTreeItem';
+import { DocDBUserDefinedFunctionTreeItem } from './DocDBUserDefinedFunctionTreeItem';
 import { IDocDBTreeRoot } from './IDocDBTreeRoot';
 
 /**
@@ -23,13 +29,19 @@ export class DocDBCollectionTreeItem extends AzureParentTreeItem<IDocDBTreeRoot>
     public readonly documentsTreeItem: DocDBDocumentsTreeItem;
     public readonly parent: DocDBDatabaseTreeItem;
 
+    private readonly _settingsTreeItem: DocDBCollectionSettingsTreeItem;
     private readonly _storedProceduresTreeItem: DocDBStoredProceduresTreeItem;
+    private readonly _triggersTreeItem: DocDBTriggersTreeItem;
+    private readonly _userDefinedFunctionsTreeItem: DocDBUserDefinedFunctionsTreeItem;
 
     constructor(parent: DocDBDatabaseTreeItem, private _container: ContainerDefinition & Resource) {
         super(parent);
         this.parent = parent;
         this.documentsTreeItem = new DocDBDocumentsTreeItem(this);
         this._storedProceduresTreeItem = new DocDBStoredProceduresTreeItem(this);
+        this._triggersTreeItem = new DocDBTriggersTreeItem(this);
+        this._userDefinedFunctionsTreeItem = new DocDBUserDefinedFunctionsTreeItem(this);
+        this._settingsTreeItem = new DocDBCollectionSettingsTreeItem(this);
     }
 
     public get id(): string {
@@ -40,6 +52,10 @@ export class DocDBCollectionTreeItem extends AzureParentTreeItem<IDocDBTreeRoot>
         return this._container.id;
     }
 
+    public get description(): string {
+        return ext.connectedNoSqlContainer?.fullId === this.fullId ? localize('connected', 'Connected') : '';
+    }
+
     public get iconPath(): TreeItemIconPath {
         return new vscode.ThemeIcon('files');
     }
@@ -48,6 +64,10 @@ export class DocDBCollectionTreeItem extends AzureParentTreeItem<IDocDBTreeRoot>
         return this._container._self;
     }
 
+    public get rid(): string {
+        return this._container._rid;
+    }
+
     public get partitionKey(): PartitionKeyDefinition | undefined {
         return this._container.partitionKey;
     }
@@ -64,7 +84,7 @@ export class DocDBCollectionTreeItem extends AzureParentTreeItem<IDocDBTreeRoot>
     }
 
     public async loadMoreChildrenImpl(_clearCache: boolean): Promise<AzureTreeItem<IDocDBTreeRoot>[]> {
-        return [this.documentsTreeItem, this._storedProceduresTreeItem];
+        return [this.documentsTreeItem, this._storedProceduresTreeItem, this._triggersTreeItem, this._userDefinedFunctionsTreeItem, this._settingsTreeItem];
     }
 
     public hasMoreChildrenImpl(): boolean {
@@ -80,6 +100,14 @@ export class DocDBCollectionTreeItem extends AzureParentTreeItem<IDocDBTreeRoot>
                 case DocDBStoredProceduresTreeItem.contextValue:
                 case DocDBStoredProcedureTreeItem.contextValue:
                     return this._storedProceduresTreeItem;
+                case DocDBTriggersTreeItem.contextValue:
+                case DocDBTriggerTreeItem.contextValue:
+                    return this._triggersTreeItem;
+                case DocDBUserDefinedFunctionsTreeItem.contextValue:
+                case DocDBUserDefinedFunctionTreeItem.contextValue:
+                    return this._userDefinedFunctionsTreeItem;
+                case DocDBCollectionSettingsTreeItem.contextValue:
+                    return this._settingsTreeItem;
                 default:
             }
         }
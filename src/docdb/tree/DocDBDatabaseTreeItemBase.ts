@@ -7,15 +7,14 @@ import { ContainerDefinition, ContainerResponse, CosmosClient, DatabaseDefinitio
 import * as vscode from 'vscode';
 import { AzureTreeItem, DialogResponses, ICreateChildImplContext, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
 import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
 import { nonNullProp } from '../../utils/nonNull';
+import { maxPartitionKeyPaths, parsePartitionKeyPaths, validatePartitionKeyPaths } from '../partitionKeys';
+import { getThroughputRequestOptions, IThroughputSettings, promptForThroughput, readThroughputOffer } from '../throughput';
 import { DocDBAccountTreeItemBase } from './DocDBAccountTreeItemBase';
 import { DocDBTreeItemBase } from './DocDBTreeItemBase';
 import { IDocDBTreeRoot } from './IDocDBTreeRoot';
 
-const minThroughputFixed: number = 400;
-const minThroughputPartitioned: number = 400;
-const maxThroughput: number = 100000;
-
 /**
  * This class provides common logic for DocumentDB, Graph, and Table databases
  * (DocumentDB is the base type for all Cosmos DB accounts)
@@ -45,6 +44,10 @@ export abstract class DocDBDatabaseTreeItemBase extends DocDBTreeItemBase<Contai
         return nonNullProp(this._database, '_self');
     }
 
+    public get rid(): string {
+        return this._database._rid;
+    }
+
     public get connectionString(): string {
         return this.parent.connectionString.concat(`;Database=${this.id}`);
     }
@@ -81,60 +84,30 @@ export abstract class DocDBDatabaseTreeItemBase extends DocDBTreeItemBase<Contai
             id: containerName
         };
 
-        let partitionKey: string | undefined = await ext.ui.showInputBox({
-            prompt: 'Enter the partition key for the collection, or leave blank for fixed size.',
+        const partitionKey: string = await ext.ui.showInputBox({
+            prompt: `Enter the partition key for the collection, or leave blank for fixed size. Separate up to ${maxPartitionKeyPaths} paths with commas for a hierarchical partition key.`,
             ignoreFocusOut: true,
-            validateInput: validatePartitionKey,
-            placeHolder: 'e.g. address/zipCode'
+            validateInput: validatePartitionKeyPaths,
+            placeHolder: 'e.g. address/zipCode or tenantId, userId'
         });
 
-        if (partitionKey && partitionKey.length && partitionKey[0] !== '/') {
-            partitionKey = '/' + partitionKey;
-        }
-        if (partitionKey) {
-            containerDefinition.partitionKey = {
-                paths: [partitionKey]
-            };
-        }
+        containerDefinition.partitionKey = parsePartitionKeyPaths(partitionKey);
+        const client = this.root.getCosmosClient();
         const isFixed: boolean = !(containerDefinition.partitionKey);
-        const minThroughput = isFixed ? minThroughputFixed : minThroughputPartitioned;
-        const throughput: number = Number(await ext.ui.showInputBox({
-            value: minThroughput.toString(),
-            ignoreFocusOut: true,
-            prompt: `Initial throughput capacity, between ${minThroughput} and ${maxThroughput}`,
-            validateInput: (input: string) => validateThroughput(isFixed, input)
-        }));
-
-        const options = { offerThroughput: throughput };
+        const hasSharedThroughput: boolean = !!(await readThroughputOffer(client, this.rid));
+        const throughput: IThroughputSettings | undefined = await promptForThroughput(
+            localize('dedicatedThroughputFor', 'the {0}', this.childTypeLabel.toLowerCase()),
+            hasSharedThroughput ? localize('useSharedThroughput', 'Use the shared throughput of database "{0}"', this.label) : undefined,
+            !isFixed
+        );
 
         context.showCreatingTreeItem(containerName);
-        const client = this.root.getCosmosClient();
-        const container: ContainerResponse = await client.database(this.id).containers.create(containerDefinition, options);
+        const container: ContainerResponse = await client.database(this.id).containers.create(containerDefinition, getThroughputRequestOptions(throughput));
 
         return this.initChild(nonNullProp(container, 'resource'));
     }
 }
 
-function validatePartitionKey(key: string): string | undefined | null {
-    if (/[#?\\]/.test(key)) {
-        return "Cannot contain these characters: ?,#,\\, etc.";
-    }
-    return undefined;
-}
-
-function validateThroughput(isFixed: boolean, input: string): string | undefined | null {
-    try {
-        const minThroughput = isFixed ? minThroughputFixed : minThroughputPartitioned;
-        const value = Number(input);
-        if (value < minThroughput || value > maxThroughput) {
-            return `Value must be between ${minThroughput} and ${maxThroughput}`;
-        }
-    } catch (err) {
-        return "Input must be a number";
-    }
-    return undefined;
-}
-
 function validateCollectionName(name: string): string | undefined | null {
     if (!name) {
         return "Collection name cannot be empty";
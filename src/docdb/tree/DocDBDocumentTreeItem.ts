@@ -3,17 +3,21 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { CosmosClient, Item, ItemDefinition, RequestOptions } from '@azure/cosmos';
+import { Container, CosmosClient, Item, ItemDefinition, ItemResponse, RequestOptions } from '@azure/cosmos';
+import * as _ from 'underscore';
 import * as vscode from 'vscode';
 import { AzureTreeItem, DialogResponses, IActionContext, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
 import { IEditableTreeItem } from '../../DatabasesFileSystem';
 import { ext } from '../../extensionVariables';
-import { nonNullProp } from '../../utils/nonNull';
+import { resolveDocumentConflict } from '../../utils/documentConflicts';
+import { nonNullProp, nonNullValue } from '../../utils/nonNull';
 import { getDocumentTreeItemLabel } from '../../utils/vscodeUtils';
 import { DocDBDocumentsTreeItem } from './DocDBDocumentsTreeItem';
 import { IDocDBTreeRoot } from './IDocDBTreeRoot';
 
-const hiddenFields: string[] = ['_rid', '_self', '_etag', '_attachments', '_ts'];
+export const hiddenFields: string[] = ['_rid', '_self', '_etag', '_attachments', '_ts'];
+export const preconditionFailedStatusCode: number = 412;
+export const notFoundStatusCode: number = 404;
 
 /**
  * Represents a Cosmos DB DocumentDB (SQL) document
@@ -100,36 +104,58 @@ export class DocDBDocumentTreeItem extends AzureTreeItem<IDocDBTreeRoot> impleme
         if (["_etag"].some((element) => !newData[element])) {
             throw new Error(`The "_self" and "_etag" fields are required to update a document`);
         } else {
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
-            const options: RequestOptions = { accessCondition: { type: 'IfMatch', condition: newData._etag } };
-            const response = await this.getDocumentClient(client).replace(newData, options);
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-            this._document = response.resource;
+            try {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
+                const options: RequestOptions = { accessCondition: { type: 'IfMatch', condition: newData._etag } };
+                const response = await this.getDocumentClient(client).replace(newData, options);
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+                this._document = response.resource;
+            } catch (error) {
+                const code: number | undefined = (<{ code?: number }>error).code;
+                if (code !== preconditionFailedStatusCode && code !== notFoundStatusCode) {
+                    throw error;
+                }
+                // The document was changed or deleted since it was opened
+                this._document = (await resolveConflictAndSave(this.parent.getContainerClient(client), this.getDocumentClient(client), this.label, this.document, <ItemDefinition>newData)).document;
+            }
         }
     }
 
     private getPartitionKeyValue(): string | undefined | Object {
-        const partitionKey = this.parent.parent.partitionKey;
-        if (!partitionKey) { //Fixed collections -> no partitionKeyValue
-            return undefined;
-        }
-        const fields = partitionKey.paths[0].split('/');
-        if (fields[0] === '') {
-            fields.shift();
-        }
-        let value;
-        for (const field of fields) {
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access
-            value = value ? value[field] : this.document[field];
-            if (!value) { //Partition Key exists, but this document doesn't have a value
-                return '';
-            }
-        }
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-return
-        return value;
+        return this.parent.getPartitionKeyValue(this.document);
     }
 
     private getDocumentClient(client: CosmosClient): Item {
         return this.parent.getContainerClient(client).item(nonNullProp(this.document, 'id'), this.getPartitionKeyValue());
     }
 }
+
+export function removeHiddenFields(document: ItemDefinition): ItemDefinition {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+    return <ItemDefinition>_.omit(document, hiddenFields);
+}
+
+/**
+ * Asks how to resolve the conflict of a document that was changed or deleted in the database after it was loaded, then saves the resolved document.
+ * Returns the document as it is in the database afterwards, and whether it was saved
+ */
+export async function resolveConflictAndSave(container: Container, item: Item, label: string, loadedDocument: ItemDefinition, newDocument: ItemDefinition): Promise<{ document: ItemDefinition, isSaved: boolean }> {
+    const readResponse: ItemResponse<ItemDefinition> = await item.read<ItemDefinition>();
+    const remote: ItemDefinition | undefined = readResponse.resource;
+    const resolved: {} | undefined = await resolveDocumentConflict({
+        label,
+        original: removeHiddenFields(loadedDocument),
+        remote: remote && removeHiddenFields(remote),
+        local: removeHiddenFields(newDocument)
+    });
+
+    if (!resolved) {
+        return { document: nonNullValue(remote, 'remote'), isSaved: false };
+    } else if (remote) {
+        // Only replace the document if it wasn't changed again while the conflict was resolved
+        const options: RequestOptions = { accessCondition: { type: 'IfMatch', condition: <string>remote._etag } };
+        return { document: nonNullProp(await item.replace(resolved, options), 'resource'), isSaved: true };
+    } else {
+        return { document: nonNullProp(await container.items.create(resolved), 'resource'), isSaved: true };
+    }
+}
@@ -3,26 +3,45 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Container, CosmosClient, FeedOptions, ItemDefinition, ItemResponse, QueryIterator } from '@azure/cosmos';
+import { Container, CosmosClient, FeedOptions, Item, ItemDefinition, ItemResponse, QueryIterator, RequestOptions } from '@azure/cosmos';
+import * as _ from 'underscore';
 import * as vscode from 'vscode';
-import { ICreateChildImplContext, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
+import { IActionContext, ICreateChildImplContext, parseError, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
+import { documentsFilterKeyPrefix } from '../../constants';
+import { IEditableTreeItem } from '../../DatabasesFileSystem';
 import { ext } from '../../extensionVariables';
+import { compareDocuments, IComparedDocument, IDocumentChanges } from '../../utils/documentChanges';
+import { localize } from '../../utils/localize';
 import { nonNullProp } from '../../utils/nonNull';
+import { getDocumentTreeItemLabel } from '../../utils/vscodeUtils';
+import { getPartitionKeyPathValue, isHierarchicalPartitionKey, setPartitionKeyPathValue } from '../partitionKeys';
 import { DocDBCollectionTreeItem } from './DocDBCollectionTreeItem';
-import { DocDBDocumentTreeItem } from './DocDBDocumentTreeItem';
+import { DocDBDocumentTreeItem, notFoundStatusCode, preconditionFailedStatusCode, removeHiddenFields, resolveConflictAndSave } from './DocDBDocumentTreeItem';
 import { DocDBTreeItemBase } from './DocDBTreeItemBase';
 
+export interface IDocumentsFilter {
+    where?: string;
+    orderBy?: string;
+}
+
 /**
  * This class provides logic for DocumentDB collections
  */
-export class DocDBDocumentsTreeItem extends DocDBTreeItemBase<ItemDefinition> {
+export class DocDBDocumentsTreeItem extends DocDBTreeItemBase<ItemDefinition> implements IEditableTreeItem {
     public static contextValue: string = "cosmosDBDocumentsGroup";
     public readonly contextValue: string = DocDBDocumentsTreeItem.contextValue;
     public readonly childTypeLabel: string = "Documents";
     public readonly parent: DocDBCollectionTreeItem;
+    public readonly cTime: number = Date.now();
+    public mTime: number = Date.now();
 
     constructor(parent: DocDBCollectionTreeItem) {
         super(parent);
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public get filePath(): string {
+        return this.parent.label + '-cosmos-documents.json';
     }
 
     public get iconPath(): TreeItemIconPath {
@@ -41,10 +60,137 @@ export class DocDBDocumentsTreeItem extends DocDBTreeItemBase<ItemDefinition> {
         return this.parent.link;
     }
 
+    public get description(): string | undefined {
+        const filter: IDocumentsFilter | undefined = this.filter;
+        if (filter) {
+            return [filter.where && `WHERE ${filter.where}`, filter.orderBy && `ORDER BY ${filter.orderBy}`].filter(f => !!f).join(' ');
+        }
+        return undefined;
+    }
+
+    public get filter(): IDocumentsFilter | undefined {
+        return ext.context.globalState.get<IDocumentsFilter>(this.filterKey);
+    }
+
+    public async refreshImpl(): Promise<void> {
+        await super.refreshImpl();
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public async getFileContent(context: IActionContext): Promise<string> {
+        const documents: ItemDefinition[] = await this.getLoadedDocuments(context);
+        return JSON.stringify(documents.map(removeHiddenFields), null, 2);
+    }
+
+    public async getDocumentChanges(context: IActionContext, content: string): Promise<IDocumentChanges> {
+        const toComparedDocument = (document: ItemDefinition): IComparedDocument => {
+            return { key: document.id ? this.getDocumentKey(document) : undefined, label: getDocumentTreeItemLabel(document), document: removeHiddenFields(document) };
+        };
+        const loadedDocuments: ItemDefinition[] = await this.getLoadedDocuments(context);
+        return compareDocuments(loadedDocuments.map(toComparedDocument), parseDocuments(content).map(toComparedDocument));
+    }
+
+    public async writeFileContent(context: IActionContext, content: string): Promise<void> {
+        const documents: ItemDefinition[] = parseDocuments(content);
+        const loadedDocuments: Map<string, ItemDefinition> = new Map<string, ItemDefinition>();
+        for (const document of await this.getLoadedDocuments(context)) {
+            loadedDocuments.set(this.getDocumentKey(document), document);
+        }
+
+        const container: Container = this.getContainerClient(this.root.getCosmosClient());
+        let unchangedCount: number = 0;
+        let upsertedCount: number = 0;
+        const failures: string[] = [];
+        const conflicts: { loadedDocument: ItemDefinition, document: ItemDefinition }[] = [];
+        for (const document of documents) {
+            const loadedDocument: ItemDefinition | undefined = document.id ? loadedDocuments.get(this.getDocumentKey(document)) : undefined;
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+            if (loadedDocument && _.isEqual(removeHiddenFields(loadedDocument), document)) {
+                unchangedCount += 1;
+                continue;
+            }
+
+            try {
+                if (loadedDocument) {
+                    // Only replace documents that weren't changed in the database since they were opened
+                    const options: RequestOptions = { accessCondition: { type: 'IfMatch', condition: <string>loadedDocument._etag } };
+                    await this.getItemClient(container, document).replace(document, options);
+                } else {
+                    // Upsert routes each document to its own logical partition based on the partition key value in the body
+                    await container.items.upsert(document);
+                }
+                upsertedCount += 1;
+            } catch (error) {
+                const code: number | undefined = (<{ code?: number }>error).code;
+                if (loadedDocument && (code === preconditionFailedStatusCode || code === notFoundStatusCode)) {
+                    conflicts.push({ loadedDocument, document });
+                } else {
+                    failures.push(localize('failedToSaveDocument', 'Failed to save document "{0}": {1}', String(document.id), parseError(error).message));
+                }
+            }
+        }
+
+        // Conflicts are resolved after the other documents are saved. Cancelling one only skips that document
+        for (const { loadedDocument, document } of conflicts) {
+            try {
+                const result: { isSaved: boolean } = await resolveConflictAndSave(container, this.getItemClient(container, document), String(document.id), loadedDocument, document);
+                if (result.isSaved) {
+                    upsertedCount += 1;
+                } else {
+                    unchangedCount += 1;
+                }
+            } catch (error) {
+                const message: string = error instanceof UserCancelledError ?
+                    localize('conflictNotSaved', 'Document "{0}" wasn\'t saved because it was changed in the database after it was opened.', String(document.id)) :
+                    localize('failedToSaveDocument', 'Failed to save document "{0}": {1}', String(document.id), parseError(error).message);
+                failures.push(message);
+            }
+        }
+
+        context.telemetry.measurements.upsertedCount = upsertedCount;
+        context.telemetry.measurements.failedCount = failures.length;
+        ext.outputChannel.appendLog(localize('savedDocuments', 'Saved {0} document(s), {1} unchanged, {2} failed.', upsertedCount, unchangedCount, failures.length));
+        for (const failure of failures) {
+            ext.outputChannel.appendLine(failure);
+        }
+
+        if (failures.length) {
+            ext.outputChannel.show();
+            // Refresh so that the successfully saved documents are reflected before reporting the failures
+            await this.refresh(context);
+            throw new Error(localize('failedToSaveDocuments', 'Failed to save {0} of {1} changed document(s). See output for more details.', failures.length, failures.length + upsertedCount));
+        }
+    }
+
     public getIterator(client: CosmosClient, feedOptions: FeedOptions): QueryIterator<ItemDefinition> {
+        const filter: IDocumentsFilter | undefined = this.filter;
+        if (filter) {
+            return this.getContainerClient(client).items.query<ItemDefinition>(getFilterQuery(filter), feedOptions);
+        }
         return this.getContainerClient(client).items.readAll(feedOptions);
     }
 
+    public async editFilter(context: IActionContext): Promise<void> {
+        const currentFilter: IDocumentsFilter = this.filter || {};
+        const where: string = stripKeyword(await ext.ui.showInputBox({
+            prompt: localize('enterWhereClause', 'Enter a WHERE clause to filter the documents by, or leave blank to show all documents'),
+            placeHolder: localize('whereClausePlaceholder', 'e.g. c.status = "active"'),
+            value: currentFilter.where,
+            ignoreFocusOut: true
+        }), 'WHERE');
+        const orderBy: string = stripKeyword(await ext.ui.showInputBox({
+            prompt: localize('enterOrderByClause', 'Enter an ORDER BY clause, or leave blank for the default order'),
+            placeHolder: localize('orderByClausePlaceholder', 'e.g. c._ts DESC'),
+            value: currentFilter.orderBy,
+            ignoreFocusOut: true
+        }), 'ORDER BY');
+
+        const filter: IDocumentsFilter | undefined = where || orderBy ? { where: where || undefined, orderBy: orderBy || undefined } : undefined;
+        context.telemetry.properties.hasFilter = String(!!filter);
+        await ext.context.globalState.update(this.filterKey, filter);
+        await this.refresh(context);
+    }
+
     public initChild(document: ItemDefinition): DocDBDocumentTreeItem {
         return new DocDBDocumentTreeItem(this, document);
     }
@@ -74,37 +220,21 @@ export class DocDBDocumentsTreeItem extends DocDBTreeItemBase<ItemDefinition> {
     }
 
     public documentHasPartitionKey(doc: Object): boolean {
-        let interim = doc;
-        let partitionKey: string | undefined = this.parent.partitionKey && this.parent.partitionKey.paths[0];
-        if (!partitionKey) {
-            return true;
-        }
-        if (partitionKey[0] === '/') {
-            partitionKey = partitionKey.slice(1);
-        }
-        const partitionKeyPath = partitionKey.split('/');
-
-        for (const prop of partitionKeyPath) {
-            // eslint-disable-next-line no-prototype-builtins
-            if (interim.hasOwnProperty(prop)) {
-                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-                interim = interim[prop];
-            } else {
-                return false;
-            }
-        }
-        return true;
+        const paths: string[] = this.parent.partitionKey ? this.parent.partitionKey.paths : [];
+        return paths.every(path => getPartitionKeyPathValue(doc, path) !== undefined);
     }
 
     public async promptForPartitionKey(body: ItemDefinition): Promise<ItemDefinition> {
-        const partitionKey: string | undefined = this.parent.partitionKey && this.parent.partitionKey.paths[0];
-        if (partitionKey) {
+        const paths: string[] = this.parent.partitionKey ? this.parent.partitionKey.paths : [];
+        for (let i: number = 0; i < paths.length; i++) {
             const partitionKeyValue: string = await ext.ui.showInputBox({
-                prompt: `Enter a value for the partition key ("${partitionKey}")`
+                prompt: paths.length > 1 ?
+                    localize('enterHierarchicalPartitionKeyValue', 'Enter a value for level {0} of {1} of the partition key ("{2}")', i + 1, paths.length, paths[i]) :
+                    `Enter a value for the partition key ("${paths[i]}")`
             });
             // Unlike delete/replace, createDocument does not accept a partition key value via an options parameter.
             // We need to present the partitionKey value as part of the document contents
-            Object.assign(body, this.createPartitionPathObject(partitionKey, partitionKeyValue));
+            setPartitionKeyPathValue(body, paths[i], partitionKeyValue);
         }
         return body;
     }
@@ -113,22 +243,63 @@ export class DocDBDocumentsTreeItem extends DocDBTreeItemBase<ItemDefinition> {
         return this.parent.getContainerClient(client);
     }
 
-    // Create a nested Object given the partition key path and value
-    private createPartitionPathObject(partitionKey: string, partitionKeyValue: string): Object {
-        //remove leading slash
-        if (partitionKey[0] === '/') {
-            partitionKey = partitionKey.slice(1);
+    public getPartitionKeyValue(document: ItemDefinition): string | undefined | Object {
+        const partitionKey = this.parent.partitionKey;
+        if (!partitionKey) { //Fixed collections -> no partitionKeyValue
+            return undefined;
         }
-        const keyPath = partitionKey.split('/');
-        const PartitionPath: Object = {};
-        let interim: Object = PartitionPath;
-        let i: number;
-        for (i = 0; i < keyPath.length - 1; i++) {
-            interim[keyPath[i]] = {};
-            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-            interim = interim[keyPath[i]];
+        const values: unknown[] = partitionKey.paths.map(path => getPartitionKeyPathValue(document, path));
+        if (isHierarchicalPartitionKey(partitionKey)) {
+            // Hierarchical partition keys are an array with a value for each level, where "{}" represents a missing value
+            return values.map(value => value === undefined ? {} : value);
+        } else {
+            //Partition Key exists, but this document doesn't have a value
+            return values[0] === undefined || values[0] === null ? '' : <Object>values[0];
         }
-        interim[keyPath[i]] = partitionKeyValue;
-        return PartitionPath;
     }
+
+    private async getLoadedDocuments(context: IActionContext): Promise<ItemDefinition[]> {
+        const children = <DocDBDocumentTreeItem[]>await this.getCachedChildren(context);
+        return children.map(c => c.document);
+    }
+
+    private getItemClient(container: Container, document: ItemDefinition): Item {
+        return container.item(nonNullProp(document, 'id'), this.getPartitionKeyValue(document));
+    }
+
+    // Documents are only unique within a logical partition, so the key needs both the id and the partition key value
+    private getDocumentKey(document: ItemDefinition): string {
+        return JSON.stringify([document.id, this.getPartitionKeyValue(document)]);
+    }
+
+    private get filterKey(): string {
+        return documentsFilterKeyPrefix + this.fullId;
+    }
+}
+
+function parseDocuments(content: string): ItemDefinition[] {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const documents: ItemDefinition[] = JSON.parse(content);
+    if (!Array.isArray(documents)) {
+        throw new Error(localize('expectedArray', 'The documents must be a JSON array.'));
+    }
+    return documents;
+}
+
+export function getFilterQuery(filter: IDocumentsFilter): string {
+    let query: string = 'SELECT * FROM c';
+    if (filter.where) {
+        query += ` WHERE ${filter.where}`;
+    }
+    if (filter.orderBy) {
+        query += ` ORDER BY ${filter.orderBy}`;
+    }
+    return query;
+}
+
+// Users will often type the keyword itself, e.g. "WHERE c.id = '1'", so remove it to avoid duplicating it in the query
+export function stripKeyword(clause: string, keyword: string): string {
+    clause = clause.trim();
+    const keywordRegExp: RegExp = new RegExp(`^${keyword.replace(' ', '\\s+')}\\s+`, 'i');
+    return clause.replace(keywordRegExp, '').trim();
 }
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Resource, StoredProcedureDefinition } from '@azure/cosmos';
+import { Resource, ResourceResponse, StoredProcedureDefinition } from '@azure/cosmos';
 import * as vscode from "vscode";
 import { AzureTreeItem, DialogResponses, IActionContext, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
 import { IEditableTreeItem } from '../../DatabasesFileSystem';
@@ -59,6 +59,11 @@ export class DocDBStoredProcedureTreeItem extends AzureTreeItem<IDocDBTreeRoot>
         this.procedure = nonNullProp(replace, 'resource');
     }
 
+    public async execute(partitionKey: {} | undefined, parameters: unknown[]): Promise<ResourceResponse<unknown>> {
+        const client = this.root.getCosmosClient();
+        return await this.parent.getContainerClient(client).scripts.storedProcedure(this.id).execute<unknown>(partitionKey, parameters, { enableScriptLogging: true });
+    }
+
     public get iconPath(): TreeItemIconPath {
         return new vscode.ThemeIcon('server-process');
     }
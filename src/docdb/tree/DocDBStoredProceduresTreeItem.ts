@@ -9,8 +9,8 @@ import { AzExtTreeItem, ICreateChildImplContext, TreeItemIconPath } from 'vscode
 import { defaultStoredProcedure } from '../../constants';
 import { ext } from '../../extensionVariables';
 import { GraphCollectionTreeItem } from '../../graph/tree/GraphCollectionTreeItem';
-import { localize } from '../../utils/localize';
 import { nonNullProp } from '../../utils/nonNull';
+import { validateScriptId } from '../validateScriptId';
 import { DocDBCollectionTreeItem } from './DocDBCollectionTreeItem';
 import { DocDBStoredProcedureTreeItem } from './DocDBStoredProcedureTreeItem';
 import { DocDBTreeItemBase } from './DocDBTreeItemBase';
@@ -46,7 +46,7 @@ export class DocDBStoredProceduresTreeItem extends DocDBTreeItemBase<StoredProce
         }
         const spID = (await ext.ui.showInputBox({
             prompt: "Enter a unique stored procedure ID",
-            validateInput: (name: string) => this.validateStoredProcedureName(name, currStoredProcedureNames)
+            validateInput: (name: string) => validateScriptId(name, currStoredProcedureNames, this.childTypeLabel)
         })).trim();
         const body: StoredProcedureDefinition = { id: spID, body: defaultStoredProcedure };
         context.showCreatingTreeItem(spID);
@@ -74,22 +74,4 @@ export class DocDBStoredProceduresTreeItem extends DocDBTreeItemBase<StoredProce
     public getContainerClient(client: CosmosClient): Container {
         return this.parent.getContainerClient(client);
     }
-
-    private validateStoredProcedureName(name: string, currStoredProcedureNames: string[]): string | undefined {
-        if (name.length < 1 || name.length > 255) {
-            return localize("nameLength", "Name has to be between 1 and 255 chars long");
-        }
-
-        if (/[/\\?#&]/.test(name)) {
-            return localize("illegalChars", "Name contains illegal chars: /, \\, ?, #, &");
-        }
-        if (name[name.length - 1] === " ") {
-            return localize("endsWithSpace", "Name cannot end with a space.");
-        }
-        if (currStoredProcedureNames.includes(name)) {
-            return localize('nameExists', 'Stored Procedure "{0}" already exists.', name);
-        }
-
-        return undefined;
-    }
 }
@@ -0,0 +1,129 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Resource, TriggerDefinition, TriggerOperation, TriggerType } from '@azure/cosmos';
+import * as vscode from "vscode";
+import { AzureTreeItem, DialogResponses, IActionContext, IAzureQuickPickItem, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
+import { IEditableTreeItem } from '../../DatabasesFileSystem';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+import { nonNullProp } from '../../utils/nonNull';
+import { DocDBTriggersTreeItem } from './DocDBTriggersTreeItem';
+import { IDocDBTreeRoot } from './IDocDBTreeRoot';
+
+/**
+ * Represents a Cosmos DB DocumentDB (SQL) trigger
+ */
+export class DocDBTriggerTreeItem extends AzureTreeItem<IDocDBTreeRoot> implements IEditableTreeItem {
+    public static contextValue: string = "cosmosDBTrigger";
+    public readonly contextValue: string = DocDBTriggerTreeItem.contextValue;
+    public readonly commandId: string = 'cosmosDB.openTrigger';
+    public readonly cTime: number = Date.now();
+    public readonly parent: DocDBTriggersTreeItem;
+    public mTime: number = Date.now();
+
+    constructor(parent: DocDBTriggersTreeItem, public trigger: (TriggerDefinition & Resource)) {
+        super(parent);
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public get filePath(): string {
+        return this.label + '-cosmos-trigger.js';
+    }
+
+    public get id(): string {
+        return this.trigger.id;
+    }
+
+    public get label(): string {
+        return this.trigger.id;
+    }
+
+    public get description(): string {
+        return `${this.trigger.triggerType} ${this.trigger.triggerOperation}`;
+    }
+
+    public get link(): string {
+        return this.trigger._self;
+    }
+
+    public async getFileContent(): Promise<string> {
+        return typeof this.trigger.body === 'string' ? this.trigger.body : '';
+    }
+
+    public async refreshImpl(): Promise<void> {
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public async writeFileContent(_context: IActionContext, content: string): Promise<void> {
+        await this.replace({ body: content });
+    }
+
+    public async editSettings(context: IActionContext): Promise<void> {
+        const triggerType: TriggerType = await promptForTriggerType(this.trigger.triggerType);
+        const triggerOperation: TriggerOperation = await promptForTriggerOperation(this.trigger.triggerOperation);
+        await this.replace({ triggerType, triggerOperation });
+        await this.refresh(context);
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('zap');
+    }
+
+    public async deleteTreeItemImpl(): Promise<void> {
+        const message: string = `Are you sure you want to delete trigger '${this.label}'?`;
+        const result = await vscode.window.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        if (result === DialogResponses.deleteResponse) {
+            const client = this.root.getCosmosClient();
+            await this.parent.getContainerClient(client).scripts.trigger(this.id).delete();
+        } else {
+            throw new UserCancelledError();
+        }
+    }
+
+    private async replace(changes: Partial<TriggerDefinition>): Promise<void> {
+        const client = this.root.getCosmosClient();
+        const body: TriggerDefinition = {
+            id: this.id,
+            body: this.trigger.body,
+            triggerType: this.trigger.triggerType,
+            triggerOperation: this.trigger.triggerOperation,
+            ...changes
+        };
+        const replace = await this.parent.getContainerClient(client).scripts.trigger(this.id).replace(body);
+        this.trigger = nonNullProp(replace, 'resource');
+    }
+}
+
+export async function promptForTriggerType(currentType?: TriggerType): Promise<TriggerType> {
+    const picks: IAzureQuickPickItem<TriggerType>[] = [
+        { label: 'Pre', description: localize('preTriggerDescription', 'Runs before the operation'), data: TriggerType.Pre },
+        { label: 'Post', description: localize('postTriggerDescription', 'Runs after the operation'), data: TriggerType.Post }
+    ];
+    return (await ext.ui.showQuickPick(moveCurrentToTop(picks, currentType), {
+        placeHolder: localize('selectTriggerType', 'Select the trigger type'),
+        suppressPersistence: true,
+        ignoreFocusOut: true
+    })).data;
+}
+
+export async function promptForTriggerOperation(currentOperation?: TriggerOperation): Promise<TriggerOperation> {
+    const picks: IAzureQuickPickItem<TriggerOperation>[] = [
+        { label: 'All', data: TriggerOperation.All },
+        { label: 'Create', data: TriggerOperation.Create },
+        { label: 'Replace', data: TriggerOperation.Replace },
+        { label: 'Delete', data: TriggerOperation.Delete },
+        { label: 'Update', data: TriggerOperation.Update }
+    ];
+    return (await ext.ui.showQuickPick(moveCurrentToTop(picks, currentOperation), {
+        placeHolder: localize('selectTriggerOperation', 'Select the operation that fires the trigger'),
+        suppressPersistence: true,
+        ignoreFocusOut: true
+    })).data;
+}
+
+function moveCurrentToTop<T>(picks: IAzureQuickPickItem<T>[], current: T | undefined): IAzureQuickPickItem<T>[] {
+    return picks.sort((a, b) => Number(b.data === current) - Number(a.data === current));
+}
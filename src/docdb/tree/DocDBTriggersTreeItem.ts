@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container, CosmosClient, FeedOptions, QueryIterator, Resource, TriggerDefinition, TriggerOperation, TriggerType } from '@azure/cosmos';
+import * as vscode from "vscode";
+import { AzExtTreeItem, ICreateChildImplContext, TreeItemIconPath } from 'vscode-azureextensionui';
+import { defaultTrigger } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { nonNullProp } from '../../utils/nonNull';
+import { validateScriptId } from '../validateScriptId';
+import { DocDBCollectionTreeItem } from './DocDBCollectionTreeItem';
+import { DocDBTreeItemBase } from './DocDBTreeItemBase';
+import { DocDBTriggerTreeItem, promptForTriggerOperation, promptForTriggerType } from './DocDBTriggerTreeItem';
+
+/**
+ * This class represents the DocumentDB "Triggers" node in the tree
+ */
+export class DocDBTriggersTreeItem extends DocDBTreeItemBase<TriggerDefinition> {
+
+    public static contextValue: string = "cosmosDBTriggersGroup";
+    public readonly contextValue: string = DocDBTriggersTreeItem.contextValue;
+    public readonly childTypeLabel: string = "Trigger";
+    public readonly parent: DocDBCollectionTreeItem;
+
+    constructor(parent: DocDBCollectionTreeItem) {
+        super(parent);
+    }
+
+    public initChild(resource: TriggerDefinition & Resource): DocDBTriggerTreeItem {
+        return new DocDBTriggerTreeItem(this, resource);
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('zap');
+    }
+
+    public async createChildImpl(context: ICreateChildImplContext): Promise<DocDBTriggerTreeItem> {
+        const client = this.root.getCosmosClient();
+        const currTriggerList: AzExtTreeItem[] = await this.getCachedChildren(context);
+        const currTriggerNames: string[] = [];
+        for (const trigger of currTriggerList) {
+            currTriggerNames.push(nonNullProp(trigger, "id"));
+        }
+        const triggerID = (await ext.ui.showInputBox({
+            prompt: "Enter a unique trigger ID",
+            validateInput: (name: string) => validateScriptId(name, currTriggerNames, this.childTypeLabel)
+        })).trim();
+        const triggerType: TriggerType = await promptForTriggerType();
+        const triggerOperation: TriggerOperation = await promptForTriggerOperation();
+        const body: TriggerDefinition = { id: triggerID, body: defaultTrigger, triggerType, triggerOperation };
+        context.showCreatingTreeItem(triggerID);
+        const trigger = await this.getContainerClient(client).scripts.triggers.create(body);
+
+        return this.initChild(nonNullProp(trigger, 'resource'));
+    }
+
+    public get id(): string {
+        return "$Triggers";
+    }
+
+    public get label(): string {
+        return "Triggers";
+    }
+
+    public get link(): string {
+        return this.parent.link;
+    }
+
+    public getIterator(client: CosmosClient, feedOptions: FeedOptions): QueryIterator<TriggerDefinition & Resource> {
+        return this.getContainerClient(client).scripts.triggers.readAll(feedOptions);
+    }
+
+    public getContainerClient(client: CosmosClient): Container {
+        return this.parent.getContainerClient(client);
+    }
+}
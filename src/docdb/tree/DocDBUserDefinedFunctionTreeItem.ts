@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Resource, UserDefinedFunctionDefinition } from '@azure/cosmos';
+import * as vscode from "vscode";
+import { AzureTreeItem, DialogResponses, IActionContext, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
+import { IEditableTreeItem } from '../../DatabasesFileSystem';
+import { ext } from '../../extensionVariables';
+import { nonNullProp } from '../../utils/nonNull';
+import { DocDBUserDefinedFunctionsTreeItem } from './DocDBUserDefinedFunctionsTreeItem';
+import { IDocDBTreeRoot } from './IDocDBTreeRoot';
+
+/**
+ * Represents a Cosmos DB DocumentDB (SQL) user defined function
+ */
+export class DocDBUserDefinedFunctionTreeItem extends AzureTreeItem<IDocDBTreeRoot> implements IEditableTreeItem {
+    public static contextValue: string = "cosmosDBUserDefinedFunction";
+    public readonly contextValue: string = DocDBUserDefinedFunctionTreeItem.contextValue;
+    public readonly commandId: string = 'cosmosDB.openUserDefinedFunction';
+    public readonly cTime: number = Date.now();
+    public readonly parent: DocDBUserDefinedFunctionsTreeItem;
+    public mTime: number = Date.now();
+
+    constructor(parent: DocDBUserDefinedFunctionsTreeItem, public userDefinedFunction: (UserDefinedFunctionDefinition & Resource)) {
+        super(parent);
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public get filePath(): string {
+        return this.label + '-cosmos-udf.js';
+    }
+
+    public get id(): string {
+        return this.userDefinedFunction.id;
+    }
+
+    public get label(): string {
+        return this.userDefinedFunction.id;
+    }
+
+    public get link(): string {
+        return this.userDefinedFunction._self;
+    }
+
+    public async getFileContent(): Promise<string> {
+        return typeof this.userDefinedFunction.body === 'string' ? this.userDefinedFunction.body : '';
+    }
+
+    public async refreshImpl(): Promise<void> {
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public async writeFileContent(_context: IActionContext, content: string): Promise<void> {
+        const client = this.root.getCosmosClient();
+        const replace = await this.parent.getContainerClient(client).scripts.userDefinedFunction(this.id).replace({ id: this.id, body: content });
+        this.userDefinedFunction = nonNullProp(replace, 'resource');
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('symbol-function');
+    }
+
+    public async deleteTreeItemImpl(): Promise<void> {
+        const message: string = `Are you sure you want to delete user defined function '${this.label}'?`;
+        const result = await vscode.window.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        if (result === DialogResponses.deleteResponse) {
+            const client = this.root.getCosmosClient();
+            await this.parent.getContainerClient(client).scripts.userDefinedFunction(this.id).delete();
+        } else {
+            throw new UserCancelledError();
+        }
+    }
+}
@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Container, CosmosClient, FeedOptions, QueryIterator, Resource, UserDefinedFunctionDefinition } from '@azure/cosmos';
+import * as vscode from "vscode";
+import { AzExtTreeItem, ICreateChildImplContext, TreeItemIconPath } from 'vscode-azureextensionui';
+import { defaultUserDefinedFunction } from '../../constants';
+import { ext } from '../../extensionVariables';
+import { nonNullProp } from '../../utils/nonNull';
+import { validateScriptId } from '../validateScriptId';
+import { DocDBCollectionTreeItem } from './DocDBCollectionTreeItem';
+import { DocDBTreeItemBase } from './DocDBTreeItemBase';
+import { DocDBUserDefinedFunctionTreeItem } from './DocDBUserDefinedFunctionTreeItem';
+
+/**
+ * This class represents the DocumentDB "User Defined Functions" node in the tree
+ */
+export class DocDBUserDefinedFunctionsTreeItem extends DocDBTreeItemBase<UserDefinedFunctionDefinition> {
+
+    public static contextValue: string = "cosmosDBUserDefinedFunctionsGroup";
+    public readonly contextValue: string = DocDBUserDefinedFunctionsTreeItem.contextValue;
+    public readonly childTypeLabel: string = "User Defined Function";
+    public readonly parent: DocDBCollectionTreeItem;
+
+    constructor(parent: DocDBCollectionTreeItem) {
+        super(parent);
+    }
+
+    public initChild(resource: UserDefinedFunctionDefinition & Resource): DocDBUserDefinedFunctionTreeItem {
+        return new DocDBUserDefinedFunctionTreeItem(this, resource);
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('symbol-function');
+    }
+
+    public async createChildImpl(context: ICreateChildImplContext): Promise<DocDBUserDefinedFunctionTreeItem> {
+        const client = this.root.getCosmosClient();
+        const currFunctionList: AzExtTreeItem[] = await this.getCachedChildren(context);
+        const currFunctionNames: string[] = [];
+        for (const udf of currFunctionList) {
+            currFunctionNames.push(nonNullProp(udf, "id"));
+        }
+        const udfID = (await ext.ui.showInputBox({
+            prompt: "Enter a unique user defined function ID",
+            validateInput: (name: string) => validateScriptId(name, currFunctionNames, this.childTypeLabel)
+        })).trim();
+        const body: UserDefinedFunctionDefinition = { id: udfID, body: defaultUserDefinedFunction };
+        context.showCreatingTreeItem(udfID);
+        const udf = await this.getContainerClient(client).scripts.userDefinedFunctions.create(body);
+
+        return this.initChild(nonNullProp(udf, 'resource'));
+    }
+
+    public get id(): string {
+        return "$UserDefinedFunctions";
+    }
+
+    public get label(): string {
+        return "User Defined Functions";
+    }
+
+    public get link(): string {
+        return this.parent.link;
+    }
+
+    public getIterator(client: CosmosClient, feedOptions: FeedOptions): QueryIterator<UserDefinedFunctionDefinition & Resource> {
+        return this.getContainerClient(client).scripts.userDefinedFunctions.readAll(feedOptions);
+    }
+
+    public getContainerClient(client: CosmosClient): Container {
+        return this.parent.getContainerClient(client);
+    }
+}
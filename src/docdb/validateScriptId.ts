@@ -0,0 +1,27 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from "../utils/localize";
+
+/**
+ * Validates the id of a server-side script (stored procedure, trigger or user defined function)
+ */
+export function validateScriptId(name: string, existingNames: string[], scriptTypeLabel: string): string | undefined {
+    if (name.length < 1 || name.length > 255) {
+        return localize("nameLength", "Name has to be between 1 and 255 chars long");
+    }
+
+    if (/[/\\?#&]/.test(name)) {
+        return localize("illegalChars", "Name contains illegal chars: /, \\, ?, #, &");
+    }
+    if (name[name.length - 1] === " ") {
+        return localize("endsWithSpace", "Name cannot end with a space.");
+    }
+    if (existingNames.includes(name)) {
+        return localize('nameExists', '{0} "{1}" already exists.', scriptTypeLabel, name);
+    }
+
+    return undefined;
+}
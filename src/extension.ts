@@ -12,6 +12,10 @@ import { AzureExtensionApi, AzureExtensionApiProvider } from 'vscode-azureextens
 import { findTreeItem } from './commands/api/findTreeItem';
 import { pickTreeItem } from './commands/api/pickTreeItem';
 import { revealTreeItem } from './commands/api/revealTreeItem';
+import { analyzeSchema } from './commands/analyzeSchema';
+import { copyCollection } from './commands/copyCollection';
+import { exportDocuments } from './commands/exportDocuments';
+import { generateTypeScriptInterface } from './commands/generateTypeScriptInterface';
 import { importDocuments } from './commands/importDocuments';
 import { doubleClickDebounceDelay } from './constants';
 import { DatabasesFileSystem } from './DatabasesFileSystem';
@@ -126,6 +130,10 @@ export async function activateInternal(context: vscode.ExtensionContext, perfSta
                 await importDocuments(actionContext, undefined, selectedNode);
             }
         });
+        registerCommand('cosmosDB.exportDocuments', exportDocuments);
+        registerCommand('cosmosDB.copyCollection', copyCollection);
+        registerCommand('cosmosDB.analyzeSchema', analyzeSchema);
+        registerCommand('cosmosDB.generateTypeScriptInterface', generateTypeScriptInterface);
         registerCommand('azureDatabases.openInPortal', async (actionContext: IActionContext, node?: AzureTreeItem) => {
             if (!node) {
                 node = await ext.tree.showTreeItemPicker<AzureTreeItem>(allAccountsTopLevelContextValues, actionContext);
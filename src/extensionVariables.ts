@@ -6,6 +6,9 @@
 import { ExtensionContext, TreeView } from "vscode";
 import { AzExtTreeDataProvider, AzExtTreeItem, IAzExtOutputChannel, IAzureUserInput } from "vscode-azureextensionui";
 import { DatabasesFileSystem } from "./DatabasesFileSystem";
+import { CosmosDiagnostics } from "./docdb/services/CosmosDiagnostics";
+import { NoSqlCodeLensProvider } from "./docdb/services/NoSqlCodeLensProvider";
+import { DocDBCollectionTreeItem } from "./docdb/tree/DocDBCollectionTreeItem";
 import { MongoDatabaseTreeItem } from "./mongo/tree/MongoDatabaseTreeItem";
 import { PostgresCodeLensProvider } from "./postgres/services/PostgresCodeLensProvider";
 import { PostgresDatabaseTreeItem } from "./postgres/tree/PostgresDatabaseTreeItem";
@@ -19,6 +22,7 @@ import { KeyTar } from "./utils/keytar";
 export namespace ext {
     export let connectedMongoDB: MongoDatabaseTreeItem | undefined;
     export let connectedPostgresDB: PostgresDatabaseTreeItem | undefined;
+    export let connectedNoSqlContainer: DocDBCollectionTreeItem | undefined;
     export let ui: IAzureUserInput;
     export let context: ExtensionContext;
     export let outputChannel: IAzExtOutputChannel;
@@ -29,6 +33,8 @@ export namespace ext {
     export let azureAccountTreeItem: AzureAccountTreeItemWithAttached;
     export let keytar: KeyTar | undefined;
     export let postgresCodeLensProvider: PostgresCodeLensProvider | undefined;
+    export let noSqlCodeLensProvider: NoSqlCodeLensProvider | undefined;
+    export let cosmosDiagnostics: CosmosDiagnostics | undefined;
     export const prefix: string = 'azureDatabases';
     export let fileSystem: DatabasesFileSystem;
 
@@ -38,6 +44,9 @@ export namespace ext {
         export const documentLabelFields = 'cosmosDB.documentLabelFields';
         export const mongoShellTimeout = 'mongo.shell.timeout';
         export const batchSize = 'azureDatabases.batchSize';
+        export const importBatchSize = 'azureDatabases.importBatchSize';
+        export const importErrorHandling = 'azureDatabases.importErrorHandling';
+        export const schemaSampleSize = 'azureDatabases.schemaSampleSize';
 
         export namespace vsCode {
             export const proxyStrictSSL = "http.proxyStrictSSL";
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { Container, ContainerDefinition, CosmosClient, Resource } from '@azure/cosmos';
+import { Container, ContainerDefinition, CosmosClient, PartitionKeyDefinition, Resource } from '@azure/cosmos';
 import * as vscode from 'vscode';
 import { AzureParentTreeItem, AzureTreeItem, DialogResponses, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
 import { DocDBStoredProceduresTreeItem } from '../../docdb/tree/DocDBStoredProceduresTreeItem';
@@ -41,6 +41,14 @@ export class GraphCollectionTreeItem extends AzureParentTreeItem<IDocDBTreeRoot>
         return this._collection._self;
     }
 
+    public get rid(): string {
+        return this._collection._rid;
+    }
+
+    public get partitionKey(): PartitionKeyDefinition | undefined {
+        return this._collection.partitionKey;
+    }
+
     public get iconPath(): TreeItemIconPath {
         return new vscode.ThemeIcon('files');
     }
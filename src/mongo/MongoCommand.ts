@@ -15,6 +15,21 @@ export interface MongoCommand {
     argumentObjects?: Object[];
     errors?: ErrorDescription[];
     chained?: boolean;
+    /**
+     * The function calls of the command in order, e.g. "find", "sort" and "limit" for `db.c.find({}).sort({a: 1}).limit(10)`.
+     * `name` is the name of the last call, and `arguments` and `argumentObjects` have the arguments of all the calls
+     */
+    functionCalls?: MongoFunctionCall[];
+    /**
+     * True if the command is a JavaScript statement of a script, e.g. `const cutoff = new Date()`, rather than a Mongo command
+     */
+    script?: boolean;
+}
+
+export interface MongoFunctionCall {
+    name: string;
+    arguments: string[];
+    argumentObjects: Object[];
 }
 
 export interface ErrorDescription {
@@ -8,7 +8,6 @@ import { CommonTokenStream } from 'antlr4ts/CommonTokenStream';
 import { ErrorNode } from 'antlr4ts/tree/ErrorNode';
 import { ParseTree } from 'antlr4ts/tree/ParseTree';
 import { TerminalNode } from 'antlr4ts/tree/TerminalNode';
-import { ObjectID } from 'bson';
 import { Collection } from 'mongodb';
 import { EOL } from 'os';
 import * as vscode from 'vscode';
@@ -17,12 +16,16 @@ import { ext } from '../extensionVariables';
 import { filterType, findType } from '../utils/array';
 import { localize } from '../utils/localize';
 import { nonNullProp, nonNullValue } from '../utils/nonNull';
+import { getBatchSizeSetting } from '../utils/workspacUtils';
 import { LexerErrorListener, ParserErrorListener } from './errorListeners';
 import { mongoLexer } from './grammar/mongoLexer';
 import * as mongoParser from './grammar/mongoParser';
 import { MongoVisitor } from './grammar/visitors';
 import { ErrorDescription, MongoCommand } from './MongoCommand';
-import { MongoCollectionTreeItem } from './tree/MongoCollectionTreeItem';
+import { MongoScriptSandbox } from './script/MongoScriptSandbox';
+import { IScriptStatement, splitStatements } from './script/splitStatements';
+import { convertShellHelper } from './shellHelpers';
+import { getFindCommand, IMongoFindCommand, MongoCollectionTreeItem } from './tree/MongoCollectionTreeItem';
 import { MongoDatabaseTreeItem, stripQuotes } from './tree/MongoDatabaseTreeItem';
 import { IMongoDocument, MongoDocumentTreeItem } from './tree/MongoDocumentTreeItem';
 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
@@ -30,6 +33,23 @@ const EJSON = require("mongodb-extended-json");
 
 const notInScrapbookMessage = "You must have a MongoDB scrapbook (*.mongo) open to run a MongoDB command.";
 
+/**
+ * Statements starting with these words are JavaScript, even if they aren't valid yet (e.g. while typing `const cutoff = `)
+ */
+const scriptKeywordRegExp = /^(const|let|var|if|for|while|do|switch|try|function|async|class|await|print|printjson)\b/;
+
+/**
+ * Statements of scripts that may change the collections of the database, so that the tree is refreshed after they run
+ */
+const scriptWriteRegExp = /\.(insert|update|delete|replace|remove|bulkWrite|findOneAnd|drop|create|rename)/;
+
+interface IScriptSandbox {
+    databaseId: string;
+    sandbox: MongoScriptSandbox;
+}
+
+const scriptSandboxes: Map<string, IScriptSandbox> = new Map<string, IScriptSandbox>();
+
 export function getAllErrorsFromTextDocument(document: vscode.TextDocument): vscode.Diagnostic[] {
     const commands = getAllCommandsFromTextDocument(document);
     const errors: vscode.Diagnostic[] = [];
@@ -45,20 +65,23 @@ export function getAllErrorsFromTextDocument(document: vscode.TextDocument): vsc
 
 export async function executeAllCommandsFromActiveEditor(context: IActionContext): Promise<void> {
     ext.outputChannel.appendLog("Executing all commands in scrapbook...");
-    const commands = getAllCommandsFromActiveEditor();
-    await executeCommands(context, commands);
+    const document = getActiveDocument();
+    // Run the statements of a script from the start, without the variables of previous runs
+    scriptSandboxes.delete(document.uri.toString());
+    await executeCommands(context, getAllCommandsFromTextDocument(document), document.uri);
 }
 
 export async function executeCommandFromActiveEditor(context: IActionContext, position?: vscode.Position): Promise<void> {
-    const commands = getAllCommandsFromActiveEditor();
+    const document = getActiveDocument();
+    const commands = getAllCommandsFromTextDocument(document);
     const command = findCommandAtPosition(commands, position || vscode.window.activeTextEditor?.selection.start);
-    return await executeCommand(context, command);
+    return await executeCommand(context, command, document.uri);
 }
 
-function getAllCommandsFromActiveEditor(): MongoCommand[] {
+function getActiveDocument(): vscode.TextDocument {
     const activeEditor = vscode.window.activeTextEditor;
     if (activeEditor) {
-        return getAllCommandsFromTextDocument(activeEditor.document);
+        return activeEditor.document;
     } else {
         // Shouldn't be able to reach this
         throw new Error(notInScrapbookMessage);
@@ -69,14 +92,14 @@ export function getAllCommandsFromTextDocument(document: vscode.TextDocument): M
     return getAllCommandsFromText(document.getText());
 }
 
-async function executeCommands(context: IActionContext, commands: MongoCommand[]): Promise<void> {
+async function executeCommands(context: IActionContext, commands: MongoCommand[], documentUri: vscode.Uri): Promise<void> {
     const label: string = 'Scrapbook-execute-all-results';
     const fullId: string = `${ext.connectedMongoDB?.fullId}/${label}`;
     const readOnlyContent: ReadOnlyContent = await openReadOnlyContent({ label, fullId }, '', '.txt', { viewColumn: vscode.ViewColumn.Beside });
 
     for (const command of commands) {
         try {
-            await executeCommand(context, command, readOnlyContent);
+            await executeCommand(context, command, documentUri, readOnlyContent);
         } catch (e) {
             const err = parseError(e);
             if (err.isUserCancelledError) {
@@ -89,10 +112,10 @@ async function executeCommands(context: IActionContext, commands: MongoCommand[]
     }
 }
 
-async function executeCommand(context: IActionContext, command: MongoCommand, readOnlyContent?: ReadOnlyContent): Promise<void> {
+async function executeCommand(context: IActionContext, command: MongoCommand, documentUri: vscode.Uri, readOnlyContent?: ReadOnlyContent): Promise<void> {
     if (command) {
         try {
-            context.telemetry.properties.command = command.name;
+            context.telemetry.properties.command = command.script ? 'script' : command.name;
             context.telemetry.properties.argsCount = String(command.arguments ? command.arguments.length : 0);
         } catch (error) {
             // Ignore
@@ -108,14 +131,27 @@ async function executeCommand(context: IActionContext, command: MongoCommand, re
             throw new Error(localize('unableToParseSyntax', `Unable to parse syntax. Error near line ${err.range.start.line + 1}, column ${err.range.start.character + 1}: "${err.message}"`));
         }
 
-        // we don't handle chained commands so we can only handle "find" if isn't chained
-        if (command.name === 'find' && !command.chained) {
+        if (command.script) {
+            const sandbox = await getScriptSandbox(database, documentUri);
+            const result = await sandbox.run(command.text);
+            if (result !== undefined) {
+                await showResult(database, result, readOnlyContent);
+            }
+            if (scriptWriteRegExp.test(command.text)) {
+                await database.refresh(context);
+            }
+            return;
+        }
+
+        // "find" and the cursor methods chained to it are shown in an editable view, except when counting the documents
+        const findCommand: IMongoFindCommand | undefined = command.collection ? getFindCommand(command) : undefined;
+        if (findCommand && !findCommand.isCount) {
             const db = await database.connectToDb();
             const collectionName: string = nonNullProp(command, 'collection');
             const collection: Collection = db.collection(collectionName);
             // NOTE: Intentionally creating a _new_ tree item rather than searching for a cached node in the tree because
-            // the executed 'find' command could have a filter or projection that is not handled by a cached tree node
-            const node = new MongoCollectionTreeItem(database, collection, command.argumentObjects);
+            // the executed 'find' command could have a filter, projection or cursor options that are not handled by a cached tree node
+            const node = new MongoCollectionTreeItem(database, collection, findCommand.findArgs, findCommand.cursorOptions);
             await ext.fileSystem.showTextDocument(node, { viewColumn: vscode.ViewColumn.Beside });
         } else {
             const result = await database.executeCommand(command, context);
@@ -136,14 +172,7 @@ async function executeCommand(context: IActionContext, command: MongoCommand, re
                 const docNode = new MongoDocumentTreeItem(colNode, document);
                 await ext.fileSystem.showTextDocument(docNode, { viewColumn: vscode.ViewColumn.Beside });
             } else {
-                if (readOnlyContent) {
-                    await readOnlyContent.append(`${result}${EOL}${EOL}`);
-                } else {
-                    const label: string = 'Scrapbook-results';
-                    const fullId: string = `${database.fullId}/${label}`;
-                    await openReadOnlyContent({ label, fullId }, result, '.json', { viewColumn: vscode.ViewColumn.Beside });
-                }
-
+                await showResult(database, result, readOnlyContent);
                 await refreshTreeAfterCommand(database, command, context);
             }
         }
@@ -152,10 +181,33 @@ async function executeCommand(context: IActionContext, command: MongoCommand, re
     }
 }
 
+async function showResult(database: MongoDatabaseTreeItem, result: string, readOnlyContent?: ReadOnlyContent): Promise<void> {
+    if (readOnlyContent) {
+        await readOnlyContent.append(`${result}${EOL}${EOL}`);
+    } else {
+        const label: string = 'Scrapbook-results';
+        const fullId: string = `${database.fullId}/${label}`;
+        await openReadOnlyContent({ label, fullId }, result, '.json', { viewColumn: vscode.ViewColumn.Beside });
+    }
+}
+
+/**
+ * Gets the sandbox that runs the JavaScript statements of a scrapbook, which keeps their variables until all the statements are run again or another database is connected
+ */
+async function getScriptSandbox(database: MongoDatabaseTreeItem, documentUri: vscode.Uri): Promise<MongoScriptSandbox> {
+    const key = documentUri.toString();
+    let scriptSandbox = scriptSandboxes.get(key);
+    if (!scriptSandbox || scriptSandbox.databaseId !== database.fullId) {
+        scriptSandbox = { databaseId: database.fullId, sandbox: new MongoScriptSandbox(await database.connectToDb(), getBatchSizeSetting()) };
+        scriptSandboxes.set(key, scriptSandbox);
+    }
+    return scriptSandbox.sandbox;
+}
+
 async function refreshTreeAfterCommand(database: MongoDatabaseTreeItem, command: MongoCommand, context: IActionContext): Promise<void> {
     if (command.name === 'drop') {
         await database.refresh(context);
-    } else if (command.collection && command.name && /^(insert|update|delete|replace|remove|write|bulkWrite)/i.test(command.name)) {
+    } else if (command.collection && command.name && /^(insert|update|delete|replace|remove|write|bulkWrite|findOneAnd)/i.test(command.name)) {
         const collectionNode = await ext.tree.findTreeItem(database.fullId + "/" + command.collection, context);
         if (collectionNode) {
             await collectionNode.refresh(context);
@@ -164,6 +216,59 @@ async function refreshTreeAfterCommand(database: MongoDatabaseTreeItem, command:
 }
 
 export function getAllCommandsFromText(content: string): MongoCommand[] {
+    const statements = splitStatements(content);
+    if (statements.some(statement => isScriptStatement(statement.text))) {
+        return statements.map(statement => getCommandFromStatement(content, statement));
+    }
+    return getAllMongoCommandsFromText(content);
+}
+
+/**
+ * Statements that aren't Mongo commands, such as `const cutoff = new Date()`, make the scrapbook a script.
+ * Other text is left to the Mongo grammar, so that its errors are reported as before
+ */
+function isScriptStatement(text: string): boolean {
+    if (/^db\b/.test(text)) {
+        return false;
+    } else if (scriptKeywordRegExp.test(text)) {
+        return true;
+    }
+
+    try {
+        MongoScriptSandbox.validateStatement(text);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Gets the command for a statement of a script. Statements that are Mongo commands are run as such, and the others run as JavaScript
+ */
+function getCommandFromStatement(content: string, statement: IScriptStatement): MongoCommand {
+    const range = new vscode.Range(positionAt(content, statement.start), positionAt(content, statement.end));
+    if (!isScriptStatement(statement.text)) {
+        const commands = getAllMongoCommandsFromText(statement.text);
+        if (commands.length === 1 && !commands[0].errors) {
+            return { ...commands[0], range };
+        }
+    }
+
+    const command: MongoCommand = { range, text: statement.text, script: true };
+    try {
+        MongoScriptSandbox.validateStatement(statement.text);
+    } catch (error) {
+        command.errors = [{ range, message: parseError(error).message }];
+    }
+    return command;
+}
+
+function positionAt(content: string, offset: number): vscode.Position {
+    const lines = content.substring(0, offset).split(/\r\n|\r|\n/);
+    return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+}
+
+function getAllMongoCommandsFromText(content: string): MongoCommand[] {
     const lexer = new mongoLexer(new InputStream(content));
     const lexerListener = new LexerErrorListener();
     lexer.removeErrorListeners(); // Default listener outputs to the console
@@ -237,7 +342,8 @@ class FindMongoCommandsVisitor extends MongoVisitor<MongoCommand[]> {
             name: '',
             arguments: [],
             argumentObjects: [],
-            chained: funcCallCount > 1 ? true : false
+            chained: funcCallCount > 1 ? true : false,
+            functionCalls: []
         });
         return super.visitCommand(ctx);
     }
@@ -249,7 +355,9 @@ class FindMongoCommandsVisitor extends MongoVisitor<MongoCommand[]> {
 
     public visitFunctionCall(ctx: mongoParser.FunctionCallContext): MongoCommand[] {
         if (ctx.parent instanceof mongoParser.CommandContext) {
-            this.commands[this.commands.length - 1].name = (ctx._FUNCTION_NAME && ctx._FUNCTION_NAME.text) || "";
+            const lastCommand = this.commands[this.commands.length - 1];
+            lastCommand.name = (ctx._FUNCTION_NAME && ctx._FUNCTION_NAME.text) || "";
+            nonNullProp(lastCommand, 'functionCalls').push({ name: lastCommand.name, arguments: [], argumentObjects: [] });
         }
         return super.visitFunctionCall(ctx);
     }
@@ -265,6 +373,9 @@ class FindMongoCommandsVisitor extends MongoVisitor<MongoCommand[]> {
                     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
                     const argText = EJSON.stringify(argAsObject);
                     nonNullProp(lastCommand, 'arguments').push(argText);
+                    const functionCalls = nonNullProp(lastCommand, 'functionCalls');
+                    const functionCall = functionCalls[functionCalls.length - 1];
+                    functionCall.arguments.push(argText);
                     const escapeHandled = this.deduplicateEscapesForRegex(argText);
                     let ejsonParsed = {};
                     try {
@@ -275,6 +386,7 @@ class FindMongoCommandsVisitor extends MongoVisitor<MongoCommand[]> {
                         this.addErrorToCommand(parsedError.message, ctx);
                     }
                     nonNullProp(lastCommand, 'argumentObjects').push(ejsonParsed);
+                    functionCall.argumentObjects.push(ejsonParsed);
                 }
             }
         } catch (error) {
@@ -364,83 +476,14 @@ class FindMongoCommandsVisitor extends MongoVisitor<MongoCommand[]> {
         }
 
         const argumentContextArray: mongoParser.ArgumentContext[] = filterType(argumentsToken.children, mongoParser.ArgumentContext);
-        if (argumentContextArray.length > 1) {
-            this.addErrorToCommand(`Too many arguments. Expecting 0 or 1 argument(s) to ${constructorCall}`, ctx);
+        const args: Object[] = argumentContextArray.map(argumentContext => this.contextToObject(argumentContext));
+        try {
+            return convertShellHelper(constructorCall.text, args);
+        } catch (error) {
+            const parsedError: IParsedError = parseError(error);
+            this.addErrorToCommand(parsedError.message, ctx);
             return {};
         }
-
-        const tokenText: string | undefined = argumentContextArray.length ? argumentContextArray[0].text : undefined;
-        switch (constructorCall.text) {
-            case 'ObjectId':
-                return this.objectIdToObject(ctx, tokenText);
-            case 'ISODate':
-                return this.isodateToObject(ctx, tokenText);
-            case 'Date':
-                return this.dateToObject(ctx, tokenText);
-            default:
-                this.addErrorToCommand(`Unrecognized node type encountered. Could not parse ${constructorCall.text} as part of ${child.text}`, ctx);
-                return {};
-        }
-    }
-
-    private dateToObject(ctx: mongoParser.ArgumentContext | mongoParser.PropertyValueContext, tokenText?: string): { $date: string } | {} {
-        const date: Date | {} = this.tryToConstructDate(ctx, tokenText);
-        if (date instanceof Date) {
-            return { $date: date.toString() };
-        } else {
-            return date;
-        }
-    }
-
-    private isodateToObject(ctx: mongoParser.ArgumentContext | mongoParser.PropertyValueContext, tokenText?: string): { $date: string } | {} {
-        const date: Date | {} = this.tryToConstructDate(ctx, tokenText, true);
-
-        if (date instanceof Date) {
-            return { $date: date.toISOString() };
-        } else {
-            return date;
-        }
-    }
-
-    private tryToConstructDate(ctx: mongoParser.ArgumentContext | mongoParser.PropertyValueContext, tokenText?: string, isIsodate: boolean = false): Date | {} {
-        if (!tokenText) { // usage : ObjectID()
-            return new Date();
-        } else {
-            try {
-                tokenText = stripQuotes(tokenText);
-
-                // if the tokenText was an isodate, the last char must be Z
-                if (isIsodate) {
-                    if (tokenText[tokenText.length - 1] !== 'Z') {
-                        tokenText += 'Z';
-                    }
-                }
-
-                return new Date(tokenText);
-            } catch (error) {
-                const parsedError: IParsedError = parseError(error);
-                this.addErrorToCommand(parsedError.message, ctx);
-                return {};
-            }
-        }
-    }
-
-    private objectIdToObject(ctx: mongoParser.ArgumentContext | mongoParser.PropertyValueContext, tokenText?: string): Object {
-        let hexID: string;
-        let constructedObject: ObjectID;
-        if (!tokenText) { // usage : ObjectID()
-            constructedObject = new ObjectID();
-        } else {
-            hexID = stripQuotes(<string>tokenText);
-            try {
-                constructedObject = new ObjectID(hexID);
-            } catch (error) {
-                const parsedError: IParsedError = parseError(error);
-                this.addErrorToCommand(parsedError.message, ctx);
-                return {};
-            }
-        }
-        return { $oid: constructedObject.toString() };
     }
 
     private regexLiteralContextToObject(ctx: mongoParser.ArgumentContext | mongoParser.PropertyValueContext, text: string): Object {
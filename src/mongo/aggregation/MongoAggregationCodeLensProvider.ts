@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { callWithTelemetryAndErrorHandling, IActionContext } from 'vscode-azureextensionui';
+import { ASTNode, getLanguageService, LanguageService as JsonLanguageService, TextDocument } from 'vscode-json-languageservice';
+import { localize } from '../../utils/localize';
+
+/**
+ * Shows commands to export an aggregation pipeline and to preview the output of each of its stages
+ */
+export class MongoAggregationCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly _jsonLanguageService: JsonLanguageService = getLanguageService({});
+
+    public provideCodeLenses(document: vscode.TextDocument, _token: vscode.CancellationToken): vscode.ProviderResult<vscode.CodeLens[]> {
+        return callWithTelemetryAndErrorHandling('mongo.provideAggregationCodeLenses', (context: IActionContext) => {
+            // Suppress except for errors - this can fire on every keystroke
+            context.telemetry.suppressIfSuccessful = true;
+
+            const start: vscode.Range = new vscode.Range(0, 0, 0, 0);
+            const lenses: vscode.CodeLens[] = [
+                new vscode.CodeLens(start, { title: localize('exportToScrapbook', 'Export to Scrapbook'), command: 'cosmosDB.exportMongoAggregation', arguments: [document.uri, 'scrapbook'] }),
+                new vscode.CodeLens(start, { title: localize('exportAsJavaScript', 'Export as JavaScript'), command: 'cosmosDB.exportMongoAggregation', arguments: [document.uri, 'javascript'] }),
+                new vscode.CodeLens(start, { title: localize('exportAsTypeScript', 'Export as TypeScript'), command: 'cosmosDB.exportMongoAggregation', arguments: [document.uri, 'typescript'] })
+            ];
+
+            const jsonDocument: TextDocument = TextDocument.create(document.uri.toString(), 'json', document.version, document.getText());
+            const root: ASTNode | undefined = (<{ root?: ASTNode }>this._jsonLanguageService.parseJSONDocument(jsonDocument)).root;
+            if (root && root.type === 'array') {
+                root.items.forEach((stage: ASTNode, i: number) => {
+                    const stageName: string | undefined = stage.type === 'object' && stage.properties.length === 1 ? stage.properties[0].keyNode.value : undefined;
+                    lenses.push(new vscode.CodeLens(new vscode.Range(document.positionAt(stage.offset), document.positionAt(stage.offset + stage.length)), {
+                        title: stageName ?
+                            localize('previewStageName', 'Preview output of stage {0} ({1})', i + 1, stageName) :
+                            localize('previewStage', 'Preview output of stage {0}', i + 1),
+                        command: 'cosmosDB.previewMongoAggregationStage',
+                        arguments: [document.uri, i]
+                    }));
+                });
+            }
+
+            return lenses;
+        });
+    }
+}
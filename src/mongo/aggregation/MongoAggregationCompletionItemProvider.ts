@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { getLanguageService, LanguageService as JsonLanguageService, TextDocument } from 'vscode-json-languageservice';
+import { createConverter } from 'vscode-languageclient/lib/protocolConverter';
+import { SchemaService } from '../services/schemaService';
+import { MongoDatabaseTreeItem } from '../tree/MongoDatabaseTreeItem';
+import { IAggregationBuilder, MongoAggregationFileSystem } from './MongoAggregationFileSystem';
+
+/**
+ * Completes stage operators, query operators and the fields of the collection in an aggregation builder,
+ * using the same schemas as the aggregate commands in Mongo scrapbooks
+ */
+export class MongoAggregationCompletionItemProvider implements vscode.CompletionItemProvider {
+    private readonly _fileSystem: MongoAggregationFileSystem;
+    private readonly _languageServices: Map<string, Promise<JsonLanguageService>> = new Map<string, Promise<JsonLanguageService>>();
+
+    constructor(fileSystem: MongoAggregationFileSystem) {
+        this._fileSystem = fileSystem;
+    }
+
+    public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionList | vscode.CompletionItem[] | undefined> {
+        const jsonLanguageService: JsonLanguageService = await this.getLanguageService(document.uri);
+        const jsonDocument: TextDocument = TextDocument.create(document.uri.toString(), 'json', document.version, document.getText());
+        const result = await jsonLanguageService.doComplete(jsonDocument, { line: position.line, character: position.character }, jsonLanguageService.parseJSONDocument(jsonDocument));
+        return createConverter().asCompletionResult(result);
+    }
+
+    private async getLanguageService(uri: vscode.Uri): Promise<JsonLanguageService> {
+        let languageService: Promise<JsonLanguageService> | undefined = this._languageServices.get(uri.toString());
+        if (!languageService) {
+            languageService = this.createLanguageService(uri, this._fileSystem.getBuilder(uri));
+            this._languageServices.set(uri.toString(), languageService);
+            // Try again next time if connecting to the database fails
+            languageService.catch(() => this._languageServices.delete(uri.toString()));
+        }
+        return await languageService;
+    }
+
+    private async createLanguageService(uri: vscode.Uri, builder: IAggregationBuilder): Promise<JsonLanguageService> {
+        const schemaService: SchemaService = new SchemaService();
+        await schemaService.registerSchemas(await (<MongoDatabaseTreeItem>builder.collectionNode.parent).connectToDb());
+        const jsonLanguageService: JsonLanguageService = getLanguageService({
+            schemaRequestService: schemaUri => schemaService.resolveSchema(schemaUri)
+        });
+        jsonLanguageService.configure({
+            schemas: [{ uri: schemaService.aggregateCollectionSchema(builder.collectionName), fileMatch: [uri.toString()] }]
+        });
+        return jsonLanguageService;
+    }
+}
@@ -0,0 +1,111 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { localize } from '../../utils/localize';
+import { MongoCollectionTreeItem } from '../tree/MongoCollectionTreeItem';
+import { MongoDatabaseTreeItem } from '../tree/MongoDatabaseTreeItem';
+
+const defaultPipeline: string = `[
+    {
+        "$match": {}
+    }
+]
+`;
+
+export interface IAggregationBuilder {
+    collectionNode: MongoCollectionTreeItem;
+    databaseName: string;
+    collectionName: string;
+    content: string;
+    ctime: number;
+    mtime: number;
+}
+
+/**
+ * Keeps the aggregation pipelines being built for Mongo collections in memory, so that they can be edited like files without being saved to the workspace
+ */
+export class MongoAggregationFileSystem implements vscode.FileSystemProvider {
+    public static scheme: string = 'mongoAggregation';
+
+    private readonly _emitter: vscode.EventEmitter<vscode.FileChangeEvent[]> = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    private readonly _builders: Map<string, IAggregationBuilder> = new Map<string, IAggregationBuilder>();
+    private readonly _paths: Map<string, string> = new Map<string, string>();
+
+    public get onDidChangeFile(): vscode.Event<vscode.FileChangeEvent[]> {
+        return this._emitter.event;
+    }
+
+    /**
+     * Returns the uri of the aggregation builder for a collection, creating it with a default pipeline the first time
+     */
+    public getUri(collectionNode: MongoCollectionTreeItem): vscode.Uri {
+        let path: string | undefined = this._paths.get(collectionNode.fullId);
+        if (!path) {
+            const databaseName: string = (<MongoDatabaseTreeItem>collectionNode.parent).databaseName;
+            const basePath: string = `/${databaseName}/${collectionNode.label}-aggregation`;
+            path = `${basePath}.json`;
+            // Collections with the same name can be in different accounts
+            for (let i: number = 2; this._builders.has(path); i++) {
+                path = `${basePath}-${i}.json`;
+            }
+
+            this._paths.set(collectionNode.fullId, path);
+            this._builders.set(path, { collectionNode, databaseName, collectionName: collectionNode.label, content: defaultPipeline, ctime: Date.now(), mtime: Date.now() });
+        } else {
+            // Use the latest instance of the tree item, e.g. after the collection was refreshed
+            this.getBuilderFromPath(path).collectionNode = collectionNode;
+        }
+        return vscode.Uri.parse(`${MongoAggregationFileSystem.scheme}:${path}`);
+    }
+
+    public getBuilder(uri: vscode.Uri): IAggregationBuilder {
+        return this.getBuilderFromPath(uri.path);
+    }
+
+    public watch(): vscode.Disposable {
+        return new vscode.Disposable(() => { /* Changes are only made through this file system */ });
+    }
+
+    public stat(uri: vscode.Uri): vscode.FileStat {
+        const builder: IAggregationBuilder = this.getBuilder(uri);
+        return { type: vscode.FileType.File, ctime: builder.ctime, mtime: builder.mtime, size: Buffer.byteLength(builder.content) };
+    }
+
+    public readFile(uri: vscode.Uri): Uint8Array {
+        return Buffer.from(this.getBuilder(uri).content);
+    }
+
+    public writeFile(uri: vscode.Uri, content: Uint8Array): void {
+        const builder: IAggregationBuilder = this.getBuilder(uri);
+        builder.content = Buffer.from(content).toString();
+        builder.mtime = Date.now();
+        this._emitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+    }
+
+    public readDirectory(): [string, vscode.FileType][] {
+        throw vscode.FileSystemError.NoPermissions();
+    }
+
+    public createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions();
+    }
+
+    public delete(): void {
+        throw vscode.FileSystemError.NoPermissions();
+    }
+
+    public rename(): void {
+        throw vscode.FileSystemError.NoPermissions();
+    }
+
+    private getBuilderFromPath(path: string): IAggregationBuilder {
+        const builder: IAggregationBuilder | undefined = this._builders.get(path);
+        if (!builder) {
+            throw vscode.FileSystemError.FileNotFound(localize('aggregationBuilderNotFound', 'The aggregation builder "{0}" is no longer open. Open it again from the collection.', path));
+        }
+        return builder;
+    }
+}
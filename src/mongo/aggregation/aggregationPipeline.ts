@@ -0,0 +1,210 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { localize } from '../../utils/localize';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+/**
+ * "shell" is the syntax of Mongo scrapbooks (e.g. `ObjectId("...")`), "node" is the syntax of the Node.js driver (e.g. `new ObjectId("...")`)
+ */
+export type JavaScriptStyle = 'shell' | 'node';
+
+export type AggregationExportFormat = 'scrapbook' | 'javascript' | 'typescript';
+
+/**
+ * Stages that write their input to a collection, so they can't be followed by other stages when previewing
+ */
+const outputStages: string[] = ['$out', '$merge'];
+
+const indentation: string = '    ';
+
+/**
+ * The classes of the Node.js driver that exported pipelines may use, and the text that shows they're used
+ */
+const nodeBsonClasses: { name: string; usage: string }[] = [
+    { name: 'Binary', usage: 'new Binary(' },
+    { name: 'BSONRegExp', usage: 'new BSONRegExp(' },
+    { name: 'Decimal128', usage: 'Decimal128.fromString(' },
+    { name: 'Long', usage: 'Long.fromString(' },
+    { name: 'ObjectId', usage: 'new ObjectId(' },
+    { name: 'Timestamp', usage: 'new Timestamp(' }
+];
+
+/**
+ * Parses the text of an aggregation builder, which is a JSON array of stages that may contain Extended JSON values such as {"$oid": "..."}
+ */
+export function parsePipeline(text: string): {}[] {
+    let pipeline: unknown;
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        pipeline = EJSON.parse(text);
+    } catch (error) {
+        throw new Error(localize('invalidPipelineJson', 'The aggregation pipeline is not valid JSON: {0}', (<Error>error).message));
+    }
+
+    if (!Array.isArray(pipeline)) {
+        throw new Error(localize('pipelineNotArray', 'The aggregation pipeline must be an array of stages.'));
+    }
+
+    const stages: unknown[] = pipeline;
+    stages.forEach((stage: unknown, i: number) => {
+        const stageName: string | undefined = getStageName(stage);
+        if (!stageName) {
+            throw new Error(localize('invalidStage', 'Stage {0} must be an object with a single stage operator such as "$match".', i + 1));
+        } else if (outputStages.includes(stageName) && i !== stages.length - 1) {
+            throw new Error(localize('outputStageNotLast', 'The "{0}" stage must be the last stage of the pipeline.', stageName));
+        }
+    });
+    return <{}[]>stages;
+}
+
+/**
+ * Returns the operator of a stage, e.g. "$match", or undefined if it isn't a valid stage
+ */
+export function getStageName(stage: unknown): string | undefined {
+    if (stage && typeof stage === 'object' && !Array.isArray(stage)) {
+        const keys: string[] = Object.keys(<{}>stage);
+        if (keys.length === 1 && keys[0].startsWith('$')) {
+            return keys[0];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Returns the stages to run to preview the output of a stage: the stages up to and including it, followed by a $limit
+ */
+export function getPreviewPipeline(pipeline: {}[], stageIndex: number, sampleSize: number): {}[] {
+    const stageName: string | undefined = getStageName(pipeline[stageIndex]);
+    if (stageName && outputStages.includes(stageName)) {
+        throw new Error(localize('cannotPreviewOutputStage', 'The "{0}" stage writes to a collection, so it can\'t be previewed.', stageName));
+    }
+    return [...pipeline.slice(0, stageIndex + 1), { $limit: sampleSize }];
+}
+
+export function getAggregationExport(format: AggregationExportFormat, databaseName: string, collectionName: string, pipeline: {}[]): string {
+    if (format === 'scrapbook') {
+        const collection: string = /^[^[\]"',\\\s:.;(){}-]+$/.test(collectionName) ? `.${collectionName}` : `.getCollection(${JSON.stringify(collectionName)})`;
+        return [
+            `// Aggregation pipeline for collection "${collectionName}" in database "${databaseName}"`,
+            `db${collection}.aggregate(${toJavaScript(pipeline, 'shell')})`,
+            ''
+        ].join('\n');
+    }
+
+    const pipelineText: string = toJavaScript(pipeline, 'node', indentation);
+    const usedClasses: string[] = nodeBsonClasses.filter(bsonClass => pipelineText.includes(bsonClass.usage)).map(bsonClass => bsonClass.name);
+    const lines: string[] = [];
+    if (format === 'typescript') {
+        lines.push(`import { ${['Db', ...usedClasses].sort((a, b) => a.localeCompare(b)).join(', ')} } from 'mongodb';`, '');
+    } else if (usedClasses.length) {
+        lines.push(`const { ${usedClasses.join(', ')} } = require('mongodb');`, '');
+    }
+
+    lines.push(
+        `// Aggregation pipeline for collection "${collectionName}" in database "${databaseName}"`,
+        format === 'typescript' ? 'export async function runAggregation(db: Db): Promise<object[]> {' : 'async function runAggregation(db) {',
+        `${indentation}const pipeline${format === 'typescript' ? ': object[]' : ''} = ${pipelineText};`,
+        `${indentation}return await db.collection(${toStringLiteral(collectionName)}).aggregate(pipeline).toArray();`,
+        '}',
+        ''
+    );
+    if (format === 'javascript') {
+        lines.splice(lines.length - 1, 0, '', 'module.exports = { runAggregation };');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Converts a value that may contain Extended JSON into JavaScript, e.g. {"$oid": "..."} becomes `ObjectId("...")` in the shell style
+ */
+export function toJavaScript(value: unknown, style: JavaScriptStyle, indent: string = ''): string {
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return '[]';
+        }
+        const items: string[] = value.map(item => indent + indentation + toJavaScript(item, style, indent + indentation));
+        return `[\n${items.join(',\n')}\n${indent}]`;
+    } else if (value && typeof value === 'object') {
+        const helper: string | undefined = toBsonHelper(<{}>value, style);
+        if (helper) {
+            return helper;
+        }
+
+        const keys: string[] = Object.keys(<{}>value);
+        if (keys.length === 0) {
+            return '{}';
+        }
+        const properties: string[] = keys.map(key => `${indent}${indentation}${toPropertyName(key, style)}: ${toJavaScript((<{}>value)[key], style, indent + indentation)}`);
+        return `{\n${properties.join(',\n')}\n${indent}}`;
+    } else if (typeof value === 'string') {
+        return style === 'node' ? toStringLiteral(value) : JSON.stringify(value);
+    }
+    return String(value);
+}
+
+function toBsonHelper(value: {}, style: JavaScriptStyle): string | undefined {
+    const keys: string[] = Object.keys(value).sort();
+    const toLiteral: (text: string) => string = style === 'shell' ? JSON.stringify : toStringLiteral;
+    if (keys.join() === '$options,$regex' || keys.join() === '$regex') {
+        const { $regex: pattern, $options: options = '' } = <{ $regex: unknown; $options?: unknown }>value;
+        if (typeof pattern === 'string' && typeof options === 'string') {
+            return style === 'shell' ? `RegExp(${toLiteral(pattern)}, ${toLiteral(options)})` : `new BSONRegExp(${toLiteral(pattern)}, ${toLiteral(options)})`;
+        }
+    } else if (keys.join() === '$binary,$type') {
+        const { $binary: base64, $type: subtype } = <{ $binary: unknown; $type: unknown }>value;
+        if (typeof base64 === 'string' && typeof subtype === 'string' && /^[0-9a-f]{1,2}$/i.test(subtype)) {
+            return style === 'shell' ?
+                `BinData(${parseInt(subtype, 16)}, ${toLiteral(base64)})` :
+                `new Binary(Buffer.from(${toLiteral(base64)}, 'base64'), ${parseInt(subtype, 16)})`;
+        }
+    }
+
+    if (keys.length !== 1) {
+        return undefined;
+    }
+
+    const innerValue: unknown = value[keys[0]];
+    if (keys[0] === '$oid' && typeof innerValue === 'string') {
+        return style === 'shell' ? `ObjectId(${toLiteral(innerValue)})` : `new ObjectId(${toLiteral(innerValue)})`;
+    } else if (keys[0] === '$date') {
+        const date: Date | undefined = toDate(innerValue);
+        if (date) {
+            return style === 'shell' ? `ISODate(${toLiteral(date.toISOString())})` : `new Date(${toLiteral(date.toISOString())})`;
+        }
+    } else if (keys[0] === '$numberLong' && typeof innerValue === 'string') {
+        return style === 'shell' ? `NumberLong(${toLiteral(innerValue)})` : `Long.fromString(${toLiteral(innerValue)})`;
+    } else if (keys[0] === '$numberDecimal' && typeof innerValue === 'string') {
+        return style === 'shell' ? `NumberDecimal(${toLiteral(innerValue)})` : `Decimal128.fromString(${toLiteral(innerValue)})`;
+    } else if (keys[0] === '$timestamp' && innerValue && typeof innerValue === 'object') {
+        const { t, i } = <{ t: unknown; i: unknown }>innerValue;
+        if (typeof t === 'number' && typeof i === 'number') {
+            // The driver takes the low bits (the increment) before the high bits (the seconds)
+            return style === 'shell' ? `Timestamp(${t}, ${i})` : `new Timestamp(${i}, ${t})`;
+        }
+    }
+    return undefined;
+}
+
+function toDate(value: unknown): Date | undefined {
+    if (value && typeof value === 'object' && typeof (<{ $numberLong?: unknown }>value).$numberLong === 'string') {
+        value = Number((<{ $numberLong: string }>value).$numberLong);
+    }
+
+    if (typeof value === 'string' || typeof value === 'number') {
+        const date: Date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date;
+    }
+    return undefined;
+}
+
+function toPropertyName(key: string, style: JavaScriptStyle): string {
+    return style === 'node' && /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function toStringLiteral(value: string): string {
+    return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, '\\\'')}'`;
+}
@@ -0,0 +1,69 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { IActionContext, openReadOnlyContent, registerCommand } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import * as vscodeUtil from '../../utils/vscodeUtils';
+import { getBatchSizeSetting } from '../../utils/workspacUtils';
+import { MongoCollectionTreeItem } from '../tree/MongoCollectionTreeItem';
+import { AggregationExportFormat, getAggregationExport, getPreviewPipeline, getStageName, parsePipeline } from './aggregationPipeline';
+import { MongoAggregationCodeLensProvider } from './MongoAggregationCodeLensProvider';
+import { MongoAggregationCompletionItemProvider } from './MongoAggregationCompletionItemProvider';
+import { IAggregationBuilder, MongoAggregationFileSystem } from './MongoAggregationFileSystem';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+const exportFileExtensions: { [format in AggregationExportFormat]: string } = {
+    scrapbook: '.mongo',
+    javascript: '.js',
+    typescript: '.ts'
+};
+
+export function registerMongoAggregationCommands(): void {
+    const fileSystem: MongoAggregationFileSystem = new MongoAggregationFileSystem();
+    const selector: vscode.DocumentSelector = { scheme: MongoAggregationFileSystem.scheme };
+    ext.context.subscriptions.push(vscode.workspace.registerFileSystemProvider(MongoAggregationFileSystem.scheme, fileSystem));
+    ext.context.subscriptions.push(vscode.languages.registerCodeLensProvider(selector, new MongoAggregationCodeLensProvider()));
+    ext.context.subscriptions.push(vscode.languages.registerCompletionItemProvider(selector, new MongoAggregationCompletionItemProvider(fileSystem), '"', ':', '$'));
+
+    registerCommand('cosmosDB.openMongoAggregationBuilder', async (context: IActionContext, node?: MongoCollectionTreeItem) => {
+        if (!node) {
+            node = <MongoCollectionTreeItem>await ext.tree.showTreeItemPicker(MongoCollectionTreeItem.contextValue, context);
+        }
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument(fileSystem.getUri(node));
+        await vscode.window.showTextDocument(document);
+    });
+    registerCommand('cosmosDB.previewMongoAggregationStage', async (context: IActionContext, uri: vscode.Uri, stageIndex: number) => {
+        const builder: IAggregationBuilder = fileSystem.getBuilder(uri);
+        const pipeline: {}[] = parsePipeline(getPipelineText(uri, builder));
+        context.telemetry.properties.stage = getStageName(pipeline[stageIndex]);
+        context.telemetry.measurements.stageCount = pipeline.length;
+
+        const documents: {}[] = await builder.collectionNode.collection.aggregate<{}>(getPreviewPipeline(pipeline, stageIndex, getBatchSizeSetting())).toArray();
+        const label: string = `${builder.collectionName}-stage-${stageIndex + 1}`;
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        const content: string = EJSON.stringify(documents, null, 2);
+        await openReadOnlyContent({ label, fullId: `${uri.toString()}/stage-${stageIndex + 1}` }, content, '.json', { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true });
+    });
+    registerCommand('cosmosDB.exportMongoAggregation', async (context: IActionContext, uri: vscode.Uri, format: AggregationExportFormat) => {
+        context.telemetry.properties.format = format;
+        const builder: IAggregationBuilder = fileSystem.getBuilder(uri);
+        const text: string = getPipelineText(uri, builder);
+        // Validate with the Extended JSON parser, but export the Extended JSON values (e.g. {"$oid": "..."}) so they can be written as BSON helpers
+        parsePipeline(text);
+        const pipeline: {}[] = <{}[]>JSON.parse(text);
+        const data: string = getAggregationExport(format, builder.databaseName, builder.collectionName, pipeline);
+        await vscodeUtil.showNewFile(data, `${builder.collectionName}-aggregation`, exportFileExtensions[format]);
+    });
+}
+
+/**
+ * Gets the pipeline from the open editor, so that stages can be previewed and exported before the builder is saved
+ */
+function getPipelineText(uri: vscode.Uri, builder: IAggregationBuilder): string {
+    const document: vscode.TextDocument | undefined = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+    return document ? document.getText() : builder.content;
+}
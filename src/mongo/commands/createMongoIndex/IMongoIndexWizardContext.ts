@@ -0,0 +1,19 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Collection } from "mongodb";
+import { IActionContext } from "vscode-azureextensionui";
+import { IMongoIndex, IMongoIndexSpecification } from "../../mongoIndexes";
+
+export interface IMongoIndexWizardContext extends IActionContext, Partial<IMongoIndexSpecification> {
+    collection: Collection;
+    existingIndexNames: string[];
+    isCosmosDB: boolean;
+
+    /**
+     * The index once it's created
+     */
+    index?: IMongoIndex;
+}
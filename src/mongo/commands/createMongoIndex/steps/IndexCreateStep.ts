@@ -0,0 +1,35 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardExecuteStep, parseError } from "vscode-azureextensionui";
+import { localize } from "../../../../utils/localize";
+import { nonNullValue } from "../../../../utils/nonNull";
+import { cosmosDBIndexCaveats, getIndexKeys, getIndexOptions, IMongoIndex, IMongoIndexSpecification } from "../../../mongoIndexes";
+import { IMongoIndexWizardContext } from "../IMongoIndexWizardContext";
+
+export class IndexCreateStep extends AzureWizardExecuteStep<IMongoIndexWizardContext> {
+    public priority: number = 100;
+
+    public async execute(wizardContext: IMongoIndexWizardContext): Promise<void> {
+        const specification: IMongoIndexSpecification = <IMongoIndexSpecification>wizardContext;
+        let name: string;
+        try {
+            name = await wizardContext.collection.createIndex(getIndexKeys(specification), getIndexOptions(specification));
+        } catch (error) {
+            if (wizardContext.isCosmosDB) {
+                // The errors of the service don't always explain which limitation of Cosmos DB the index breaks
+                throw new Error(localize('cosmosDBIndexError', '{0}\n\nIndexes in Azure Cosmos DB have these limitations:\n{1}', parseError(error).message, cosmosDBIndexCaveats.join('\n')));
+            }
+            throw error;
+        }
+
+        const indexes: IMongoIndex[] = <IMongoIndex[]>await wizardContext.collection.indexes();
+        wizardContext.index = nonNullValue(indexes.find(index => index.name === name), 'index');
+    }
+
+    public shouldExecute(): boolean {
+        return true;
+    }
+}
@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep, IAzureQuickPickItem } from "vscode-azureextensionui";
+import { ext } from "../../../../extensionVariables";
+import { localize } from "../../../../utils/localize";
+import { nonNullProp } from "../../../../utils/nonNull";
+import { IndexDirection } from "../../../mongoIndexes";
+import { IMongoIndexWizardContext } from "../IMongoIndexWizardContext";
+
+export class IndexDirectionsStep extends AzureWizardPromptStep<IMongoIndexWizardContext> {
+    public async prompt(wizardContext: IMongoIndexWizardContext): Promise<void> {
+        const picks: IAzureQuickPickItem<IndexDirection>[] = [
+            { label: localize('ascending', 'Ascending'), description: '1', data: 1 },
+            { label: localize('descending', 'Descending'), description: '-1', data: -1 }
+        ];
+
+        const directions: IndexDirection[] = [];
+        for (const field of nonNullProp(wizardContext, 'fields')) {
+            directions.push((await ext.ui.showQuickPick(picks, {
+                placeHolder: localize('selectIndexDirection', 'Select the order of "{0}"', field),
+                suppressPersistence: true
+            })).data);
+        }
+        wizardContext.directions = directions;
+    }
+
+    public shouldPrompt(wizardContext: IMongoIndexWizardContext): boolean {
+        return !wizardContext.directions && (wizardContext.indexType === 'single' || wizardContext.indexType === 'compound' || wizardContext.indexType === 'unique');
+    }
+}
@@ -0,0 +1,31 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from "vscode-azureextensionui";
+import { ext } from "../../../../extensionVariables";
+import { localize } from "../../../../utils/localize";
+import { IMongoIndexWizardContext } from "../IMongoIndexWizardContext";
+
+export class IndexExpirationStep extends AzureWizardPromptStep<IMongoIndexWizardContext> {
+    public async prompt(wizardContext: IMongoIndexWizardContext): Promise<void> {
+        wizardContext.expireAfterSeconds = Number(await ext.ui.showInputBox({
+            prompt: localize('enterExpireAfterSeconds', 'Enter the number of seconds after which documents expire'),
+            value: '3600',
+            validateInput: validateExpireAfterSeconds
+        }));
+    }
+
+    public shouldPrompt(wizardContext: IMongoIndexWizardContext): boolean {
+        return wizardContext.indexType === 'ttl' && wizardContext.expireAfterSeconds === undefined;
+    }
+}
+
+function validateExpireAfterSeconds(value: string): string | undefined {
+    const seconds: number = Number(value);
+    if (!value.trim() || !Number.isInteger(seconds) || seconds < 0) {
+        return localize('invalidExpireAfterSeconds', 'Enter a whole number of seconds.');
+    }
+    return undefined;
+}
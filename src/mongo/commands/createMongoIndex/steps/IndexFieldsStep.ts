@@ -0,0 +1,64 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from "vscode-azureextensionui";
+import { ext } from "../../../../extensionVariables";
+import { localize } from "../../../../utils/localize";
+import { validateIndexField } from "../../../mongoIndexes";
+import { IMongoIndexWizardContext } from "../IMongoIndexWizardContext";
+
+export class IndexFieldsStep extends AzureWizardPromptStep<IMongoIndexWizardContext> {
+    public async prompt(wizardContext: IMongoIndexWizardContext): Promise<void> {
+        switch (wizardContext.indexType) {
+            case 'single':
+            case 'ttl':
+                wizardContext.fields = [(await ext.ui.showInputBox({
+                    prompt: wizardContext.indexType === 'ttl' ?
+                        localize('enterTtlIndexField', 'Enter the date field that documents expire after, e.g. "createdAt"') :
+                        localize('enterIndexField', 'Enter the field to index, e.g. "address.city"'),
+                    validateInput: validateIndexField
+                })).trim()];
+                break;
+            case 'wildcard':
+                const path: string = (await ext.ui.showInputBox({
+                    prompt: localize('enterWildcardIndexPath', 'Enter the field to index all the fields under, or leave empty to index all fields'),
+                    validateInput: (value: string) => value.trim() ? validateIndexField(value) : undefined
+                })).trim();
+                wizardContext.fields = path ? [path] : [];
+                break;
+            default:
+                const minFields: number = wizardContext.indexType === 'compound' ? 2 : 1;
+                wizardContext.fields = splitFields(await ext.ui.showInputBox({
+                    prompt: localize('enterIndexFields', 'Enter the fields to index in order, separated by commas, e.g. "lastName, firstName"'),
+                    validateInput: (value: string) => validateFields(value, minFields)
+                }));
+        }
+    }
+
+    public shouldPrompt(wizardContext: IMongoIndexWizardContext): boolean {
+        return !wizardContext.fields;
+    }
+}
+
+function splitFields(value: string): string[] {
+    return value.split(',').map(field => field.trim());
+}
+
+function validateFields(value: string, minFields: number): string | undefined {
+    const fields: string[] = splitFields(value);
+    for (const field of fields) {
+        const error: string | undefined = validateIndexField(field);
+        if (error) {
+            return error;
+        }
+    }
+
+    if (fields.length < minFields) {
+        return localize('tooFewIndexFields', 'Enter at least {0} fields.', minFields);
+    } else if (new Set(fields).size !== fields.length) {
+        return localize('duplicateIndexFields', 'Each field can only be indexed once.');
+    }
+    return undefined;
+}
@@ -0,0 +1,35 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep } from "vscode-azureextensionui";
+import { ext } from "../../../../extensionVariables";
+import { localize } from "../../../../utils/localize";
+import { getDefaultIndexName, getIndexKeys, IMongoIndexSpecification } from "../../../mongoIndexes";
+import { IMongoIndexWizardContext } from "../IMongoIndexWizardContext";
+
+export class IndexNameStep extends AzureWizardPromptStep<IMongoIndexWizardContext> {
+    public async prompt(wizardContext: IMongoIndexWizardContext): Promise<void> {
+        const defaultName: string = getDefaultIndexName(getIndexKeys(<IMongoIndexSpecification>wizardContext));
+        wizardContext.name = (await ext.ui.showInputBox({
+            prompt: localize('enterIndexName', 'Enter the name of the index'),
+            value: defaultName,
+            validateInput: (name: string) => validateIndexName(name, wizardContext.existingIndexNames)
+        })).trim();
+    }
+
+    public shouldPrompt(wizardContext: IMongoIndexWizardContext): boolean {
+        return !wizardContext.name;
+    }
+}
+
+function validateIndexName(name: string, existingIndexNames: string[]): string | undefined {
+    name = name.trim();
+    if (!name) {
+        return localize('indexNameEmpty', 'The name can\'t be empty.');
+    } else if (existingIndexNames.includes(name)) {
+        return localize('indexNameExists', 'The collection already has an index named "{0}".', name);
+    }
+    return undefined;
+}
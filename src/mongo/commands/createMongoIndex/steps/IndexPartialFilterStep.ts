@@ -0,0 +1,44 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep, parseError } from "vscode-azureextensionui";
+import { ext } from "../../../../extensionVariables";
+import { localize } from "../../../../utils/localize";
+import { IMongoIndexWizardContext } from "../IMongoIndexWizardContext";
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+export class IndexPartialFilterStep extends AzureWizardPromptStep<IMongoIndexWizardContext> {
+    public async prompt(wizardContext: IMongoIndexWizardContext): Promise<void> {
+        const filter: string = (await ext.ui.showInputBox({
+            prompt: localize('enterPartialFilter', 'Enter a filter to only index the documents that match it, e.g. { "rating": { "$gt": 5 } }, or leave empty to index all documents'),
+            validateInput: validatePartialFilter
+        })).trim();
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        wizardContext.partialFilterExpression = filter ? EJSON.parse(filter) : undefined;
+    }
+
+    public shouldPrompt(wizardContext: IMongoIndexWizardContext): boolean {
+        // Cosmos DB doesn't support partial indexes
+        return !wizardContext.isCosmosDB;
+    }
+}
+
+function validatePartialFilter(value: string): string | undefined {
+    if (!value.trim()) {
+        return undefined;
+    }
+
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        const filter: unknown = EJSON.parse(value);
+        if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+            return localize('partialFilterNotObject', 'The filter must be a JSON object.');
+        }
+    } catch (error) {
+        return localize('invalidPartialFilter', 'The filter isn\'t valid JSON: {0}', parseError(error).message);
+    }
+    return undefined;
+}
@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { AzureWizardPromptStep, IAzureQuickPickItem } from "vscode-azureextensionui";
+import { ext } from "../../../../extensionVariables";
+import { localize } from "../../../../utils/localize";
+import { cosmosDBTimestampField, MongoIndexType } from "../../../mongoIndexes";
+import { IMongoIndexWizardContext } from "../IMongoIndexWizardContext";
+
+export class IndexTypeStep extends AzureWizardPromptStep<IMongoIndexWizardContext> {
+    public async prompt(wizardContext: IMongoIndexWizardContext): Promise<void> {
+        const picks: IAzureQuickPickItem<MongoIndexType>[] = [
+            { label: localize('singleFieldIndex', 'Single field'), description: localize('singleFieldIndexDescription', 'Index one field in ascending or descending order'), data: 'single' },
+            { label: localize('compoundIndex', 'Compound'), description: localize('compoundIndexDescription', 'Index several fields, sorted by the first field and then by each next field'), data: 'compound' },
+            {
+                label: localize('uniqueIndexType', 'Unique'),
+                description: wizardContext.isCosmosDB ?
+                    localize('cosmosDBUniqueIndexDescription', 'Reject documents with the same values for the fields. The collection must be empty') :
+                    localize('uniqueIndexDescription', 'Reject documents with the same values for the fields'),
+                data: 'unique'
+            },
+            {
+                label: localize('ttlIndexType', 'TTL'),
+                description: wizardContext.isCosmosDB ?
+                    localize('cosmosDBTtlIndexDescription', 'Delete documents a number of seconds after they were last modified') :
+                    localize('ttlIndexDescription', 'Delete documents a number of seconds after the date in a field'),
+                data: 'ttl'
+            },
+            { label: localize('textIndex', 'Text'), description: localize('textIndexDescription', 'Search the words of string fields with $text queries'), data: 'text' },
+            { label: localize('wildcardIndex', 'Wildcard'), description: localize('wildcardIndexDescription', 'Index all fields, or all fields under a path'), data: 'wildcard' }
+        ];
+
+        wizardContext.indexType = (await ext.ui.showQuickPick(wizardContext.isCosmosDB ? picks.filter(p => p.data !== 'text') : picks, {
+            placeHolder: localize('selectIndexType', 'Select the type of index')
+        })).data;
+
+        if (wizardContext.isCosmosDB && wizardContext.indexType === 'ttl') {
+            wizardContext.fields = [cosmosDBTimestampField];
+        }
+    }
+
+    public shouldPrompt(wizardContext: IMongoIndexWizardContext): boolean {
+        return !wizardContext.indexType;
+    }
+}
@@ -0,0 +1,124 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Db } from 'mongodb';
+import * as vscode from 'vscode';
+import { IActionContext, openReadOnlyContent } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+import { formatIndexSize } from '../mongoIndexes';
+import { MongoCollectionTreeItem } from '../tree/MongoCollectionTreeItem';
+import { MongoDatabaseTreeItem } from '../tree/MongoDatabaseTreeItem';
+
+/**
+ * The fields of the `collStats` command that are shown
+ */
+export interface IMongoCollectionStats {
+    ns: string;
+    count: number;
+    size: number;
+    avgObjSize?: number;
+    storageSize: number;
+    nindexes: number;
+    totalIndexSize: number;
+    indexSizes: { [name: string]: number };
+    capped?: boolean;
+    sharded?: boolean;
+}
+
+/**
+ * The throughput settings returned by the Cosmos DB extension commands "GetCollection" and "GetDatabase": https://docs.microsoft.com/azure/cosmos-db/mongodb-custom-commands
+ */
+export interface ICosmosDBThroughputSettings {
+    provisionedThroughput?: number;
+    autoScaleSettings?: { maxThroughput: number };
+}
+
+export interface ICosmosDBCollectionSettings extends ICosmosDBThroughputSettings {
+    shardKeyDefinition?: {};
+}
+
+export async function showMongoCollectionDetails(context: IActionContext, node?: MongoCollectionTreeItem): Promise<void> {
+    if (!node) {
+        node = <MongoCollectionTreeItem>await ext.tree.showTreeItemPicker(MongoCollectionTreeItem.contextValue, context);
+    }
+
+    const collectionName: string = node.collection.collectionName;
+    const db: Db = await (<MongoDatabaseTreeItem>node.parent).connectToDb();
+    const stats: IMongoCollectionStats = <IMongoCollectionStats>await db.command({ collStats: collectionName });
+
+    let details: {};
+    if (node.root.isCosmosDB) {
+        const collectionSettings: ICosmosDBCollectionSettings = <ICosmosDBCollectionSettings>await db.command({ customAction: 'GetCollection', collection: collectionName });
+        let databaseSettings: ICosmosDBThroughputSettings | undefined;
+        if (!hasThroughput(collectionSettings)) {
+            // The collection shares the throughput of its database, if the database has any
+            databaseSettings = <ICosmosDBThroughputSettings>await db.command({ customAction: 'GetDatabase' });
+        }
+        details = getCollectionDetails(stats, collectionSettings.shardKeyDefinition, collectionSettings, databaseSettings);
+    } else {
+        let shardKey: {} | undefined;
+        if (stats.sharded) {
+            // The shard keys are in the "config" database, which is read through the same connection
+            const configDb: Db = new Db('config', db.serverConfig);
+            const shardedCollection: { key?: {} } | null = await configDb.collection<{ key?: {} }>('collections').findOne({ _id: stats.ns });
+            shardKey = shardedCollection?.key;
+        }
+        details = getCollectionDetails(stats, shardKey);
+    }
+
+    const label: string = `${collectionName}-details`;
+    await openReadOnlyContent({ label, fullId: `${node.fullId}/${label}` }, JSON.stringify(details, null, 2), '.json', { viewColumn: vscode.ViewColumn.Beside });
+}
+
+/**
+ * Returns the details shown for a collection, with sizes that are readable at a glance
+ */
+export function getCollectionDetails(stats: IMongoCollectionStats, shardKey: {} | undefined, cosmosDBCollection?: ICosmosDBThroughputSettings, cosmosDBDatabase?: ICosmosDBThroughputSettings): {} {
+    const indexSizes: { [name: string]: string } = {};
+    for (const name of Object.keys(stats.indexSizes || {})) {
+        indexSizes[name] = formatBytes(stats.indexSizes[name]);
+    }
+
+    const details: { [key: string]: unknown } = {
+        namespace: stats.ns,
+        count: stats.count,
+        size: formatBytes(stats.size),
+        averageDocumentSize: stats.avgObjSize === undefined ? undefined : formatBytes(stats.avgObjSize),
+        storageSize: formatBytes(stats.storageSize),
+        indexes: stats.nindexes,
+        totalIndexSize: formatBytes(stats.totalIndexSize),
+        indexSizes,
+        capped: !!stats.capped,
+        // null rather than undefined so that unsharded collections still show the field
+        shardKey: shardKey || null
+    };
+    if (cosmosDBCollection) {
+        details.throughput = describeThroughput(cosmosDBCollection, cosmosDBDatabase);
+    }
+    return details;
+}
+
+function hasThroughput(settings: ICosmosDBThroughputSettings): boolean {
+    return !!settings.autoScaleSettings || !!settings.provisionedThroughput;
+}
+
+function describeThroughput(collection: ICosmosDBThroughputSettings, database: ICosmosDBThroughputSettings | undefined): string {
+    if (collection.autoScaleSettings) {
+        return localize('autoscaleCollectionThroughput', 'Autoscale up to {0} RU/s', collection.autoScaleSettings.maxThroughput);
+    } else if (collection.provisionedThroughput) {
+        return localize('manualCollectionThroughput', '{0} RU/s', collection.provisionedThroughput);
+    } else if (database && database.autoScaleSettings) {
+        return localize('autoscaleDatabaseThroughput', 'Shared with the database, autoscale up to {0} RU/s', database.autoScaleSettings.maxThroughput);
+    } else if (database && database.provisionedThroughput) {
+        return localize('manualDatabaseThroughput', 'Shared with the database, {0} RU/s', database.provisionedThroughput);
+    } else {
+        return localize('noThroughput', 'No provisioned throughput (serverless account)');
+    }
+}
+
+function formatBytes(bytes: number): string {
+    return bytes < 1024 ? formatIndexSize(bytes) : `${formatIndexSize(bytes)} (${bytes} bytes)`;
+}
@@ -47,3 +47,10 @@ export class MongoConnectError extends Error {
 export function isCosmosEmulatorConnectionString(connectionString: string): boolean {
     return connectionString.includes(encodeURIComponent(emulatorPassword));
 }
+
+/**
+ * Returns whether a connection string is for a Cosmos DB account (or the emulator) rather than a MongoDB server
+ */
+export function isCosmosDBConnectionString(connectionString: string): boolean {
+    return /\.(mongo\.cosmos|documents)\.azure\.(com|us|cn|de)\b/i.test(connectionString) || isCosmosEmulatorConnectionString(connectionString);
+}
@@ -0,0 +1,178 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { IndexOptions } from 'mongodb';
+import { localize } from '../utils/localize';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+/**
+ * An index as returned by `listIndexes()`
+ */
+export interface IMongoIndex {
+    name: string;
+    /**
+     * The indexed fields and their kind, e.g. `{ a: 1, b: -1 }` or `{ description: "text" }`
+     */
+    key: { [field: string]: number | string };
+    unique?: boolean;
+    sparse?: boolean;
+    expireAfterSeconds?: number;
+    partialFilterExpression?: {};
+}
+
+export type MongoIndexType = 'single' | 'compound' | 'unique' | 'ttl' | 'text' | 'wildcard';
+
+export type IndexDirection = 1 | -1;
+
+/**
+ * The choices made when creating an index
+ */
+export interface IMongoIndexSpecification {
+    indexType: MongoIndexType;
+    /**
+     * The indexed fields, or for a wildcard index, the path under which all fields are indexed (or no field to index all fields)
+     */
+    fields: string[];
+    /**
+     * The direction of each field. Fields without a direction are ascending
+     */
+    directions?: IndexDirection[];
+    expireAfterSeconds?: number;
+    partialFilterExpression?: {};
+    name?: string;
+}
+
+/**
+ * The limitations of indexes in Azure Cosmos DB's API for MongoDB: https://docs.microsoft.com/azure/cosmos-db/mongodb-indexing
+ */
+export const cosmosDBIndexCaveats: string[] = [
+    localize('cosmosDBIndexBuild', 'Indexes are built in the background and use request units (RUs) of the collection\'s throughput. Queries may not use an index until it is built.'),
+    localize('cosmosDBUniqueIndex', 'Unique indexes can only be created when the collection is empty.'),
+    localize('cosmosDBTtlIndex', 'TTL indexes can only be created on the "_ts" field, which is the time the document was last modified.'),
+    localize('cosmosDBUnsupportedIndexes', 'Text indexes and partial indexes aren\'t supported.')
+];
+
+/**
+ * The field that Cosmos DB sets to the time a document was last modified, which is the only field that a TTL index can use
+ */
+export const cosmosDBTimestampField: string = '_ts';
+
+export const defaultIdIndexName: string = '_id_';
+
+export function getIndexKeys(specification: IMongoIndexSpecification): { [field: string]: number | string } {
+    const keys: { [field: string]: number | string } = {};
+    switch (specification.indexType) {
+        case 'text':
+            for (const field of specification.fields) {
+                keys[field] = 'text';
+            }
+            break;
+        case 'wildcard':
+            keys[specification.fields.length ? `${specification.fields[0]}.$**` : '$**'] = 1;
+            break;
+        default:
+            specification.fields.forEach((field, i) => {
+                keys[field] = specification.directions && specification.directions[i] || 1;
+            });
+    }
+    return keys;
+}
+
+export function getIndexOptions(specification: IMongoIndexSpecification): IndexOptions {
+    const options: IndexOptions = { name: specification.name || getDefaultIndexName(getIndexKeys(specification)) };
+    if (specification.indexType === 'unique') {
+        options.unique = true;
+    }
+    if (specification.indexType === 'ttl') {
+        options.expireAfterSeconds = specification.expireAfterSeconds;
+    }
+    if (specification.partialFilterExpression) {
+        options.partialFilterExpression = specification.partialFilterExpression;
+    }
+    return options;
+}
+
+/**
+ * Returns the name that MongoDB gives an index with the given keys, e.g. "a_1_b_-1"
+ */
+export function getDefaultIndexName(keys: { [field: string]: number | string }): string {
+    return Object.keys(keys).map(field => `${field}_${keys[field]}`).join('_');
+}
+
+/**
+ * Returns the keys of an index in the format of the Mongo shell, e.g. `{ a: 1, b: -1 }`
+ */
+export function formatIndexKeys(keys: { [field: string]: number | string }): string {
+    const fields: string[] = Object.keys(keys).map(field => `${field}: ${typeof keys[field] === 'string' ? JSON.stringify(keys[field]) : keys[field]}`);
+    return `{ ${fields.join(', ')} }`;
+}
+
+export function formatIndexSize(bytes: number): string {
+    const units: string[] = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let unit: number = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+        bytes /= 1024;
+        unit += 1;
+    }
+    return `${unit === 0 ? bytes : bytes.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Returns a one-line summary of an index, e.g. `{ createdAt: 1 }, TTL 3600s, 16.0 KB`
+ */
+export function getIndexDescription(index: IMongoIndex, size?: number): string {
+    const parts: string[] = [formatIndexKeys(index.key)];
+    if (index.unique) {
+        parts.push(localize('uniqueIndex', 'unique'));
+    }
+    if (index.expireAfterSeconds !== undefined) {
+        parts.push(localize('ttlIndex', 'TTL {0}s', index.expireAfterSeconds));
+    }
+    if (index.partialFilterExpression) {
+        parts.push(localize('partialIndex', 'partial'));
+    }
+    if (size !== undefined) {
+        parts.push(formatIndexSize(size));
+    }
+    return parts.join(', ');
+}
+
+/**
+ * Returns the details of an index, one per line
+ */
+export function getIndexDetails(index: IMongoIndex, size?: number): string {
+    const lines: string[] = [localize('indexKeys', 'Keys: {0}', formatIndexKeys(index.key))];
+    if (index.unique) {
+        lines.push(localize('indexUnique', 'Unique: yes'));
+    }
+    if (index.sparse) {
+        lines.push(localize('indexSparse', 'Sparse: yes'));
+    }
+    if (index.expireAfterSeconds !== undefined) {
+        lines.push(localize('indexExpiration', 'Expires documents after: {0} seconds', index.expireAfterSeconds));
+    }
+    if (index.partialFilterExpression) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        lines.push(localize('indexPartialFilter', 'Partial filter: {0}', <string>EJSON.stringify(index.partialFilterExpression)));
+    }
+    if (size !== undefined) {
+        lines.push(localize('indexSize', 'Size: {0}', formatIndexSize(size)));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Validates the path of an indexed field, e.g. "address.city"
+ */
+export function validateIndexField(field: string): string | undefined {
+    field = field.trim();
+    if (!field) {
+        return localize('indexFieldEmpty', 'The field can\'t be empty.');
+    } else if (field.startsWith('$') || /\.\$|\.\.|\.$|^\./.test(field)) {
+        return localize('indexFieldInvalid', 'The field "{0}" isn\'t a valid path. Separate nested fields with ".", e.g. "address.city".', field);
+    }
+    return undefined;
+}
@@ -6,9 +6,12 @@
 import * as vscode from 'vscode';
 import { AzureTreeItem, callWithTelemetryAndErrorHandling, IActionContext, IErrorHandlerContext, ITreeItemPickerContext, registerCommand, registerErrorHandler, registerEvent } from "vscode-azureextensionui";
 import { Experience, MongoExperience } from '../AzureDBExperiences';
+import { doubleClickDebounceDelay } from '../constants';
 import { ext } from "../extensionVariables";
 import { AttachedAccountSuffix } from '../tree/AttachedAccountsTreeItem';
 import * as vscodeUtil from '../utils/vscodeUtils';
+import { registerMongoAggregationCommands } from './aggregation/registerMongoAggregationCommands';
+import { showMongoCollectionDetails } from './commands/showMongoCollectionDetails';
 import { MongoConnectError } from './connectToMongoClient';
 import { MongoDBLanguageClient } from "./languageClient";
 import { executeAllCommandsFromActiveEditor, executeCommandFromActiveEditor, getAllErrorsFromTextDocument } from "./MongoScrapbook";
@@ -16,8 +19,11 @@ import { MongoCodeLensProvider } from "./services/MongoCodeLensProvider";
 import { setConnectedNode } from "./setConnectedNode";
 import { MongoAccountTreeItem } from "./tree/MongoAccountTreeItem";
 import { MongoCollectionTreeItem } from "./tree/MongoCollectionTreeItem";
+import { MongoCollectionValidationTreeItem } from "./tree/MongoCollectionValidationTreeItem";
 import { MongoDatabaseTreeItem } from "./tree/MongoDatabaseTreeItem";
 import { MongoDocumentTreeItem } from "./tree/MongoDocumentTreeItem";
+import { MongoIndexesTreeItem } from "./tree/MongoIndexesTreeItem";
+import { MongoIndexTreeItem } from "./tree/MongoIndexTreeItem";
 
 const connectedMongoKey: string = 'ms-azuretools.vscode-cosmosdb.connectedDB';
 let diagnosticsCollection: vscode.DiagnosticCollection;
@@ -59,6 +65,12 @@ export function registerMongoCommands(): MongoCodeLensProvider {
         const documentNode = await node.createChild(context);
         await vscode.commands.executeCommand("cosmosDB.openDocument", documentNode);
     });
+    registerCommand('cosmosDB.createMongoIndex', async (context: IActionContext, node?: MongoIndexesTreeItem) => {
+        if (!node) {
+            node = <MongoIndexesTreeItem>await ext.tree.showTreeItemPicker(MongoIndexesTreeItem.contextValue, context);
+        }
+        await node.createChild(context);
+    });
     registerCommand('cosmosDB.connectMongoDB', async (context: IActionContext, node?: MongoDatabaseTreeItem) => {
         if (!node) {
             // Include defaultExperience in the context to prevent https://github.com/microsoft/vscode-cosmosdb/issues/1517
@@ -110,6 +122,21 @@ export function registerMongoCommands(): MongoCodeLensProvider {
         }
         await node.deleteTreeItem(context);
     });
+    registerCommand('cosmosDB.openMongoCollectionValidation', async (context: IActionContext, node?: MongoCollectionValidationTreeItem) => {
+        if (!node) {
+            node = <MongoCollectionValidationTreeItem>await ext.tree.showTreeItemPicker(MongoCollectionValidationTreeItem.contextValue, context);
+        }
+        await ext.fileSystem.showTextDocument(node);
+    }, doubleClickDebounceDelay);
+    registerCommand('cosmosDB.showMongoCollectionDetails', showMongoCollectionDetails);
+    registerCommand('cosmosDB.deleteMongoIndex', async (context: IActionContext, node?: MongoIndexTreeItem) => {
+        const suppressCreateContext: ITreeItemPickerContext = context;
+        suppressCreateContext.suppressCreatePick = true;
+        if (!node) {
+            node = <MongoIndexTreeItem>await ext.tree.showTreeItemPicker(MongoIndexTreeItem.contextValue, context);
+        }
+        await node.deleteTreeItem(context);
+    });
     registerCommand('cosmosDB.openCollection', async (context: IActionContext, node?: MongoCollectionTreeItem) => {
         if (!node) {
             node = <MongoCollectionTreeItem>await ext.tree.showTreeItemPicker(MongoCollectionTreeItem.contextValue, context);
@@ -127,6 +154,8 @@ export function registerMongoCommands(): MongoCodeLensProvider {
         await executeAllCommandsFromActiveEditor(context);
     });
 
+    registerMongoAggregationCommands();
+
     return codeLensProvider;
 }
 
@@ -0,0 +1,166 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Db } from 'mongodb';
+import * as vm from 'vm';
+import { localize } from '../../utils/localize';
+import { convertShellHelper, shellHelpers } from '../shellHelpers';
+import { hasTopLevelComma } from './splitStatements';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+/**
+ * The longest time that the synchronous part of a statement can run, so that an infinite loop doesn't hang the extension
+ */
+const timeoutMs: number = 30 * 1000;
+
+const declarationRegExp: RegExp = /^(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=([\s\S]*)$/;
+const blockStatementRegExp: RegExp = /^(?:(?:if|for|while|do|switch|try|with)\b|\{)/;
+
+/**
+ * Runs the JavaScript statements of a scrapbook in a context of their own, with the database bound to `db` as in the Mongo shell.
+ * Variables declared by a statement can be used by the statements that run after it.
+ * The context isn't a security boundary: `db` and the helpers are objects of the extension, through which scripts can reach its globals such as `process`
+ */
+export class MongoScriptSandbox {
+    private readonly _context: vm.Context;
+    private _output: string[] = [];
+
+    constructor(db: Db, private readonly _batchSize: number) {
+        const sandbox: { [key: string]: unknown } = {
+            db: createShellDb(db),
+            print: (...args: unknown[]) => { this._output.push(args.map(arg => typeof arg === 'string' ? arg : stringify(arg)).join(' ')); },
+            printjson: (value: unknown) => { this._output.push(stringify(value)); }
+        };
+
+        // Date and RegExp are already part of JavaScript
+        for (const helper of shellHelpers.filter(h => h.name !== 'Date' && h.name !== 'RegExp')) {
+            sandbox[helper.name] = function (...args: unknown[]): unknown {
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+                return EJSON.parse(JSON.stringify(convertShellHelper(helper.name, args)));
+            };
+        }
+        this._context = vm.createContext(sandbox);
+    }
+
+    /**
+     * Throws an error if a statement isn't valid JavaScript
+     */
+    public static validateStatement(statement: string): void {
+        // eslint-disable-next-line no-new
+        new vm.Script(getStatementCode(statement));
+    }
+
+    /**
+     * Runs a statement and returns what it printed along with its value, or undefined if there's nothing to show.
+     * Promises are awaited and the documents of cursors are read up to the batch size
+     */
+    public async run(statement: string): Promise<string | undefined> {
+        this._output = [];
+        let value: unknown = await (<Promise<unknown>>vm.runInContext(getStatementCode(statement), this._context, { timeout: timeoutMs }));
+
+        const declaration: IDeclaration | undefined = getDeclaration(statement);
+        if (declaration) {
+            // Declarations are stored in the context rather than declared, so that the statement can run again
+            this._context[declaration.name] = value;
+            value = undefined;
+        }
+
+        let hasMoreDocuments: boolean = false;
+        if (isCursor(value)) {
+            // Read one more document to know if there are more than the batch size
+            const documents: unknown[] = await readCursor(value, this._batchSize + 1);
+            hasMoreDocuments = documents.length > this._batchSize;
+            value = documents.slice(0, this._batchSize);
+        }
+        if (value !== undefined) {
+            this._output.push(typeof value === 'string' ? value : stringify(value));
+        }
+        if (hasMoreDocuments) {
+            this._output.push(localize('moreDocuments', 'Only the first {0} documents are shown.', this._batchSize));
+        }
+        return this._output.length ? this._output.join('\n') : undefined;
+    }
+}
+
+/**
+ * Wraps a statement in an async function so that it can use `await`, and returns a promise for its value
+ */
+function getStatementCode(statement: string): string {
+    statement = trimStatement(statement);
+    const declaration: IDeclaration | undefined = getDeclaration(statement);
+    if (declaration) {
+        return `(async () => (${declaration.initializer}\n))()`;
+    } else if (/^(function|async\s+function|class)\b/.test(statement)) {
+        // Declared directly so that they can be used by later statements
+        return `${statement.replace(/^class\s+([A-Za-z_$][\w$]*)/, 'var $1 = class $1')};\nPromise.resolve()`;
+    } else if (/^(const|let|var)\b/.test(statement)) {
+        // Declarations of several variables or with destructuring. Their values aren't awaited, but later statements can await them
+        return `${statement.replace(/^(const|let)\b/, 'var')};\nPromise.resolve()`;
+    } else if (blockStatementRegExp.test(statement)) {
+        return `(async () => {\n${statement}\n})()`;
+    } else {
+        return `(async () => (${statement}\n))()`;
+    }
+}
+
+interface IDeclaration {
+    name: string;
+    initializer: string;
+}
+
+/**
+ * Returns the variable and value of a statement that declares a single variable, e.g. `const cutoff = new Date()`
+ */
+function getDeclaration(statement: string): IDeclaration | undefined {
+    const match: RegExpExecArray | null = declarationRegExp.exec(trimStatement(statement));
+    return match && !hasTopLevelComma(match[2]) ? { name: match[1], initializer: match[2] } : undefined;
+}
+
+function trimStatement(statement: string): string {
+    return statement.trim().replace(/;$/, '');
+}
+
+/**
+ * Creates a wrapper of the database that, like the Mongo shell, returns the collection for an unknown property (e.g. `db.users`)
+ */
+function createShellDb(db: Db): Db {
+    return new Proxy(db, {
+        get: (target: Db, property: PropertyKey): unknown => {
+            if (property === 'getCollection') {
+                return (name: string) => target.collection(name);
+            } else if (typeof property === 'string' && !(property in target)) {
+                return target.collection(property);
+            }
+
+            const value: unknown = target[<string>property];
+            return typeof value === 'function' ? (<Function>value).bind(target) : value;
+        }
+    });
+}
+
+interface ICursor {
+    hasNext(): Promise<boolean>;
+    next(): Promise<unknown>;
+    close(): Promise<unknown>;
+}
+
+function isCursor(value: unknown): value is ICursor {
+    return !!value && typeof value === 'object' && typeof (<Partial<ICursor>>value).hasNext === 'function' && typeof (<Partial<ICursor>>value).next === 'function';
+}
+
+async function readCursor(cursor: ICursor, maxCount: number): Promise<unknown[]> {
+    const documents: unknown[] = [];
+    while (documents.length < maxCount && await cursor.hasNext()) {
+        documents.push(await cursor.next());
+    }
+    await cursor.close();
+    return documents;
+}
+
+function stringify(value: unknown): string {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+    return EJSON.stringify(value, null, '\t');
+}
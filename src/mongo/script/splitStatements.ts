@@ -0,0 +1,206 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface IScriptStatement {
+    text: string;
+    /**
+     * The offset of the first character of the statement in the script
+     */
+    start: number;
+    /**
+     * The offset after the last character of the statement in the script
+     */
+    end: number;
+}
+
+const openingBrackets: string = '([{';
+const closingBrackets: string = ')]}';
+
+/**
+ * Characters that can't end a statement, so a statement continues on the next line if its last character is one of them
+ */
+const continuingEndCharacters: string = '=+-*/%&|^<>?:,.(!~';
+
+/**
+ * Characters that continue the previous statement when they start a line, e.g. a chained call such as `.sort({ a: 1 })`.
+ * As in JavaScript, this includes "(" and "[" which continue a call or an index
+ */
+const continuingStartCharacters: string = '.?:+*/%&|^=<>,()[]}';
+
+/**
+ * Keywords that continue a statement when they start the next line, e.g. `else` after the block of an `if`
+ */
+const continuingKeywords: RegExp = /^(else|catch|finally|while)\b/;
+
+/**
+ * Characters after which a "/" starts a regular expression rather than a division
+ */
+const regexPrecedingCharacters: string = '(,=:[!&|?{};+-*%<>~^';
+
+/**
+ * Splits a scrapbook into its top-level JavaScript statements, which end with a semicolon or at the end of a line where the statement is complete.
+ * Comments between statements are skipped. This doesn't validate the syntax of the statements, which is left to the JavaScript engine
+ */
+export function splitStatements(text: string): IScriptStatement[] {
+    const statements: IScriptStatement[] = [];
+    let start: number | undefined;
+    // The offset after the last character of the statement that isn't whitespace or in a comment
+    let end: number = 0;
+    let depth: number = 0;
+    // The last character of the statement that isn't whitespace or in a comment
+    let previous: string = '';
+    let i: number = 0;
+
+    const endStatement = (): void => {
+        if (start !== undefined) {
+            statements.push({ text: text.substring(start, end), start, end });
+        }
+        start = undefined;
+        depth = 0;
+        previous = '';
+    };
+
+    while (i < text.length) {
+        const char: string = text[i];
+        if (char === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+            i = skipComment(text, i);
+        } else if (char === '\n' || char === '\r') {
+            if (start !== undefined && depth === 0 && !continuesOnNextLine(text, i, previous)) {
+                endStatement();
+            }
+            i++;
+        } else if (/\s/.test(char)) {
+            i++;
+        } else {
+            if (start === undefined) {
+                start = i;
+            }
+
+            if (char === ';') {
+                i++;
+                if (depth === 0) {
+                    end = i;
+                    endStatement();
+                    continue;
+                }
+            } else if (char === '"' || char === '\'' || char === '`') {
+                i = skipString(text, i);
+            } else if (char === '/' && (!previous || regexPrecedingCharacters.includes(previous) || /\b(return|typeof|in|of|case)$/.test(text.substring(start, i).trimRight()))) {
+                i = skipRegex(text, i);
+                // The regular expression is an operand, so its closing "/" doesn't continue the statement like a division
+                previous = 'r';
+                end = i;
+                continue;
+            } else {
+                if (openingBrackets.includes(char)) {
+                    depth++;
+                } else if (closingBrackets.includes(char)) {
+                    depth = Math.max(0, depth - 1);
+                }
+                i++;
+            }
+            previous = text[i - 1];
+            end = i;
+        }
+    }
+    endStatement();
+    return statements;
+}
+
+function continuesOnNextLine(text: string, newlineIndex: number, previous: string): boolean {
+    const previousTwo: string = text.substring(0, newlineIndex).trimRight().slice(-2);
+    if (continuingEndCharacters.includes(previous) && previousTwo !== '++' && previousTwo !== '--') {
+        return true;
+    }
+
+    const next: RegExpExecArray | null = /\S/.exec(text.substring(newlineIndex));
+    if (!next) {
+        return false;
+    }
+    const nextText: string = text.substring(newlineIndex + next.index);
+    return (continuingStartCharacters.includes(nextText[0]) && !nextText.startsWith('//') && !nextText.startsWith('/*'))
+        || continuingKeywords.test(nextText)
+        // The block of a statement such as `for (...)` on the next line
+        || (previous === ')' && nextText[0] === '{');
+}
+
+/**
+ * Returns the index after the comment starting at the given index
+ */
+function skipComment(text: string, index: number): number {
+    if (text[index + 1] === '/') {
+        const end: number = text.substring(index).search(/[\r\n]/);
+        return end === -1 ? text.length : index + end;
+    } else {
+        const end: number = text.indexOf('*/', index + 2);
+        return end === -1 ? text.length : end + 2;
+    }
+}
+
+/**
+ * Returns the index after the string starting at the given index, or the end of the line if the string isn't closed
+ */
+function skipString(text: string, index: number): number {
+    const quote: string = text[index];
+    for (let i: number = index + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i + 1;
+        } else if (quote !== '`' && (text[i] === '\n' || text[i] === '\r')) {
+            return i;
+        }
+    }
+    return text.length;
+}
+
+/**
+ * Returns the index after the regular expression (including its flags) starting at the given index
+ */
+function skipRegex(text: string, index: number): number {
+    let inClass: boolean = false;
+    for (let i: number = index + 1; i < text.length; i++) {
+        const char: string = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            inClass = true;
+        } else if (char === ']') {
+            inClass = false;
+        } else if (char === '/' && !inClass) {
+            const flags: RegExpExecArray | null = /^[a-z]*/i.exec(text.substring(i + 1));
+            return i + 1 + (flags ? flags[0].length : 0);
+        } else if (char === '\n' || char === '\r') {
+            return i;
+        }
+    }
+    return text.length;
+}
+
+/**
+ * Returns whether an expression has a comma outside of brackets and strings, e.g. `1, b = 2` of the declaration `const a = 1, b = 2`
+ */
+export function hasTopLevelComma(text: string): boolean {
+    let depth: number = 0;
+    let i: number = 0;
+    while (i < text.length) {
+        const char: string = text[i];
+        if (char === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+            i = skipComment(text, i);
+        } else if (char === '"' || char === '\'' || char === '`') {
+            i = skipString(text, i);
+        } else {
+            if (openingBrackets.includes(char)) {
+                depth++;
+            } else if (closingBrackets.includes(char)) {
+                depth--;
+            } else if (char === ',' && depth === 0) {
+                return true;
+            }
+            i++;
+        }
+    }
+    return false;
+}
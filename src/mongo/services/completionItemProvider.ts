@@ -16,6 +16,7 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 import { mongoLexer } from './../grammar/mongoLexer';
 import * as mongoParser from './../grammar/mongoParser';
 import { MongoVisitor } from './../grammar/visitors';
+import { getShellHelperSignature, shellHelpers } from './../shellHelpers';
 import { SchemaService } from './schemaService';
 
 export class CompletionItemsVisitor extends MongoVisitor<Promise<CompletionItem[]>> {
@@ -32,6 +33,14 @@ export class CompletionItemsVisitor extends MongoVisitor<Promise<CompletionItem[
         this.at = this.textDocument.positionAt(this.offset);
     }
 
+    /**
+     * Returns the completions for a node, along with the shell helpers such as `ObjectId` if the position is where an argument value is expected
+     */
+    public async provideCompletionItems(node: ParseTree): Promise<CompletionItem[]> {
+        const completionItems: CompletionItem[] = await node.accept(this);
+        return [...completionItems, ...this.createShellHelperCompletions()];
+    }
+
     public visitCommands(ctx: mongoParser.CommandsContext): Promise<CompletionItem[]> {
         return this.thenable(this.createDbKeywordCompletion(this.createRange(ctx)));
     }
@@ -372,6 +381,66 @@ export class CompletionItemsVisitor extends MongoVisitor<Promise<CompletionItem[
         );
     }
 
+    private createShellHelperCompletions(): CompletionItem[] {
+        const textBefore = this.textDocument.getText().substring(0, this.offset);
+        const match = /([:[,])\s*([A-Za-z]*)$/.exec(textBefore);
+        if (!match) {
+            return [];
+        }
+
+        // Helpers can be values of properties and array elements inside the arguments of a command, but not property names or the arguments themselves
+        const brackets = this.getOpenBrackets(textBefore.substring(0, match.index));
+        if (!brackets) {
+            return [];
+        }
+        const innermostBracket = brackets[brackets.length - 1];
+        const isValue = match[1] === ':' ? innermostBracket === '{' : innermostBracket === '[' || match[1] === '[';
+        if (!isValue || brackets.indexOf('(') === -1) {
+            return [];
+        }
+
+        const range = Range.create(this.textDocument.positionAt(this.offset - match[2].length), this.at);
+        return shellHelpers.map(helper => (<CompletionItem>{
+            textEdit: {
+                newText: helper.name,
+                range
+            },
+            kind: CompletionItemKind.Constructor,
+            label: helper.name,
+            detail: getShellHelperSignature(helper),
+            documentation: helper.description,
+            sortText: `3:${helper.name}`
+        }));
+    }
+
+    /**
+     * Returns the brackets that are still open at the end of the text, ignoring those in strings, or undefined if the text ends in a string
+     */
+    private getOpenBrackets(text: string): string[] | undefined {
+        const closingBrackets = { ')': '(', ']': '[', '}': '{' };
+        const brackets: string[] = [];
+        let quote: string | undefined;
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+            } else if (char === '(' || char === '[' || char === '{') {
+                brackets.push(char);
+            } else if (closingBrackets[char] && brackets[brackets.length - 1] === closingBrackets[char]) {
+                brackets.pop();
+            } else if (char === ';') {
+                brackets.length = 0;
+            }
+        }
+        return quote ? undefined : brackets;
+    }
+
     private createFunctionCompletion(label: string, range: Range): CompletionItem {
         return {
             textEdit: {
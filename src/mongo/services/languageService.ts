@@ -7,7 +7,7 @@
 
 import { Db } from 'mongodb';
 import { getLanguageService, LanguageService as JsonLanguageService, SchemaConfiguration } from 'vscode-json-languageservice';
-import { CompletionItem, IConnection, InitializeParams, InitializeResult, TextDocumentPositionParams, TextDocuments, TextDocumentSyncKind } from 'vscode-languageserver';
+import { CompletionItem, Hover, IConnection, InitializeParams, InitializeResult, TextDocumentPositionParams, TextDocuments, TextDocumentSyncKind } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { connectToMongoClient } from '../connectToMongoClient';
 import { IConnectionParams } from './IConnectionParams';
@@ -35,7 +35,8 @@ export class LanguageService {
             return {
                 capabilities: {
                     textDocumentSync: TextDocumentSyncKind.Full, // Tell the client that the server works in FULL text document sync mode
-                    completionProvider: { triggerCharacters: ['.'] }
+                    completionProvider: { triggerCharacters: ['.'] },
+                    hoverProvider: true
                 }
             };
         });
@@ -44,6 +45,10 @@ export class LanguageService {
             return this.provideCompletionItems(textDocumentPosition);
         });
 
+        connection.onHover(textDocumentPosition => {
+            return this.provideHover(textDocumentPosition);
+        });
+
         connection.onRequest('connect', (connectionParams: IConnectionParams) => {
             void connectToMongoClient(connectionParams.connectionString, connectionParams.extensionUserAgent)
                 .then(account => {
@@ -78,6 +83,13 @@ export class LanguageService {
         return mongoScriptDocument.provideCompletionItemsAt(positionParams.position);
     }
 
+    public provideHover(positionParams: TextDocumentPositionParams): Hover | null {
+        const textDocument = this.textDocuments.get(positionParams.textDocument.uri);
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        const mongoScriptDocument = this.mongoDocumentsManager.getDocument(textDocument!, this.db);
+        return mongoScriptDocument.provideHoverAt(positionParams.position);
+    }
+
     public resetSchema(uri: string): void {
         this.jsonLanguageService.resetSchema(uri);
     }
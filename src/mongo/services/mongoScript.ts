@@ -10,11 +10,12 @@ import { ParseTree } from 'antlr4ts/tree/ParseTree';
 import { TerminalNode } from 'antlr4ts/tree/TerminalNode';
 import { Db } from 'mongodb';
 import { LanguageService as JsonLanguageService } from 'vscode-json-languageservice';
-import { CompletionItem, Position } from 'vscode-languageserver';
+import { CompletionItem, Hover, MarkupKind, Position, Range } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { mongoLexer } from './../grammar/mongoLexer';
 import * as mongoParser from './../grammar/mongoParser';
 import { MongoVisitor } from './../grammar/visitors';
+import { getShellHelper, getShellHelperSignature } from './../shellHelpers';
 import { CompletionItemsVisitor } from './completionItemProvider';
 import { SchemaService } from './schemaService';
 
@@ -52,10 +53,37 @@ export class MongoScriptDocument {
         const offset = this.textDocument.offsetAt(position);
         const lastNode = new NodeFinder(offset).visit(parser.commands());
         if (lastNode) {
-            return new CompletionItemsVisitor(this.textDocument, this.db, offset, this.schemaService, this.jsonLanguageService).visit(lastNode);
+            return new CompletionItemsVisitor(this.textDocument, this.db, offset, this.schemaService, this.jsonLanguageService).provideCompletionItems(lastNode);
         }
         return Promise.resolve([]);
     }
+
+    /**
+     * Describes the shell helper (such as `ObjectId`) at a position
+     */
+    public provideHoverAt(position: Position): Hover | null {
+        const offset = this.textDocument.offsetAt(position);
+        const tokens = this._lexer.getAllTokens().filter(token => token.type !== mongoLexer.WHITESPACE);
+        const index = tokens.findIndex(token => token.startIndex <= offset && offset <= token.stopIndex + 1 && token.type === mongoLexer.IDENTIFIER);
+        // Ignore functions of the database and collections, e.g. `db.Date`
+        if (index === -1 || (index > 0 && tokens[index - 1].type === mongoLexer.DOT)) {
+            return null;
+        }
+
+        const token = tokens[index];
+        const helper = getShellHelper(token.text || '');
+        if (!helper) {
+            return null;
+        }
+
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: ['```javascript', getShellHelperSignature(helper), '```', helper.description].join('\n')
+            },
+            range: Range.create(this.textDocument.positionAt(token.startIndex), this.textDocument.positionAt(token.stopIndex + 1))
+        };
+    }
 }
 
 class NodeFinder extends MongoVisitor<ParseTree> {
@@ -0,0 +1,262 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+// NOTE: This file may not take a dependencey on vscode or anything that takes a dependency on it (such as vscode-azureextensionui), because it is also used by the language server
+
+import { ObjectID } from 'bson';
+import * as crypto from 'crypto';
+
+/**
+ * A function of the Mongo shell that creates a BSON value, e.g. `ObjectId("...")`
+ */
+export interface IShellHelper {
+    name: string;
+    /**
+     * The parameters of the helper, e.g. `hex?: string`
+     */
+    parameters: string;
+    description: string;
+    minArgs: number;
+    maxArgs: number;
+    /**
+     * Converts the arguments of the helper to Extended JSON, which is converted to BSON when the command runs.
+     * Throws an error describing the expected arguments if they are malformed
+     */
+    toExtendedJson(args: unknown[]): Object;
+}
+
+const maxInt32: number = 2147483647;
+const maxUInt32: number = 4294967295;
+const maxInt64: string = '9223372036854775807';
+
+export const shellHelpers: IShellHelper[] = [
+    {
+        name: 'ObjectId',
+        parameters: 'hex?: string',
+        description: 'Creates an ObjectId from a 24-character hexadecimal string, or a new ObjectId if no string is given.',
+        minArgs: 0,
+        maxArgs: 1,
+        toExtendedJson: ([hex]: unknown[]): Object => {
+            if (hex === undefined) {
+                return { $oid: new ObjectID().toHexString() };
+            } else if (typeof hex !== 'string' || !/^[0-9a-f]{24}$/i.test(hex)) {
+                throw new Error(`ObjectId() expects a 24-character hexadecimal string, but got ${describe(hex)}.`);
+            }
+            return { $oid: hex.toLowerCase() };
+        }
+    },
+    {
+        name: 'ISODate',
+        parameters: 'date?: string',
+        description: 'Creates a date from an ISO-8601 string, which is in UTC if it doesn\'t include a time zone. Creates the current date if no string is given.',
+        minArgs: 0,
+        maxArgs: 1,
+        toExtendedJson: ([value]: unknown[]): Object => {
+            if (value === undefined) {
+                return { $date: new Date().toISOString() };
+            } else if (typeof value !== 'string') {
+                throw new Error(`ISODate() expects an ISO-8601 date string such as "2020-01-31T12:00:00Z", but got ${describe(value)}.`);
+            }
+            // The date is in UTC unless its time ends with a time zone, i.e. "Z" or an offset such as "+02:00".
+            // The date itself (e.g. the "-31" of "2020-01-31") is skipped so that it isn't mistaken for an offset
+            const hasTimeZone: boolean = /(Z|[+-]\d{2}(:?\d{2})?)$/.test(value.substring(10));
+            return { $date: toDate('ISODate', value, hasTimeZone ? value : value + 'Z').toISOString() };
+        }
+    },
+    {
+        name: 'Date',
+        parameters: 'date?: string | number',
+        description: 'Creates a date from a date string or a number of milliseconds since the Unix epoch. Creates the current date if no value is given.',
+        minArgs: 0,
+        maxArgs: 1,
+        toExtendedJson: ([value]: unknown[]): Object => {
+            if (value === undefined) {
+                return { $date: new Date().toString() };
+            } else if (typeof value !== 'string' && typeof value !== 'number') {
+                throw new Error(`Date() expects a date string or a number of milliseconds, but got ${describe(value)}.`);
+            }
+            return { $date: toDate('Date', value).toString() };
+        }
+    },
+    {
+        name: 'NumberLong',
+        parameters: 'value: string | number',
+        description: 'Creates a 64-bit integer. Use a string for values that can\'t be represented exactly by a JavaScript number.',
+        minArgs: 1,
+        maxArgs: 1,
+        toExtendedJson: ([value]: unknown[]): Object => {
+            const text: string | undefined = typeof value === 'number' && Number.isSafeInteger(value) ? String(value) : typeof value === 'string' ? value.trim() : undefined;
+            if (text === undefined || !/^-?\d+$/.test(text) || !isInt64(text)) {
+                throw new Error(`NumberLong() expects a 64-bit integer as a number or string, but got ${describe(value)}.`);
+            }
+            return { $numberLong: text };
+        }
+    },
+    {
+        name: 'NumberInt',
+        parameters: 'value: string | number',
+        description: 'Creates a 32-bit integer.',
+        minArgs: 1,
+        maxArgs: 1,
+        toExtendedJson: ([value]: unknown[]): Object => {
+            const num: number = typeof value === 'string' && value.trim() ? Number(value) : typeof value === 'number' ? value : NaN;
+            if (!Number.isInteger(num) || num < -maxInt32 - 1 || num > maxInt32) {
+                throw new Error(`NumberInt() expects a 32-bit integer as a number or string, but got ${describe(value)}.`);
+            }
+            return num;
+        }
+    },
+    {
+        name: 'NumberDecimal',
+        parameters: 'value: string | number',
+        description: 'Creates a 128-bit decimal. Use a string to keep the exact decimal value.',
+        minArgs: 1,
+        maxArgs: 1,
+        toExtendedJson: ([value]: unknown[]): Object => {
+            const text: string | undefined = typeof value === 'number' && isFinite(value) ? String(value) : typeof value === 'string' ? value.trim() : undefined;
+            if (text === undefined || !/^([-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?|[-+]?Infinity|NaN)$/.test(text)) {
+                throw new Error(`NumberDecimal() expects a decimal number as a number or string, but got ${describe(value)}.`);
+            }
+            return { $numberDecimal: text };
+        }
+    },
+    {
+        name: 'Timestamp',
+        parameters: 't: number, i: number',
+        description: 'Creates a BSON timestamp from the seconds since the Unix epoch (t) and an incrementing ordinal for operations within the same second (i).',
+        minArgs: 0,
+        maxArgs: 2,
+        toExtendedJson: (args: unknown[]): Object => {
+            const [t, i] = args.length ? args : [0, 0];
+            if (!isUInt32(t) || !isUInt32(i)) {
+                throw new Error(`Timestamp() expects two integers between 0 and ${maxUInt32}, but got ${args.map(describe).join(', ')}.`);
+            }
+            return { $timestamp: { t, i } };
+        }
+    },
+    {
+        name: 'BinData',
+        parameters: 'subtype: number, base64: string',
+        description: 'Creates binary data from a subtype between 0 and 255 and a base64 string.',
+        minArgs: 2,
+        maxArgs: 2,
+        toExtendedJson: ([subtype, base64]: unknown[]): Object => {
+            if (typeof subtype !== 'number' || !Number.isInteger(subtype) || subtype < 0 || subtype > 255) {
+                throw new Error(`BinData() expects a subtype between 0 and 255 as its first argument, but got ${describe(subtype)}.`);
+            } else if (typeof base64 !== 'string' || base64.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+                throw new Error(`BinData() expects a base64 string as its second argument, but got ${describe(base64)}.`);
+            }
+            return { $binary: base64, $type: subtype.toString(16) };
+        }
+    },
+    {
+        name: 'UUID',
+        parameters: 'hex?: string',
+        description: 'Creates a UUID (binary data of subtype 4) from a string of 32 hexadecimal digits, which may include dashes. Creates a random UUID if no string is given.',
+        minArgs: 0,
+        maxArgs: 1,
+        toExtendedJson: ([hex]: unknown[]): Object => {
+            let bytes: Buffer;
+            if (hex === undefined) {
+                bytes = crypto.randomBytes(16);
+                // Set the version (4) and variant bits of a random UUID
+                bytes[6] = (bytes[6] & 0x0f) | 0x40;
+                bytes[8] = (bytes[8] & 0x3f) | 0x80;
+            } else if (typeof hex !== 'string' || !/^[0-9a-f]{32}$/i.test(hex.replace(/-/g, ''))) {
+                throw new Error(`UUID() expects a string of 32 hexadecimal digits such as "0123abcd-4567-89ab-cdef-0123456789ab", but got ${describe(hex)}.`);
+            } else {
+                bytes = Buffer.from(hex.replace(/-/g, ''), 'hex');
+            }
+            return { $binary: bytes.toString('base64'), $type: '4' };
+        }
+    },
+    {
+        name: 'MinKey',
+        parameters: '',
+        description: 'Creates the BSON value that compares lower than all other values.',
+        minArgs: 0,
+        maxArgs: 0,
+        toExtendedJson: (): Object => { return { $minKey: 1 }; }
+    },
+    {
+        name: 'MaxKey',
+        parameters: '',
+        description: 'Creates the BSON value that compares higher than all other values.',
+        minArgs: 0,
+        maxArgs: 0,
+        toExtendedJson: (): Object => { return { $maxKey: 1 }; }
+    },
+    {
+        name: 'RegExp',
+        parameters: 'pattern: string, flags?: string',
+        description: 'Creates a regular expression, the same as /pattern/flags.',
+        minArgs: 1,
+        maxArgs: 2,
+        toExtendedJson: ([pattern, flags]: unknown[]): Object => {
+            if (typeof pattern !== 'string') {
+                throw new Error(`RegExp() expects a pattern string, but got ${describe(pattern)}.`);
+            } else if (flags !== undefined && (typeof flags !== 'string' || !/^[imxsu]*$/.test(flags))) {
+                throw new Error(`RegExp() expects flags made of "i", "m", "x", "s" and "u", but got ${describe(flags)}.`);
+            }
+
+            try {
+                // Validate the pattern
+                new RegExp(pattern); // eslint-disable-line no-new
+            } catch (error) {
+                throw new Error(`RegExp() expects a valid regular expression: ${(<Error>error).message}`);
+            }
+            return { $regex: pattern, $options: flags || '' };
+        }
+    }
+];
+
+export function getShellHelper(name: string): IShellHelper | undefined {
+    return shellHelpers.find(helper => helper.name === name);
+}
+
+/**
+ * Converts a call to a shell helper in a scrapbook, e.g. `NumberLong("42")`, to Extended JSON, e.g. `{ $numberLong: "42" }`
+ */
+export function convertShellHelper(name: string, args: unknown[]): Object {
+    const helper: IShellHelper | undefined = getShellHelper(name);
+    if (!helper) {
+        throw new Error(`"${name}" is not a supported function. Use one of ${shellHelpers.map(h => h.name).join(', ')}.`);
+    }
+
+    if (args.length < helper.minArgs || args.length > helper.maxArgs) {
+        const expected: string = helper.minArgs === helper.maxArgs ? String(helper.minArgs) : `${helper.minArgs} to ${helper.maxArgs}`;
+        throw new Error(`${name}() expects ${expected} argument(s), but got ${args.length}.`);
+    }
+    return helper.toExtendedJson(args);
+}
+
+export function getShellHelperSignature(helper: IShellHelper): string {
+    return `${helper.name}(${helper.parameters})`;
+}
+
+function toDate(helperName: string, value: string | number, dateValue: string | number = value): Date {
+    const date: Date = new Date(dateValue);
+    if (isNaN(date.getTime())) {
+        throw new Error(`${helperName}() expects a valid date, but got ${describe(value)}.`);
+    }
+    return date;
+}
+
+function isUInt32(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= maxUInt32;
+}
+
+function isInt64(text: string): boolean {
+    const digits: string = text.replace(/^-0*|^0+/, '') || '0';
+    if (digits.length !== maxInt64.length) {
+        return digits.length < maxInt64.length;
+    }
+    // The minimum is one less than the negation of the maximum
+    return text.startsWith('-') ? digits <= '9223372036854775808' : digits <= maxInt64;
+}
+
+function describe(value: unknown): string {
+    return value === undefined ? 'nothing' : JSON.stringify(value);
+}
@@ -8,4 +8,8 @@ import { ISubscriptionContext } from "vscode-azureextensionui";
 
 export interface IMongoTreeRoot extends ISubscriptionContext {
     isEmulator: boolean | undefined;
+    /**
+     * True if the account is a Cosmos DB account rather than a MongoDB server, which changes the features that are supported
+     */
+    isCosmosDB: boolean;
 }
@@ -11,12 +11,15 @@ import { deleteCosmosDBAccount } from '../../commands/deleteCosmosDBAccount';
 import { getThemeAgnosticIconPath, Links, testDb } from '../../constants';
 import { ext } from '../../extensionVariables';
 import { nonNullProp } from '../../utils/nonNull';
-import { connectToMongoClient } from '../connectToMongoClient';
+import { connectToMongoClient, isCosmosDBConnectionString } from '../connectToMongoClient';
 import { getDatabaseNameFromConnectionString } from '../mongoConnectionStrings';
 import { IMongoTreeRoot } from './IMongoTreeRoot';
 import { MongoCollectionTreeItem } from './MongoCollectionTreeItem';
+import { MongoCollectionValidationTreeItem } from './MongoCollectionValidationTreeItem';
 import { MongoDatabaseTreeItem } from './MongoDatabaseTreeItem';
 import { MongoDocumentTreeItem } from './MongoDocumentTreeItem';
+import { MongoIndexesTreeItem } from './MongoIndexesTreeItem';
+import { MongoIndexTreeItem } from './MongoIndexTreeItem';
 
 export class MongoAccountTreeItem extends AzureParentTreeItem<IMongoTreeRoot> {
     public static contextValue: string = "cosmosDBMongoServer";
@@ -33,7 +36,7 @@ export class MongoAccountTreeItem extends AzureParentTreeItem<IMongoTreeRoot> {
         this.id = id;
         this.label = label;
         this.connectionString = connectionString;
-        this._root = Object.assign({}, parent.root, { isEmulator });
+        this._root = Object.assign({}, parent.root, { isEmulator, isCosmosDB: !!databaseAccount || isCosmosDBConnectionString(connectionString) });
     }
 
     // overrides ISubscriptionContext with an object that also has Mongo info
@@ -108,6 +111,9 @@ export class MongoAccountTreeItem extends AzureParentTreeItem<IMongoTreeRoot> {
             case MongoDatabaseTreeItem.contextValue:
             case MongoCollectionTreeItem.contextValue:
             case MongoDocumentTreeItem.contextValue:
+            case MongoIndexesTreeItem.contextValue:
+            case MongoIndexTreeItem.contextValue:
+            case MongoCollectionValidationTreeItem.contextValue:
                 return true;
             default:
                 return false;
@@ -6,23 +6,54 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import * as assert from 'assert';
-import { BulkWriteOpResultObject, Collection, CollectionInsertManyOptions, Cursor, DeleteWriteOpResultObject, InsertOneWriteOpResult, InsertWriteOpResult, MongoCountPreferences } from 'mongodb';
+import { BulkWriteOpResultObject, Collection, CollectionAggregationOptions, CollectionBulkWriteOptions, CollectionInsertManyOptions, Cursor, DeleteWriteOpResultObject, FindAndModifyWriteOpResultObject, FindOneAndDeleteOption, FindOneAndReplaceOption, FindOneAndUpdateOption, IndexOptions, InsertOneWriteOpResult, InsertWriteOpResult, MongoCountPreferences, ReplaceOneOptions, UpdateManyOptions, UpdateOneOptions, UpdateWriteOpResult } from 'mongodb';
 import * as _ from 'underscore';
 import * as vscode from 'vscode';
 import { AzExtTreeItem, AzureParentTreeItem, DialogResponses, IActionContext, ICreateChildImplContext, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
 import { IEditableTreeItem } from '../../DatabasesFileSystem';
 import { ext } from '../../extensionVariables';
+import { compareDocuments, IComparedDocument, IDocumentChanges } from '../../utils/documentChanges';
 import { nonNullValue } from '../../utils/nonNull';
 import { getDocumentTreeItemLabel } from '../../utils/vscodeUtils';
 import { getBatchSizeSetting } from '../../utils/workspacUtils';
-import { MongoCommand } from '../MongoCommand';
+import { MongoCommand, MongoFunctionCall } from '../MongoCommand';
 import { IMongoTreeRoot } from './IMongoTreeRoot';
-import { IMongoDocument, MongoDocumentTreeItem } from './MongoDocumentTreeItem';
+import { MongoCollectionValidationTreeItem } from './MongoCollectionValidationTreeItem';
+import { getDocumentIdKey, IMongoDocument, IResolvedMongoDocuments, MongoDocumentTreeItem, resolveMongoConflicts } from './MongoDocumentTreeItem';
+import { MongoIndexesTreeItem } from './MongoIndexesTreeItem';
 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
 const EJSON = require("mongodb-extended-json");
 
 type MongoFunction = (...args: ({} | {}[] | undefined)[]) => Thenable<string>;
 type MongoDocument = { _id: string };
+/**
+ * The shell's find-and-modify commands return the new document with `returnNewDocument`, whereas the driver uses `returnOriginal`
+ */
+type ShellFindAndModifyOptions = FindOneAndUpdateOption & { returnNewDocument?: boolean };
+/**
+ * The cursor methods that can follow `find` when running a command without the shell
+ */
+const cursorFunctions: string[] = ['sort', 'limit', 'skip', 'project', 'pretty', 'count'];
+
+/**
+ * The cursor methods chained to a `find` command, e.g. `sort` and `limit` in `db.c.find({}).sort({a: 1}).limit(10)`
+ */
+export interface IMongoCursorOptions {
+    sort?: object;
+    skip?: number;
+    limit?: number;
+    projection?: object;
+}
+
+export interface IMongoFindCommand {
+    findArgs: {}[];
+    cursorOptions: IMongoCursorOptions;
+    /**
+     * True if the command ends with `count()`, which returns the number of matching documents instead of the documents
+     */
+    isCount: boolean;
+}
+
 class FunctionDescriptor {
     public constructor(public mongoFunction: MongoFunction, public text: string, public minShellArgs: number, public maxShellArgs: number, public maxHandledArgs: number) {
     }
@@ -35,6 +66,7 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
     public readonly collection: Collection;
     public parent: AzureParentTreeItem;
     public findArgs?: {}[];
+    public cursorOptions?: IMongoCursorOptions;
     public readonly cTime: number = Date.now();
     public mTime: number = Date.now();
 
@@ -44,33 +76,47 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
     private _hasMoreChildren: boolean = true;
     private _batchSize: number = getBatchSizeSetting();
 
-    constructor(parent: AzureParentTreeItem, collection: Collection, findArgs?: {}[]) {
+    constructor(parent: AzureParentTreeItem, collection: Collection, findArgs?: {}[], cursorOptions?: IMongoCursorOptions) {
         super(parent);
         this.collection = collection;
         this.findArgs = findArgs;
+        this.cursorOptions = cursorOptions;
         if (findArgs && findArgs.length) {
             this._query = findArgs[0];
             this._projection = findArgs.length > 1 ? findArgs[1] : undefined;
         }
+        if (cursorOptions && cursorOptions.projection) {
+            this._projection = cursorOptions.projection;
+        }
         ext.fileSystem.fireChangedEvent(this);
     }
 
     public async writeFileContent(context: IActionContext, content: string): Promise<void> {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
         const documents: IMongoDocument[] = EJSON.parse(content);
-        const operations = documents.map((document) => {
+        const snapshots: IMongoDocument[] = (await this.getDocumentTreeItems(context)).map(c => c.document);
+        const snapshotIds: Set<string> = new Set(snapshots.map(s => getDocumentIdKey(s._id)));
+        const resolved: IResolvedMongoDocuments = await resolveMongoConflicts(this.collection, snapshots, documents);
+        const operations = resolved.replacements.map(({ document, upsert }) => {
+            if (document._id === undefined) {
+                return { insertOne: { document } };
+            }
             return {
                 replaceOne: {
                     filter: { _id: document._id },
                     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
                     replacement: _.omit(document, '_id'),
-                    upsert: false
+                    // Documents that weren't loaded were added to the file, but their ids may already be in the collection (e.g. past the loaded pages)
+                    upsert: upsert || !snapshotIds.has(getDocumentIdKey(document._id))
                 }
             };
         });
 
-        const result: BulkWriteOpResultObject = await this.collection.bulkWrite(operations);
-        ext.outputChannel.appendLog(`Successfully updated ${result.modifiedCount} document(s), inserted ${result.insertedCount} document(s)`);
+        if (operations.length) {
+            const result: BulkWriteOpResultObject = await this.collection.bulkWrite(operations);
+            ext.outputChannel.appendLog(`Successfully updated ${result.modifiedCount} document(s), inserted ${(result.insertedCount || 0) + (result.upsertedCount || 0)} document(s)`);
+        }
+        const savedDocuments: IMongoDocument[] = resolved.replacements.map(r => r.document).concat(resolved.remoteDocuments);
 
         // The current tree item may have been a temporary one used to execute a scrapbook command.
         // We want to refresh children for this one _and_ the actual one in the tree (if it's different)
@@ -80,7 +126,7 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
             nodesToRefresh.push(nodeInTree);
         }
 
-        await Promise.all(nodesToRefresh.map(n => n.refreshChildren(context, documents)));
+        await Promise.all(nodesToRefresh.map(n => n.refreshChildren(context, savedDocuments)));
 
         if (nodeInTree && this !== nodeInTree) {
             // Don't need to fire a changed event on the item being saved at the moment. Just the node in the tree if it's different
@@ -88,8 +134,15 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
         }
     }
 
+    public async getDocumentChanges(context: IActionContext, content: string): Promise<IDocumentChanges> {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        const documents: IMongoDocument[] = EJSON.parse(content);
+        const snapshots: IMongoDocument[] = (await this.getDocumentTreeItems(context)).map(c => c.document);
+        return compareDocuments(snapshots.map(toComparedDocument), documents.map(toComparedDocument));
+    }
+
     public async getFileContent(context: IActionContext): Promise<string> {
-        const children = <MongoDocumentTreeItem[]>await this.getCachedChildren(context);
+        const children: MongoDocumentTreeItem[] = await this.getDocumentTreeItems(context);
         // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
         return EJSON.stringify(children.map(c => c.document), null, 2);
     }
@@ -116,7 +169,7 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
     }
 
     public async refreshChildren(context: IActionContext, docs: IMongoDocument[]): Promise<void> {
-        const documentNodes = <MongoDocumentTreeItem[]>await this.getCachedChildren(context);
+        const documentNodes: MongoDocumentTreeItem[] = await this.getDocumentTreeItems(context);
         for (const doc of docs) {
             const documentNode = documentNodes.find((node) => node.document._id.toString() === doc._id.toString());
             if (documentNode) {
@@ -131,10 +184,16 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
     }
 
     public async loadMoreChildrenImpl(clearCache: boolean): Promise<AzExtTreeItem[]> {
+        const children: AzExtTreeItem[] = [];
         if (clearCache || this._cursor === undefined) {
-            this._cursor = this.collection.find(this._query).batchSize(this._batchSize);
-            if (this._projection) {
-                this._cursor = this._cursor.project(this._projection);
+            this._cursor = this.createCursor().batchSize(this._batchSize);
+            // The documents of a query opened from a scrapbook are shown without the indexes and validation rules of the collection
+            if (!this.findArgs && !this.cursorOptions) {
+                children.push(new MongoIndexesTreeItem(this));
+                // Cosmos DB doesn't support validation rules
+                if (!this.root.isCosmosDB) {
+                    children.push(new MongoCollectionValidationTreeItem(this));
+                }
             }
         }
 
@@ -151,12 +210,41 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
         }
         this._batchSize *= 2;
 
-        return this.createTreeItemsWithErrorHandling<IMongoDocument>(
+        return children.concat(await this.createTreeItemsWithErrorHandling<IMongoDocument>(
             documents,
             'invalidMongoDocument',
             doc => new MongoDocumentTreeItem(this, doc),
             getDocumentTreeItemLabel
-        );
+        ));
+    }
+
+    public compareChildrenImpl(item1: AzExtTreeItem, item2: AzExtTreeItem): number {
+        // Indexes and Validation are shown above the documents
+        const order1: number = getChildOrder(item1);
+        const order2: number = getChildOrder(item2);
+        return order1 !== order2 ? order1 - order2 : super.compareChildrenImpl(item1, item2);
+    }
+
+    /**
+     * Returns a new cursor over the documents matching the find arguments and cursor options of this collection, if any
+     */
+    public createCursor(): Cursor {
+        let cursor: Cursor = this.collection.find(this._query);
+        if (this._projection) {
+            cursor = cursor.project(this._projection);
+        }
+        if (this.cursorOptions) {
+            if (this.cursorOptions.sort) {
+                cursor = cursor.sort(this.cursorOptions.sort);
+            }
+            if (this.cursorOptions.skip !== undefined) {
+                cursor = cursor.skip(this.cursorOptions.skip);
+            }
+            if (this.cursorOptions.limit !== undefined) {
+                cursor = cursor.limit(this.cursorOptions.limit);
+            }
+        }
+        return cursor;
     }
 
     public async createChildImpl(context: ICreateChildImplContext): Promise<MongoDocumentTreeItem> {
@@ -168,6 +256,10 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
     }
 
     public async tryExecuteCommandDirectly(command: Partial<MongoCommand>): Promise<{ deferToShell: true; result: undefined } | { deferToShell: false; result: string }> {
+        if (command.chained) {
+            return await this.tryExecuteCursorCommandDirectly(command);
+        }
+
         // range and text are not neccessary properties for this function so partial should suffice
         const parameters = command.arguments ? command.arguments.map(parseJSContent) : [];
 
@@ -180,15 +272,22 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
             insertOne: new FunctionDescriptor(this.insertOne, 'Inserting document', 1, 2, 2),
             deleteMany: new FunctionDescriptor(this.deleteMany, 'Deleting documents', 1, 2, 1),
             deleteOne: new FunctionDescriptor(this.deleteOne, 'Deleting document', 1, 2, 1),
-            remove: new FunctionDescriptor(this.remove, 'Deleting document(s)', 1, 2, 1)
+            remove: new FunctionDescriptor(this.remove, 'Deleting document(s)', 1, 2, 1),
+            aggregate: new FunctionDescriptor(this.aggregate, 'Aggregating documents', 1, 2, 2),
+            updateOne: new FunctionDescriptor(this.updateOne, 'Updating document', 2, 3, 3),
+            updateMany: new FunctionDescriptor(this.updateMany, 'Updating documents', 2, 3, 3),
+            replaceOne: new FunctionDescriptor(this.replaceOne, 'Replacing document', 2, 3, 3),
+            findOneAndUpdate: new FunctionDescriptor(this.findOneAndUpdate, 'Updating document', 2, 3, 3),
+            findOneAndReplace: new FunctionDescriptor(this.findOneAndReplace, 'Replacing document', 2, 3, 3),
+            findOneAndDelete: new FunctionDescriptor(this.findOneAndDelete, 'Deleting document', 1, 2, 2),
+            distinct: new FunctionDescriptor(this.distinct, 'Finding distinct values', 1, 3, 2),
+            createIndex: new FunctionDescriptor(this.createIndex, 'Creating index', 1, 2, 2),
+            getIndexes: new FunctionDescriptor(this.getIndexes, 'Getting indexes', 0, 0, 0),
+            bulkWrite: new FunctionDescriptor(this.bulkWrite, 'Writing documents', 1, 2, 2)
         };
 
         // eslint-disable-next-line no-prototype-builtins
         if (command.name && functions.hasOwnProperty(command.name)) {
-            // currently no logic to handle chained commands so just defer to the shell right away
-            if (command.chained) {
-                return { deferToShell: true, result: undefined };
-            }
             // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
             const descriptor: FunctionDescriptor = functions[command.name];
 
@@ -217,6 +316,11 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
         }
     }
 
+    private async getDocumentTreeItems(context: IActionContext): Promise<MongoDocumentTreeItem[]> {
+        const children: AzExtTreeItem[] = await this.getCachedChildren(context);
+        return <MongoDocumentTreeItem[]>children.filter(child => child instanceof MongoDocumentTreeItem);
+    }
+
     private async drop(): Promise<string> {
         try {
             await this.collection.drop();
@@ -236,10 +340,7 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
     private async findOne(query?: Object, fieldsOption?: Object): Promise<string> {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
         const result = await this.collection.findOne(query || {}, { fields: fieldsOption });
-        // findOne is the only command in this file whose output requires EJSON support.
-        // Hence that's the only function which uses EJSON.stringify rather than this.stringify.
-        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
-        return EJSON.stringify(result, null, '\t');
+        return this.stringifyDocuments(result);
     }
 
     private async insert(document: Object): Promise<string> {
@@ -298,11 +399,129 @@ export class MongoCollectionTreeItem extends AzureParentTreeItem<IMongoTreeRoot>
         return this.stringify(count);
     }
 
+    /**
+     * Handles `find` followed by cursor methods, e.g. `db.c.find({}).sort({a: 1}).skip(10).limit(10)` or `db.c.find({}).count()`
+     */
+    private async tryExecuteCursorCommandDirectly(command: Partial<MongoCommand>): Promise<{ deferToShell: true; result: undefined } | { deferToShell: false; result: string }> {
+        const findCommand: IMongoFindCommand | undefined = getFindCommand(command);
+        if (!findCommand) {
+            return { deferToShell: true, result: undefined };
+        }
+
+        const node: MongoCollectionTreeItem = new MongoCollectionTreeItem(this.parent, this.collection, findCommand.findArgs, findCommand.cursorOptions);
+        if (findCommand.isCount) {
+            // Like the shell, the count ignores skip and limit
+            const count: number = await reportProgress(this.collection.countDocuments(node._query || {}), 'Counting documents');
+            return { deferToShell: false, result: this.stringify(count) };
+        }
+
+        let cursor: Cursor = node.createCursor();
+        if (findCommand.cursorOptions.limit === undefined) {
+            // Like the shell, only show the first batch of documents if there's no limit
+            cursor = cursor.limit(getBatchSizeSetting());
+        }
+        const documents: MongoDocument[] = <MongoDocument[]>await reportProgress(cursor.toArray(), 'Finding documents');
+        return { deferToShell: false, result: this.stringifyDocuments(documents) };
+    }
+
+    private async aggregate(pipeline: object[], options?: CollectionAggregationOptions): Promise<string> {
+        const documents: MongoDocument[] = await this.collection.aggregate<MongoDocument>(pipeline, options).toArray();
+        return this.stringifyDocuments(documents);
+    }
+
+    private async updateOne(filter: Object, update: Object, options?: UpdateOneOptions): Promise<string> {
+        return this.stringifyUpdateResult(await this.collection.updateOne(filter, update, options));
+    }
+
+    private async updateMany(filter: Object, update: Object, options?: UpdateManyOptions): Promise<string> {
+        return this.stringifyUpdateResult(await this.collection.updateMany(filter, update, options));
+    }
+
+    private async replaceOne(filter: Object, replacement: Object, options?: ReplaceOneOptions): Promise<string> {
+        return this.stringifyUpdateResult(await this.collection.replaceOne(filter, replacement, options));
+    }
+
+    private async findOneAndUpdate(filter: Object, update: Object, options?: ShellFindAndModifyOptions): Promise<string> {
+        const result = <FindAndModifyWriteOpResultObject<MongoDocument>>await this.collection.findOneAndUpdate(filter, update, toFindAndModifyOptions(options));
+        return this.stringifyDocuments(result.value || null);
+    }
+
+    private async findOneAndReplace(filter: Object, replacement: Object, options?: ShellFindAndModifyOptions): Promise<string> {
+        const result = <FindAndModifyWriteOpResultObject<MongoDocument>>await this.collection.findOneAndReplace(filter, replacement, toFindAndModifyOptions(options));
+        return this.stringifyDocuments(result.value || null);
+    }
+
+    private async findOneAndDelete(filter: Object, options?: FindOneAndDeleteOption): Promise<string> {
+        const result = <FindAndModifyWriteOpResultObject<MongoDocument>>await this.collection.findOneAndDelete(filter, options);
+        return this.stringifyDocuments(result.value || null);
+    }
+
+    private async distinct(field: string, query?: Object): Promise<string> {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const values: unknown[] = await this.collection.distinct(field, query || {});
+        return this.stringifyDocuments(values);
+    }
+
+    private async createIndex(keys: Object, options?: IndexOptions): Promise<string> {
+        const indexName: string = await this.collection.createIndex(keys, options);
+        return this.stringify(indexName);
+    }
+
+    private async getIndexes(): Promise<string> {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const indexes: {}[] = await this.collection.indexes();
+        return this.stringifyDocuments(indexes);
+    }
+
+    private async bulkWrite(operations: object[], options?: CollectionBulkWriteOptions): Promise<string> {
+        const result: BulkWriteOpResultObject = await this.collection.bulkWrite(operations, options);
+        return this.stringifyDocuments({
+            acknowledged: true,
+            insertedCount: result.insertedCount,
+            matchedCount: result.matchedCount,
+            modifiedCount: result.modifiedCount,
+            deletedCount: result.deletedCount,
+            upsertedCount: result.upsertedCount,
+            insertedIds: <{}>result.insertedIds,
+            upsertedIds: <{}>result.upsertedIds
+        });
+    }
+
+    /**
+     * Describes the result like the shell does, rather than including the raw driver result and connection
+     */
+    private stringifyUpdateResult(result: UpdateWriteOpResult): string {
+        return this.stringifyDocuments({
+            acknowledged: true,
+            matchedCount: result.matchedCount,
+            modifiedCount: result.modifiedCount,
+            upsertedId: result.upsertedId ? result.upsertedId._id : null
+        });
+    }
+
+    /**
+     * Uses EJSON so that BSON values such as ObjectIds and dates in documents can be read
+     */
+    private stringifyDocuments(result: unknown): string {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        return EJSON.stringify(result, null, '\t');
+    }
+
     private stringify(result: any): string {
         return JSON.stringify(result, null, '\t');
     }
 }
 
+function getChildOrder(item: AzExtTreeItem): number {
+    if (item instanceof MongoIndexesTreeItem) {
+        return 0;
+    } else if (item instanceof MongoCollectionValidationTreeItem) {
+        return 1;
+    } else {
+        return 2;
+    }
+}
+
 function reportProgress<T>(promise: Thenable<T>, title: string): Thenable<T> {
     return vscode.window.withProgress<T>(
         {
@@ -314,6 +533,55 @@ function reportProgress<T>(promise: Thenable<T>, title: string): Thenable<T> {
         });
 }
 
+/**
+ * Gets the find arguments and cursor options of a `find` command, or undefined if it isn't a `find` command or has cursor methods that can't be handled without the shell
+ */
+export function getFindCommand(command: Partial<MongoCommand>): IMongoFindCommand | undefined {
+    const functionCalls: MongoFunctionCall[] = command.functionCalls || [];
+    if (functionCalls.length === 0 || functionCalls[0].name !== 'find') {
+        return undefined;
+    }
+
+    const cursorCalls: MongoFunctionCall[] = functionCalls.slice(1);
+    const countIndex: number = cursorCalls.findIndex(call => call.name === 'count');
+    if (cursorCalls.some(call => !cursorFunctions.includes(call.name)) || (countIndex >= 0 && countIndex !== cursorCalls.length - 1)) {
+        return undefined;
+    }
+
+    const findArgs: {}[] = functionCalls[0].argumentObjects;
+    if (findArgs.length > 2) {
+        throw new Error('Too many arguments passed to command find');
+    }
+
+    const cursorOptions: IMongoCursorOptions = {};
+    for (const call of cursorCalls) {
+        const arg: unknown = call.argumentObjects[0];
+        if (call.name === 'sort' || call.name === 'project') {
+            if (call.argumentObjects.length !== 1 || !arg || typeof arg !== 'object') {
+                throw new Error(`The argument of ${call.name} must be an object.`);
+            }
+            cursorOptions[call.name === 'sort' ? 'sort' : 'projection'] = <object>arg;
+        } else if (call.name === 'limit' || call.name === 'skip') {
+            if (call.argumentObjects.length !== 1 || typeof arg !== 'number') {
+                throw new Error(`The argument of ${call.name} must be a number.`);
+            }
+            cursorOptions[call.name] = arg;
+        }
+        // "pretty" only changes how the shell prints documents
+    }
+
+    return { findArgs, cursorOptions, isCount: countIndex >= 0 };
+}
+
+function toFindAndModifyOptions(options: ShellFindAndModifyOptions | undefined): FindOneAndUpdateOption & FindOneAndReplaceOption {
+    if (!options) {
+        return {};
+    }
+
+    const { returnNewDocument, ...driverOptions } = options;
+    return returnNewDocument === undefined ? driverOptions : { ...driverOptions, returnOriginal: !returnNewDocument };
+}
+
 function parseJSContent(content: string): any {
     try {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
@@ -323,3 +591,13 @@ function parseJSContent(content: string): any {
         throw error.message;
     }
 }
+
+function toComparedDocument(document: IMongoDocument): IComparedDocument {
+    return {
+        key: document._id === undefined ? undefined : getDocumentIdKey(document._id),
+        label: getDocumentTreeItemLabel(document),
+        // Compare as Extended JSON so that BSON values such as ObjectIds are compared by value
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        document: EJSON.serialize(document)
+    };
+}
@@ -0,0 +1,151 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Db } from 'mongodb';
+import * as vscode from 'vscode';
+import { AzureTreeItem, IActionContext, TreeItemIconPath } from 'vscode-azureextensionui';
+import { IEditableTreeItem } from '../../DatabasesFileSystem';
+import { ext } from '../../extensionVariables';
+import { compareDocuments, IComparedDocument, IDocumentChanges } from '../../utils/documentChanges';
+import { localize } from '../../utils/localize';
+import { IMongoTreeRoot } from './IMongoTreeRoot';
+import { MongoCollectionTreeItem } from './MongoCollectionTreeItem';
+import { MongoDatabaseTreeItem } from './MongoDatabaseTreeItem';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
+
+/**
+ * The validation options of a collection, as set by `collMod`: https://docs.mongodb.com/manual/core/schema-validation/
+ */
+export interface IMongoValidationRules {
+    validator: {};
+    validationLevel: string;
+    validationAction: string;
+}
+
+const validationKeys: (keyof IMongoValidationRules)[] = ['validator', 'validationLevel', 'validationAction'];
+const validationLevels: string[] = ['off', 'strict', 'moderate'];
+const validationActions: string[] = ['error', 'warn'];
+
+/**
+ * Represents the editable validation rules (such as a `$jsonSchema` validator) of a Mongo collection
+ */
+export class MongoCollectionValidationTreeItem extends AzureTreeItem<IMongoTreeRoot> implements IEditableTreeItem {
+    public static contextValue: string = "MongoCollectionValidation";
+    public readonly contextValue: string = MongoCollectionValidationTreeItem.contextValue;
+    public readonly commandId: string = 'cosmosDB.openMongoCollectionValidation';
+    public readonly cTime: number = Date.now();
+    // Inserts and updates that break the new rules will fail
+    public readonly isSavePreviewRequired: boolean = true;
+    public readonly parent: MongoCollectionTreeItem;
+    public mTime: number = Date.now();
+
+    constructor(parent: MongoCollectionTreeItem) {
+        super(parent);
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public get id(): string {
+        return '$Validation';
+    }
+
+    public get label(): string {
+        return localize('validation', 'Validation');
+    }
+
+    public get filePath(): string {
+        return this.parent.label + '-cosmos-validation.json';
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('checklist');
+    }
+
+    public async refreshImpl(): Promise<void> {
+        ext.fileSystem.fireChangedEvent(this);
+    }
+
+    public async getFileContent(): Promise<string> {
+        return stringifyValidationRules(await this.readValidationRules(await this.connectToDb()));
+    }
+
+    public async getDocumentChanges(_context: IActionContext, content: string): Promise<IDocumentChanges> {
+        const newRules: IMongoValidationRules = parseValidationRules(content);
+        const oldRules: IMongoValidationRules = await this.readValidationRules(await this.connectToDb());
+        const changes: IDocumentChanges = compareDocuments([this.toComparedDocument(oldRules)], [this.toComparedDocument(newRules)]);
+        changes.confirmation = localize('replaceValidation', 'Review the changes to the validation rules of collection "{0}". Existing documents aren\'t validated, but inserts and updates that break the rules will fail. Update the collection?', this.parent.label);
+        return changes;
+    }
+
+    public async writeFileContent(_context: IActionContext, content: string): Promise<void> {
+        const newRules: IMongoValidationRules = parseValidationRules(content);
+        const db: Db = await this.connectToDb();
+        await db.command({ collMod: this.parent.collection.collectionName, ...newRules });
+        ext.outputChannel.appendLog(localize('updatedValidation', 'Updated the validation rules of collection "{0}".', this.parent.label));
+    }
+
+    private toComparedDocument(rules: IMongoValidationRules): IComparedDocument {
+        // Compare as Extended JSON, as the rules are shown in the file
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        return { key: this.id, label: this.label, document: EJSON.serialize(rules) };
+    }
+
+    private async connectToDb(): Promise<Db> {
+        return await (<MongoDatabaseTreeItem>this.parent.parent).connectToDb();
+    }
+
+    private async readValidationRules(db: Db): Promise<IMongoValidationRules> {
+        const collectionInfo: { options?: Partial<IMongoValidationRules> } | null = <{ options?: Partial<IMongoValidationRules> } | null>await db.listCollections({ name: this.parent.collection.collectionName }).next();
+        const options: Partial<IMongoValidationRules> = collectionInfo && collectionInfo.options || {};
+        // Collections without rules report nothing, which is the same as these defaults
+        return {
+            validator: options.validator || {},
+            validationLevel: options.validationLevel || 'strict',
+            validationAction: options.validationAction || 'error'
+        };
+    }
+}
+
+function stringifyValidationRules(rules: IMongoValidationRules): string {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+    return EJSON.stringify(rules, null, 2);
+}
+
+export function parseValidationRules(content: string): IMongoValidationRules {
+    let rules: Partial<IMongoValidationRules>;
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        rules = EJSON.parse(content);
+    } catch (error) {
+        throw new Error(localize('invalidValidationJson', 'The validation rules must be valid JSON: {0}', (<Error>error).message));
+    }
+
+    if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+        throw new Error(localize('validationNotObject', 'The validation rules must be a JSON object.'));
+    }
+
+    for (const key of Object.keys(rules)) {
+        if (!validationKeys.includes(<keyof IMongoValidationRules>key)) {
+            throw new Error(localize('unknownValidationKey', 'Unknown property "{0}". Allowed properties are: {1}', key, validationKeys.join(', ')));
+        }
+    }
+
+    const validator: {} | undefined = rules.validator;
+    if (validator !== undefined && (!validator || typeof validator !== 'object' || Array.isArray(validator))) {
+        throw new Error(localize('validatorNotObject', '"validator" must be a JSON object, such as { "$jsonSchema": { ... } }.'));
+    }
+    if (rules.validationLevel !== undefined && !validationLevels.includes(rules.validationLevel)) {
+        throw new Error(localize('invalidValidationLevel', '"validationLevel" must be one of: {0}', validationLevels.join(', ')));
+    }
+    if (rules.validationAction !== undefined && !validationActions.includes(rules.validationAction)) {
+        throw new Error(localize('invalidValidationAction', '"validationAction" must be one of: {0}', validationActions.join(', ')));
+    }
+
+    return {
+        validator: validator || {},
+        validationLevel: rules.validationLevel || 'strict',
+        validationAction: rules.validationAction || 'error'
+    };
+}
@@ -19,6 +19,8 @@ import { MongoShell } from '../MongoShell';
 import { IMongoTreeRoot } from './IMongoTreeRoot';
 import { MongoAccountTreeItem } from './MongoAccountTreeItem';
 import { MongoCollectionTreeItem } from './MongoCollectionTreeItem';
+// eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-var-requires
+const EJSON = require("mongodb-extended-json");
 
 const mongoExecutableFileName = process.platform === 'win32' ? 'mongo.exe' : 'mongo';
 const executingInShellMsg = "Executing command in Mongo shell";
@@ -112,6 +114,10 @@ export class MongoDatabaseTreeItem extends AzureParentTreeItem<IMongoTreeRoot> {
         if (command.name === 'createCollection') {
             // arguments  are all strings so DbCollectionOptions is represented as a JSON string which is why we pass argumentObjects instead
             return withProgress(this.createCollection(stripQuotes(nonNullProp(command, 'arguments')[0]), nonNullProp(command, 'argumentObjects')[1]).then(() => JSON.stringify({ Created: 'Ok' })), 'Creating collection');
+        } else if (command.name === 'runCommand' && !command.chained) {
+            return withProgress(this.runCommand(nonNullProp(command, 'argumentObjects')[0]), 'Running command');
+        } else if (command.name === 'getCollectionNames' && !command.chained) {
+            return withProgress(this.getCollectionNames(), 'Getting collection names');
         } else {
             return withProgress(this.executeCommandInShell(command, context), executingInShellMsg);
         }
@@ -128,6 +134,29 @@ export class MongoDatabaseTreeItem extends AzureParentTreeItem<IMongoTreeRoot> {
         return new MongoCollectionTreeItem(this, newCollection);
     }
 
+    /**
+     * Like the shell, accepts the name of a command as a shortcut for `{ <name>: 1 }`
+     */
+    private async runCommand(command: Object | undefined): Promise<string> {
+        if (typeof command === 'string') {
+            command = { [command]: 1 };
+        } else if (!command || typeof command !== 'object') {
+            throw new Error('The runCommand command requires a command document or the name of a command.');
+        }
+
+        const db: Db = await this.connectToDb();
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        const result: {} = await db.command(command);
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+        return EJSON.stringify(result, null, '\t');
+    }
+
+    private async getCollectionNames(): Promise<string> {
+        const db: Db = await this.connectToDb();
+        const collections: { name: string }[] = <{ name: string }[]>await db.listCollections({}, { nameOnly: true }).toArray();
+        return JSON.stringify(collections.map(collection => collection.name).sort(), null, '\t');
+    }
+
     private async executeCommandInShell(command: MongoCommand, context: IActionContext): Promise<string> {
         context.telemetry.properties.executeInShell = "true";
 
@@ -9,6 +9,8 @@ import * as vscode from 'vscode';
 import { AzureTreeItem, DialogResponses, IActionContext, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
 import { IEditableTreeItem } from '../../DatabasesFileSystem';
 import { ext } from '../../extensionVariables';
+import { resolveDocumentConflict } from '../../utils/documentConflicts';
+import { nonNullValue } from '../../utils/nonNull';
 import { getDocumentTreeItemLabel } from '../../utils/vscodeUtils';
 import { IMongoTreeRoot } from './IMongoTreeRoot';
 import { MongoCollectionTreeItem } from './MongoCollectionTreeItem';
@@ -58,14 +60,14 @@ export class MongoDocumentTreeItem extends AzureTreeItem<IMongoTreeRoot> impleme
         return this.label + '-cosmos-document.json';
     }
 
-    public static async update(collection: Collection, newDocument: IMongoDocument): Promise<IMongoDocument> {
+    public static async update(collection: Collection, newDocument: IMongoDocument, upsert: boolean = false): Promise<IMongoDocument> {
         if (!newDocument._id) {
             throw new Error(`The "_id" field is required to update a document.`);
         }
         const filter: object = { _id: newDocument._id };
         // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
-        const result: UpdateWriteOpResult = await collection.replaceOne(filter, _.omit(newDocument, '_id'));
-        if (result.modifiedCount !== 1) {
+        const result: UpdateWriteOpResult = await collection.replaceOne(filter, _.omit(newDocument, '_id'), { upsert });
+        if (result.modifiedCount !== 1 && result.upsertedCount !== 1) {
             throw new Error(`Failed to update document with _id '${newDocument._id}'.`);
         }
         return newDocument;
@@ -97,6 +99,97 @@ export class MongoDocumentTreeItem extends AzureTreeItem<IMongoTreeRoot> impleme
     public async writeFileContent(_context: IActionContext, content: string): Promise<void> {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
         const newDocument: IMongoDocument = EJSON.parse(content);
-        this.document = await MongoDocumentTreeItem.update(this.parent.collection, newDocument);
+        const resolved: IResolvedMongoDocuments = await resolveMongoConflicts(this.parent.collection, [this.document], [newDocument]);
+        if (resolved.replacements.length) {
+            const { document, upsert } = resolved.replacements[0];
+            this.document = await MongoDocumentTreeItem.update(this.parent.collection, document, upsert);
+        } else if (resolved.remoteDocuments.length) {
+            this.document = resolved.remoteDocuments[0];
+        }
+    }
+}
+
+export interface IMongoReplacement {
+    document: IMongoDocument;
+    /**
+     * True if the document was deleted in the database after it was opened, and should be saved again
+     */
+    upsert: boolean;
+}
+
+export interface IResolvedMongoDocuments {
+    replacements: IMongoReplacement[];
+    /**
+     * The documents that were changed in the database, where the user chose to keep those changes instead of theirs
+     */
+    remoteDocuments: IMongoDocument[];
+}
+
+/**
+ * Compares the documents in the database with the snapshots of the documents that were opened, and asks how to resolve the ones that were changed or deleted since.
+ * Documents that weren't edited are skipped, and documents without a snapshot, e.g. new documents, are replaced as is
+ */
+export async function resolveMongoConflicts(collection: Collection, snapshots: IMongoDocument[], documents: IMongoDocument[]): Promise<IResolvedMongoDocuments> {
+    const snapshotsById: Map<string, IMongoDocument> = new Map<string, IMongoDocument>();
+    for (const snapshot of snapshots) {
+        snapshotsById.set(getDocumentIdKey(snapshot._id), snapshot);
+    }
+
+    // Documents that are the same as when they were opened don't need to be written, even if they were changed in the database since
+    const editedDocuments: IMongoDocument[] = documents.filter(d => {
+        const snapshot: IMongoDocument | undefined = d._id === undefined ? undefined : snapshotsById.get(getDocumentIdKey(d._id));
+        return !snapshot || !isSameDocument(snapshot, d);
+    });
+
+    const ids: (string | ObjectID)[] = editedDocuments.filter(d => d._id !== undefined && snapshotsById.has(getDocumentIdKey(d._id))).map(d => d._id);
+    const remoteDocumentsById: Map<string, IMongoDocument> = new Map<string, IMongoDocument>();
+    if (ids.length) {
+        for (const remoteDocument of await collection.find<IMongoDocument>({ _id: { $in: ids } }).toArray()) {
+            remoteDocumentsById.set(getDocumentIdKey(remoteDocument._id), remoteDocument);
+        }
     }
+
+    const result: IResolvedMongoDocuments = { replacements: [], remoteDocuments: [] };
+    for (const document of editedDocuments) {
+        const key: string | undefined = document._id === undefined ? undefined : getDocumentIdKey(document._id);
+        const snapshot: IMongoDocument | undefined = key === undefined ? undefined : snapshotsById.get(key);
+        const remoteDocument: IMongoDocument | undefined = key === undefined ? undefined : remoteDocumentsById.get(key);
+        if (!snapshot || (remoteDocument && isSameDocument(snapshot, remoteDocument))) {
+            result.replacements.push({ document, upsert: false });
+            continue;
+        }
+
+        // The document was changed or deleted in the database after it was opened
+        const resolved: {} | undefined = await resolveDocumentConflict({
+            label: getDocumentTreeItemLabel(snapshot),
+            original: toExtendedJson(snapshot),
+            remote: remoteDocument && toExtendedJson(remoteDocument),
+            local: toExtendedJson(document)
+        });
+        if (resolved) {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+            result.replacements.push({ document: <IMongoDocument>EJSON.deserialize(resolved), upsert: !remoteDocument });
+        } else {
+            result.remoteDocuments.push(nonNullValue(remoteDocument, 'remoteDocument'));
+        }
+    }
+    return result;
+}
+
+function isSameDocument(document1: IMongoDocument, document2: IMongoDocument): boolean {
+    // Compare as Extended JSON so that BSON values such as ObjectIds are compared by value
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+    return _.isEqual(toExtendedJson(document1), toExtendedJson(document2));
+}
+
+/**
+ * Returns a key that identifies a document by its _id, which can be an ObjectId or any other value
+ */
+export function getDocumentIdKey(id: unknown): string {
+    return JSON.stringify(toExtendedJson(id));
+}
+
+function toExtendedJson(value: unknown): {} {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-return, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
+    return EJSON.serialize(value);
 }
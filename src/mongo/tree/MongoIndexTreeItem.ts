@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { AzureTreeItem, DialogResponses, TreeItemIconPath, UserCancelledError } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+import { defaultIdIndexName, getIndexDescription, getIndexDetails, IMongoIndex } from '../mongoIndexes';
+import { IMongoTreeRoot } from './IMongoTreeRoot';
+import { MongoIndexesTreeItem } from './MongoIndexesTreeItem';
+
+export class MongoIndexTreeItem extends AzureTreeItem<IMongoTreeRoot> {
+    public static contextValue: string = "MongoIndex";
+    public readonly contextValue: string = MongoIndexTreeItem.contextValue;
+    public readonly parent: MongoIndexesTreeItem;
+    public readonly index: IMongoIndex;
+    public readonly description: string;
+    public readonly tooltip: string;
+
+    constructor(parent: MongoIndexesTreeItem, index: IMongoIndex, size?: number) {
+        super(parent);
+        this.index = index;
+        this.description = getIndexDescription(index, size);
+        this.tooltip = getIndexDetails(index, size);
+    }
+
+    public get id(): string {
+        return this.index.name;
+    }
+
+    public get label(): string {
+        return this.index.name;
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('key');
+    }
+
+    public async deleteTreeItemImpl(): Promise<void> {
+        if (this.index.name === defaultIdIndexName) {
+            throw new Error(localize('cantDropIdIndex', 'The index on "_id" can\'t be dropped.'));
+        }
+
+        const message: string = localize('deleteIndex', 'Are you sure you want to drop index "{0}"?', this.label);
+        const result = await ext.ui.showWarningMessage(message, { modal: true }, DialogResponses.deleteResponse, DialogResponses.cancel);
+        if (result === DialogResponses.deleteResponse) {
+            await this.parent.collection.dropIndex(this.index.name);
+        } else {
+            throw new UserCancelledError();
+        }
+    }
+}
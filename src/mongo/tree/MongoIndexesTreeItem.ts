@@ -0,0 +1,114 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Collection } from 'mongodb';
+import * as vscode from 'vscode';
+import { AzExtTreeItem, AzureParentTreeItem, AzureWizard, ICreateChildImplContext, TreeItemIconPath } from 'vscode-azureextensionui';
+import { ext } from '../../extensionVariables';
+import { localize } from '../../utils/localize';
+import { nonNullProp } from '../../utils/nonNull';
+import { IMongoIndexWizardContext } from '../commands/createMongoIndex/IMongoIndexWizardContext';
+import { IndexCreateStep } from '../commands/createMongoIndex/steps/IndexCreateStep';
+import { IndexDirectionsStep } from '../commands/createMongoIndex/steps/IndexDirectionsStep';
+import { IndexExpirationStep } from '../commands/createMongoIndex/steps/IndexExpirationStep';
+import { IndexFieldsStep } from '../commands/createMongoIndex/steps/IndexFieldsStep';
+import { IndexNameStep } from '../commands/createMongoIndex/steps/IndexNameStep';
+import { IndexPartialFilterStep } from '../commands/createMongoIndex/steps/IndexPartialFilterStep';
+import { IndexTypeStep } from '../commands/createMongoIndex/steps/IndexTypeStep';
+import { cosmosDBIndexCaveats, getIndexDescription, IMongoIndex } from '../mongoIndexes';
+import { IMongoTreeRoot } from './IMongoTreeRoot';
+import { MongoCollectionTreeItem } from './MongoCollectionTreeItem';
+import { MongoIndexTreeItem } from './MongoIndexTreeItem';
+
+/**
+ * This class represents the "Indexes" node of a Mongo collection in the tree
+ */
+export class MongoIndexesTreeItem extends AzureParentTreeItem<IMongoTreeRoot> {
+    public static contextValue: string = "MongoIndexes";
+    public readonly contextValue: string = MongoIndexesTreeItem.contextValue;
+    public readonly childTypeLabel: string = "Index";
+    public readonly parent: MongoCollectionTreeItem;
+
+    constructor(parent: MongoCollectionTreeItem) {
+        super(parent);
+    }
+
+    public get id(): string {
+        return "$Indexes";
+    }
+
+    public get label(): string {
+        return "Indexes";
+    }
+
+    public get iconPath(): TreeItemIconPath {
+        return new vscode.ThemeIcon('list-ordered');
+    }
+
+    public get tooltip(): string | undefined {
+        return this.root.isCosmosDB ? cosmosDBIndexCaveats.join('\n') : undefined;
+    }
+
+    public get collection(): Collection {
+        return this.parent.collection;
+    }
+
+    public hasMoreChildrenImpl(): boolean {
+        return false;
+    }
+
+    public async loadMoreChildrenImpl(_clearCache: boolean): Promise<AzExtTreeItem[]> {
+        const indexes: IMongoIndex[] = <IMongoIndex[]>await this.collection.indexes();
+        const indexSizes: { [name: string]: number } = await this.getIndexSizes();
+        return this.createTreeItemsWithErrorHandling<IMongoIndex>(
+            indexes,
+            'invalidMongoIndex',
+            index => new MongoIndexTreeItem(this, index, indexSizes[index.name]),
+            index => index.name
+        );
+    }
+
+    public isAncestorOfImpl(contextValue: string): boolean {
+        return contextValue === MongoIndexTreeItem.contextValue;
+    }
+
+    public async createChildImpl(context: ICreateChildImplContext): Promise<MongoIndexTreeItem> {
+        const existingIndexes: IMongoIndex[] = <IMongoIndex[]>await this.collection.indexes();
+        const wizardContext: IMongoIndexWizardContext = Object.assign(context, {
+            collection: this.collection,
+            existingIndexNames: existingIndexes.map(index => index.name),
+            isCosmosDB: this.root.isCosmosDB
+        });
+
+        const wizard = new AzureWizard(wizardContext, {
+            promptSteps: [new IndexTypeStep(), new IndexFieldsStep(), new IndexDirectionsStep(), new IndexExpirationStep(), new IndexPartialFilterStep(), new IndexNameStep()],
+            executeSteps: [new IndexCreateStep()],
+            title: localize('createMongoIndex', 'Create Index')
+        });
+
+        await wizard.prompt();
+        context.showCreatingTreeItem(nonNullProp(wizardContext, 'name'));
+        await wizard.execute();
+
+        const index: IMongoIndex = nonNullProp(wizardContext, 'index');
+        const createdMessage: string = localize('createdMongoIndex', 'Created index "{0}" {1} on collection "{2}".', index.name, getIndexDescription(index), this.collection.collectionName);
+        ext.outputChannel.appendLog(createdMessage);
+        if (this.root.isCosmosDB) {
+            void vscode.window.showInformationMessage(`${createdMessage} ${cosmosDBIndexCaveats[0]}`);
+        }
+        return new MongoIndexTreeItem(this, index);
+    }
+
+    /**
+     * Returns the size in bytes of each index, or no sizes if the account doesn't report them
+     */
+    private async getIndexSizes(): Promise<{ [name: string]: number }> {
+        try {
+            return (await this.collection.stats()).indexSizes;
+        } catch {
+            return {};
+        }
+    }
+}
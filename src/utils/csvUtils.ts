@@ -0,0 +1,99 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export type FlattenedDocument = { [column: string]: string | number | boolean | null };
+
+/**
+ * Flattens a JSON document into columns for a CSV file. Nested objects use dotted column names (e.g. "address.zipCode"),
+ * arrays are kept as JSON text, and Extended JSON wrappers such as {"$oid": "..."} are replaced with their value
+ */
+export function flattenDocument(document: {}): FlattenedDocument {
+    const result: FlattenedDocument = {};
+    flattenValue(document, '', result);
+    return result;
+}
+
+export function toCsvRow(values: (string | number | boolean | null | undefined)[]): string {
+    return values.map(escapeCsvValue).join(',');
+}
+
+/**
+ * Converts a row of a CSV file into a document. This is the reverse of `flattenDocument`: dotted column names become nested objects,
+ * and values are converted to numbers, booleans, null, arrays or objects where possible. Empty values are left out of the document
+ */
+export function parseCsvDocument(columns: string[], values: string[]): {} {
+    const document: {} = {};
+    columns.forEach((column: string, i: number) => {
+        if (column && values[i] !== '') {
+            const fields: string[] = column.split('.');
+            let interim: {} = document;
+            for (const field of fields.slice(0, -1)) {
+                if (!interim[field] || typeof interim[field] !== 'object') {
+                    interim[field] = {};
+                }
+                // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+                interim = interim[field];
+            }
+            interim[fields[fields.length - 1]] = parseCsvValue(values[i]);
+        }
+    });
+    return document;
+}
+
+export function parseCsvValue(value: string): unknown {
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    } else if (value === 'null') {
+        return null;
+    } else if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) {
+        // Numbers with leading zeros (e.g. zip codes) are kept as strings
+        return Number(value);
+    } else if (/^\s*[[{]/.test(value)) {
+        try {
+            return JSON.parse(value);
+        } catch {
+            return value;
+        }
+    }
+    return value;
+}
+
+function flattenValue(value: unknown, column: string, result: FlattenedDocument): void {
+    if (value === null || value === undefined) {
+        result[column] = null;
+    } else if (Array.isArray(value)) {
+        result[column] = JSON.stringify(value);
+    } else if (typeof value === 'object') {
+        const keys: string[] = Object.keys(<{}>value);
+        if (keys.length === 1 && keys[0].startsWith('$') && column) {
+            // An Extended JSON value such as {"$oid": "..."} or {"$date": "..."}
+            const innerValue: unknown = (<{}>value)[keys[0]];
+            result[column] = isPrimitive(innerValue) ? <string | number | boolean>innerValue : JSON.stringify(innerValue);
+        } else if (keys.length === 0 && column) {
+            result[column] = '{}';
+        } else {
+            for (const key of keys) {
+                flattenValue((<{}>value)[key], column ? `${column}.${key}` : key, result);
+            }
+        }
+    } else if (isPrimitive(value)) {
+        result[column] = <string | number | boolean>value;
+    } else {
+        result[column] = String(value);
+    }
+}
+
+function isPrimitive(value: unknown): boolean {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    const text: string = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
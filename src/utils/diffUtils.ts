@@ -0,0 +1,52 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { ext } from '../extensionVariables';
+import { randomUtils } from './randomUtils';
+
+const diffScheme: string = 'azureDatabasesDiff';
+let contentProvider: DiffContentProvider | undefined;
+
+/**
+ * Opens a read-only diff editor comparing two in-memory contents
+ * @param label Used for the title of the diff editor and the file names displayed in VS Code
+ * @param fileExtension Used to pick the language of the diff editor, e.g. '.json'
+ * @param viewColumn Used to show several diffs side by side
+ */
+export async function showDiff(label: string, original: string, modified: string, fileExtension: string, originalTitle: string = 'Original', modifiedTitle: string = 'Modified', viewColumn?: vscode.ViewColumn): Promise<void> {
+    const provider: DiffContentProvider = getContentProvider();
+    const originalUri: vscode.Uri = provider.addContent(`${label}-${originalTitle}${fileExtension}`, original);
+    const modifiedUri: vscode.Uri = provider.addContent(`${label}-${modifiedTitle}${fileExtension}`, modified);
+    await vscode.commands.executeCommand('vscode.diff', originalUri, modifiedUri, `${label} (${originalTitle} ↔ ${modifiedTitle})`, { preview: true, viewColumn });
+}
+
+function getContentProvider(): DiffContentProvider {
+    if (!contentProvider) {
+        contentProvider = new DiffContentProvider();
+        ext.context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(diffScheme, contentProvider));
+        ext.context.subscriptions.push(vscode.workspace.onDidCloseTextDocument((document: vscode.TextDocument) => contentProvider?.removeContent(document.uri)));
+    }
+    return contentProvider;
+}
+
+class DiffContentProvider implements vscode.TextDocumentContentProvider {
+    private _contents: Map<string, string> = new Map<string, string>();
+
+    public addContent(fileName: string, content: string): vscode.Uri {
+        // Use a random folder so that showing the same file name twice doesn't show stale content
+        const uri: vscode.Uri = vscode.Uri.parse(`${diffScheme}:/${randomUtils.getRandomHexString(12)}/${encodeURIComponent(fileName)}`);
+        this._contents.set(uri.toString(), content);
+        return uri;
+    }
+
+    public removeContent(uri: vscode.Uri): void {
+        this._contents.delete(uri.toString());
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this._contents.get(uri.toString()) || '';
+    }
+}
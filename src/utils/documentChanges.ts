@@ -0,0 +1,103 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { isDeepStrictEqual } from 'util';
+
+export interface IDocumentChange {
+    label: string;
+    /**
+     * The document as it was loaded, or undefined if it was added
+     */
+    original?: {};
+    /**
+     * The document as it was edited, or undefined if it was removed
+     */
+    modified?: {};
+    /**
+     * The paths of the fields that were changed, added or removed, in dot notation
+     */
+    fields: string[];
+}
+
+/**
+ * The changes between the documents that were loaded into a file and the documents in the edited file. The documents are plain JSON, e.g. Mongo documents as Extended JSON
+ */
+export interface IDocumentChanges {
+    modified: IDocumentChange[];
+    added: IDocumentChange[];
+    removed: IDocumentChange[];
+    unchangedCount: number;
+    /**
+     * Asks to confirm the save instead of the message that counts the documents, e.g. for a file of settings
+     */
+    confirmation?: string;
+}
+
+/**
+ * A document to compare, with the key that identifies it (e.g. its id) and the label that describes it
+ */
+export interface IComparedDocument {
+    key: string | undefined;
+    label: string;
+    document: {};
+}
+
+/**
+ * Compares the documents that were loaded into a file with the documents in the edited file, by their keys
+ */
+export function compareDocuments(loadedDocuments: IComparedDocument[], editedDocuments: IComparedDocument[]): IDocumentChanges {
+    const loadedByKey: Map<string, IComparedDocument> = new Map<string, IComparedDocument>();
+    for (const loaded of loadedDocuments) {
+        if (loaded.key !== undefined) {
+            loadedByKey.set(loaded.key, loaded);
+        }
+    }
+
+    const changes: IDocumentChanges = { modified: [], added: [], removed: [], unchangedCount: 0 };
+    const editedKeys: Set<string> = new Set<string>();
+    for (const edited of editedDocuments) {
+        const loaded: IComparedDocument | undefined = edited.key === undefined ? undefined : loadedByKey.get(edited.key);
+        if (edited.key !== undefined) {
+            editedKeys.add(edited.key);
+        }
+
+        if (!loaded) {
+            changes.added.push({ label: edited.label, modified: edited.document, fields: [] });
+        } else if (isDeepStrictEqual(loaded.document, edited.document)) {
+            changes.unchangedCount += 1;
+        } else {
+            changes.modified.push({ label: edited.label, original: loaded.document, modified: edited.document, fields: getChangedFields(loaded.document, edited.document, '') });
+        }
+    }
+
+    for (const [key, loaded] of loadedByKey) {
+        if (!editedKeys.has(key)) {
+            changes.removed.push({ label: loaded.label, original: loaded.document, fields: [] });
+        }
+    }
+    return changes;
+}
+
+function getChangedFields(original: unknown, modified: unknown, path: string): string[] {
+    if (isDeepStrictEqual(original, modified)) {
+        return [];
+    } else if (isFieldObject(original) && isFieldObject(modified)) {
+        const fields: string[] = [];
+        const keys: Set<string> = new Set([...Object.keys(original), ...Object.keys(modified)]);
+        for (const key of keys) {
+            fields.push(...getChangedFields(original[key], modified[key], path ? `${path}.${key}` : key));
+        }
+        return fields;
+    } else {
+        return [path];
+    }
+}
+
+/**
+ * Returns true for objects whose fields are compared one by one. Extended JSON values such as `{ "$oid": "..." }` are compared as a whole
+ */
+function isFieldObject(value: unknown): value is { [key: string]: unknown } {
+    return !!value && typeof value === 'object' && !Array.isArray(value) && !Object.keys(<{}>value).some(key => key.startsWith('$'));
+}
@@ -0,0 +1,117 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { isDeepStrictEqual } from 'util';
+import * as vscode from 'vscode';
+import { DialogResponses } from 'vscode-azureextensionui';
+import { ext } from '../extensionVariables';
+import { showDiff } from './diffUtils';
+import { localize } from './localize';
+
+/**
+ * A document that was changed in the database after it was opened. The documents are plain JSON, e.g. Mongo documents as Extended JSON
+ */
+export interface IDocumentConflict {
+    /**
+     * Used for the messages and the titles of the diff editors, e.g. the label of the document
+     */
+    label: string;
+    /**
+     * The document as it was when it was opened
+     */
+    original: {};
+    /**
+     * The document as it is now in the database, or undefined if it was deleted
+     */
+    remote: {} | undefined;
+    /**
+     * The document as it was edited
+     */
+    local: {};
+}
+
+export interface IMergedDocument {
+    document: {};
+    /**
+     * The paths of the fields that were changed differently in the database and in the editor. The merged document has the edited values of these fields
+     */
+    conflicts: string[];
+}
+
+/**
+ * Shows a three-way diff of a conflict and asks which changes to keep.
+ * Returns the document to write, or undefined to keep the document in the database. Throws a UserCancelledError if the user cancels
+ */
+export async function resolveDocumentConflict(conflict: IDocumentConflict): Promise<{} | undefined> {
+    const { label, original, remote, local } = conflict;
+    const originalTitle: string = localize('originalTitle', 'Original');
+    const remoteTitle: string = localize('remoteTitle', 'Remote');
+    const localTitle: string = localize('localTitle', 'Local');
+    if (remote) {
+        await showDiff(label, stringifyDocument(original), stringifyDocument(remote), '.json', originalTitle, remoteTitle, vscode.ViewColumn.Beside);
+    }
+    await showDiff(label, stringifyDocument(original), stringifyDocument(local), '.json', originalTitle, localTitle, vscode.ViewColumn.Beside);
+
+    const keepLocal: vscode.MessageItem = { title: localize('keepLocal', 'Keep Mine') };
+    if (!remote) {
+        const deletedMessage: string = localize('documentDeletedConflict', 'Document "{0}" was deleted in the database after you opened it. Save it again with your changes?', label);
+        await ext.ui.showWarningMessage(deletedMessage, { modal: true }, keepLocal, DialogResponses.cancel);
+        return local;
+    }
+
+    const keepRemote: vscode.MessageItem = { title: localize('keepRemote', 'Keep Theirs') };
+    const merge: vscode.MessageItem = { title: localize('merge', 'Merge') };
+    const message: string = localize('documentChangedConflict', 'Document "{0}" was changed in the database after you opened it. Compare the changes, then keep yours, keep theirs, or merge both (where both changed the same field, yours is kept).', label);
+    const result: vscode.MessageItem = await ext.ui.showWarningMessage(message, { modal: true }, keepLocal, keepRemote, merge, DialogResponses.cancel);
+    if (result === keepRemote) {
+        return undefined;
+    } else if (result === merge) {
+        const merged: IMergedDocument = mergeDocuments(original, remote, local);
+        if (merged.conflicts.length) {
+            ext.outputChannel.appendLog(localize('mergedWithConflicts', 'Merged document "{0}". Kept your changes to the fields that were also changed in the database: {1}', label, merged.conflicts.join(', ')));
+        }
+        return merged.document;
+    } else {
+        return local;
+    }
+}
+
+/**
+ * Merges the changes made in the database and in the editor to a document, field by field
+ */
+export function mergeDocuments(original: {}, remote: {}, local: {}): IMergedDocument {
+    const conflicts: string[] = [];
+    const document: {} = <{}>mergeValues(original, remote, local, '', conflicts);
+    return { document, conflicts };
+}
+
+function mergeValues(original: unknown, remote: unknown, local: unknown, path: string, conflicts: string[]): unknown {
+    if (isDeepStrictEqual(local, original) || isDeepStrictEqual(local, remote)) {
+        return remote;
+    } else if (isDeepStrictEqual(remote, original)) {
+        return local;
+    } else if (isPlainObject(original) && isPlainObject(remote) && isPlainObject(local)) {
+        const result: { [key: string]: unknown } = {};
+        const keys: Set<string> = new Set([...Object.keys(local), ...Object.keys(remote), ...Object.keys(original)]);
+        for (const key of keys) {
+            const value: unknown = mergeValues(original[key], remote[key], local[key], path ? `${path}.${key}` : key, conflicts);
+            if (value !== undefined) {
+                result[key] = value;
+            }
+        }
+        return result;
+    } else {
+        conflicts.push(path);
+        return local;
+    }
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringifyDocument(document: {}): string {
+    return JSON.stringify(document, null, 2);
+}
@@ -0,0 +1,341 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fse from 'fs-extra';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { parseCsvDocument } from './csvUtils';
+import { localize } from './localize';
+
+const readChunkSize: number = 64 * 1024;
+
+export const importFileExtensions: string[] = ['json', 'jsonl', 'csv'];
+
+/**
+ * A document read from a file, or the error for the document if it couldn't be parsed
+ */
+export interface IParsedDocument {
+    /**
+     * The zero-based position of the document in the file
+     */
+    index: number;
+    /**
+     * The one-based line of the file where the document starts
+     */
+    line?: number;
+    document?: {};
+    error?: string;
+}
+
+/**
+ * Incrementally parses documents from text as it is read from a file
+ */
+export interface IDocumentParser {
+    write(text: string): IParsedDocument[];
+    end(): IParsedDocument[];
+}
+
+/**
+ * Reads the documents in a .json, .jsonl or .csv file in batches, without loading the whole file into memory.
+ * The next chunk of the file isn't read until `onBatch` resolves
+ */
+export async function readDocumentsInBatches(filePath: string, batchSize: number, onBatch: (documents: IParsedDocument[], bytesRead: number) => Promise<void>): Promise<void> {
+    const parser: IDocumentParser = createDocumentParser(filePath);
+    const decoder: StringDecoder = new StringDecoder('utf8');
+    const buffer: Buffer = Buffer.alloc(readChunkSize);
+    let pending: IParsedDocument[] = [];
+    let totalBytesRead: number = 0;
+    let isFirstChunk: boolean = true;
+
+    const fd: number = await fse.open(filePath, 'r');
+    try {
+        let bytesRead: number;
+        while ((bytesRead = (await fse.read(fd, buffer, 0, buffer.length, null)).bytesRead) > 0) {
+            totalBytesRead += bytesRead;
+            let text: string = decoder.write(buffer.slice(0, bytesRead));
+            if (isFirstChunk) {
+                text = text.replace(/^\uFEFF/, '');
+                isFirstChunk = false;
+            }
+
+            pending = pending.concat(parser.write(text));
+            while (pending.length >= batchSize) {
+                await onBatch(pending.slice(0, batchSize), totalBytesRead);
+                pending = pending.slice(batchSize);
+            }
+        }
+
+        pending = pending.concat(parser.write(decoder.end()), parser.end());
+        while (pending.length) {
+            await onBatch(pending.slice(0, batchSize), totalBytesRead);
+            pending = pending.slice(batchSize);
+        }
+    } finally {
+        await fse.close(fd);
+    }
+}
+
+export function createDocumentParser(filePath: string): IDocumentParser {
+    switch (path.extname(filePath).toLowerCase()) {
+        case '.jsonl':
+            return new JsonLinesParser();
+        case '.csv':
+            return new CsvParser();
+        default:
+            return new JsonParser();
+    }
+}
+
+/**
+ * Parses a JSON file containing either a single document or an array of documents
+ */
+export class JsonParser implements IDocumentParser {
+    private _depth: number = 0;
+    private _inString: boolean = false;
+    private _isEscaped: boolean = false;
+    private _isArray: boolean | undefined;
+    private _isDone: boolean = false;
+    private _current: string[] = [];
+    private _index: number = 0;
+    private _line: number = 1;
+    private _elementLine: number | undefined;
+
+    public write(text: string): IParsedDocument[] {
+        const documents: IParsedDocument[] = [];
+        let start: number = 0;
+        for (let i: number = 0; i < text.length; i++) {
+            const char: string = text[i];
+            if (char === '\n') {
+                this._line += 1;
+            }
+
+            if (this._inString) {
+                if (this._isEscaped) {
+                    this._isEscaped = false;
+                } else if (char === '\\') {
+                    this._isEscaped = true;
+                } else if (char === '"') {
+                    this._inString = false;
+                }
+                continue;
+            }
+
+            if (char === ' ' || char === '\n' || char === '\r' || char === '\t') {
+                continue;
+            } else if (this._isDone) {
+                throw new Error(localize('unexpectedJsonContent', 'Unexpected content after the end of the JSON documents.'));
+            } else if (this._isArray === undefined) {
+                // The first character decides whether the file is an array of documents or a single document
+                this._isArray = char === '[';
+                if (this._isArray) {
+                    this._depth = 1;
+                    start = i + 1;
+                    continue;
+                }
+            }
+
+            if (this._elementLine === undefined && char !== ',' && char !== ']') {
+                this._elementLine = this._line;
+            }
+
+            if (this._isArray && this._depth === 1 && (char === ',' || char === ']')) {
+                this._current.push(text.slice(start, i));
+                const element: string = this._current.join('').trim();
+                this._current = [];
+                start = i + 1;
+                if (element) {
+                    documents.push(this.parseElement(element));
+                } else if (char === ',') {
+                    throw new Error(localize('emptyJsonElement', 'Expected a document before "," in the JSON array.'));
+                }
+
+                if (char === ']') {
+                    this._depth = 0;
+                    this._isDone = true;
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                this._inString = true;
+            } else if (char === '{' || char === '[') {
+                this._depth += 1;
+            } else if (char === '}' || char === ']') {
+                this._depth -= 1;
+                if (this._depth < 0) {
+                    throw new Error(localize('unbalancedJson', 'Unexpected "{0}" in the JSON documents.', char));
+                } else if (!this._isArray && this._depth === 0) {
+                    this._current.push(text.slice(start, i + 1));
+                    documents.push(this.parseElement(this._current.join('')));
+                    this._current = [];
+                    start = i + 1;
+                    this._isDone = true;
+                }
+            }
+        }
+
+        if (!this._isDone) {
+            this._current.push(text.slice(start));
+        }
+        return documents;
+    }
+
+    public end(): IParsedDocument[] {
+        if (this._isArray !== undefined && !this._isDone) {
+            throw new Error(localize('unexpectedJsonEnd', 'Unexpected end of the JSON documents.'));
+        }
+        return [];
+    }
+
+    private parseElement(text: string): IParsedDocument {
+        const line: number | undefined = this._elementLine;
+        this._elementLine = undefined;
+        return parseJsonDocument(text, this._index++, line);
+    }
+}
+
+/**
+ * Parses a JSON Lines file, with one document per line
+ */
+export class JsonLinesParser implements IDocumentParser {
+    private _remainder: string = '';
+    private _index: number = 0;
+    private _line: number = 0;
+
+    public write(text: string): IParsedDocument[] {
+        const lines: string[] = (this._remainder + text).split('\n');
+        this._remainder = lines.pop() || '';
+        return this.parseLines(lines);
+    }
+
+    public end(): IParsedDocument[] {
+        const lines: string[] = [this._remainder];
+        this._remainder = '';
+        return this.parseLines(lines);
+    }
+
+    private parseLines(lines: string[]): IParsedDocument[] {
+        const documents: IParsedDocument[] = [];
+        for (const line of lines) {
+            this._line += 1;
+            if (line.trim()) {
+                documents.push(parseJsonDocument(line, this._index++, this._line));
+            }
+        }
+        return documents;
+    }
+}
+
+/**
+ * Parses a CSV file with a header row. See `parseCsvDocument` for how columns and values are converted
+ */
+export class CsvParser implements IDocumentParser {
+    private _columns: string[] | undefined;
+    private _row: string[] = [];
+    private _field: string[] = [];
+    private _inQuotes: boolean = false;
+    private _isQuoteInQuotes: boolean = false;
+    private _previousChar: string = '';
+    private _index: number = 0;
+    private _line: number = 1;
+    private _rowLine: number | undefined;
+
+    public write(text: string): IParsedDocument[] {
+        const documents: IParsedDocument[] = [];
+        let start: number = 0;
+        for (let i: number = 0; i < text.length; i++) {
+            const char: string = text[i];
+            if (this._rowLine === undefined) {
+                this._rowLine = this._line;
+            }
+
+            if (this._inQuotes) {
+                if (char === '"') {
+                    this._field.push(text.slice(start, i));
+                    start = i + 1;
+                    this._inQuotes = false;
+                    this._isQuoteInQuotes = true;
+                }
+            } else if (char === '"') {
+                // A quote right after a closing quote is an escaped quote
+                this._field.push(text.slice(start, i) + (this._isQuoteInQuotes && this._previousChar === '"' ? '"' : ''));
+                start = i + 1;
+                this._inQuotes = true;
+            } else if (char === ',' || char === '\n') {
+                this._field.push(text.slice(start, i));
+                start = i + 1;
+                this._row.push(this.endField());
+                if (char === '\n') {
+                    const document: IParsedDocument | undefined = this.endRow();
+                    if (document) {
+                        documents.push(document);
+                    }
+                }
+            }
+
+            if (char === '\n') {
+                this._line += 1;
+            }
+            this._previousChar = char;
+        }
+
+        this._field.push(text.slice(start));
+        return documents;
+    }
+
+    public end(): IParsedDocument[] {
+        if (this._inQuotes) {
+            throw new Error(localize('unterminatedCsvQuote', 'Unexpected end of the CSV file inside a quoted value.'));
+        }
+
+        if (this._field.join('') || this._row.length) {
+            this._row.push(this.endField());
+        }
+        const document: IParsedDocument | undefined = this.endRow();
+        return document ? [document] : [];
+    }
+
+    private endField(): string {
+        const field: string = this._field.join('');
+        this._field = [];
+        this._isQuoteInQuotes = false;
+        return field;
+    }
+
+    private endRow(): IParsedDocument | undefined {
+        const row: string[] = this._row;
+        const line: number | undefined = this._rowLine;
+        this._row = [];
+        this._rowLine = undefined;
+        if (row.length && row[row.length - 1].endsWith('\r')) {
+            row[row.length - 1] = row[row.length - 1].slice(0, -1);
+        }
+
+        if (row.length === 0 || (row.length === 1 && !row[0])) {
+            return undefined;
+        } else if (!this._columns) {
+            this._columns = row.map(column => column.trim());
+            return undefined;
+        }
+
+        const index: number = this._index++;
+        if (row.length !== this._columns.length) {
+            return { index, line, error: localize('csvColumnCount', 'Expected {0} values but found {1}.', this._columns.length, row.length) };
+        }
+        return { index, line, document: parseCsvDocument(this._columns, row) };
+    }
+}
+
+function parseJsonDocument(text: string, index: number, line: number | undefined): IParsedDocument {
+    try {
+        const document: unknown = JSON.parse(text);
+        if (!document || typeof document !== 'object' || Array.isArray(document)) {
+            return { index, line, error: localize('documentNotObject', 'Expected a JSON object.') };
+        }
+        return { index, line, document: <{}>document };
+    } catch (error) {
+        return { index, line, error: (<Error>error).message };
+    }
+}
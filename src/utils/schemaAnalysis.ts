@@ -0,0 +1,332 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * The type of a value in a document. Mongo documents can also have BSON types such as "objectId" and "decimal"
+ */
+export type SchemaValueType = 'string' | 'number' | 'boolean' | 'null' | 'array' | 'object' | 'date' | 'objectId' | 'decimal' | 'long' | 'binary' | 'timestamp' | 'regex' | 'minKey' | 'maxKey' | string;
+
+export interface ISchemaTypeFrequency {
+    type: SchemaValueType;
+    count: number;
+    percent: number;
+}
+
+export interface ISchemaFieldReport {
+    /**
+     * The path of the field in dot notation, e.g. "address.city". The fields of objects in arrays are under the path of the array, e.g. "items.price"
+     */
+    path: string;
+    /**
+     * The keys of the field from the document down, e.g. ["address", "city"]. Unlike the path, they tell nested fields apart from keys that contain dots
+     */
+    keys: string[];
+    /**
+     * The types of the values of the field, most frequent first
+     */
+    types: ISchemaTypeFrequency[];
+    /**
+     * The percent of the values that are null
+     */
+    nullPercent: number;
+    /**
+     * The percent of the documents (or for nested fields, of the objects containing the field) that don't have the field
+     */
+    missingPercent: number;
+    arrayLengths?: { min: number; max: number; average: number };
+    /**
+     * The types of the elements of the arrays of the field
+     */
+    elementTypes?: ISchemaTypeFrequency[];
+    examples: unknown[];
+}
+
+export interface ISchemaReport {
+    sampledDocuments: number;
+    fields: ISchemaFieldReport[];
+}
+
+interface IFieldStats {
+    keys: string[];
+    count: number;
+    typeCounts: Map<SchemaValueType, number>;
+    nullCount: number;
+    arrayCount: number;
+    minArrayLength: number;
+    maxArrayLength: number;
+    totalArrayLength: number;
+    elementTypeCounts: Map<SchemaValueType, number>;
+    examples: unknown[];
+}
+
+const maxExamples: number = 3;
+const maxExampleLength: number = 50;
+
+/**
+ * Builds a report of the fields of sample documents: their types, how often they are null or missing, the lengths of arrays and example values
+ */
+export class SchemaAnalyzer {
+    private _documentCount: number = 0;
+    // The maps are keyed by the keys of the fields, as returned by getFieldId
+    private readonly _fields: Map<string, IFieldStats> = new Map<string, IFieldStats>();
+    // The number of times each field (or [] for the documents) had an object, which is how often its fields could have been present
+    private readonly _objectCounts: Map<string, number> = new Map<string, number>();
+
+    public addDocument(document: {}): void {
+        this._documentCount += 1;
+        this.addObject([], document);
+    }
+
+    public getReport(): ISchemaReport {
+        const fields: ISchemaFieldReport[] = [];
+        for (const stats of this._fields.values()) {
+            const objectCount: number = this._objectCounts.get(getFieldId(stats.keys.slice(0, -1))) || 0;
+            const field: ISchemaFieldReport = {
+                path: stats.keys.join('.'),
+                keys: stats.keys,
+                types: getTypeFrequencies(stats.typeCounts, stats.count),
+                nullPercent: getPercent(stats.nullCount, stats.count),
+                missingPercent: getPercent(Math.max(0, objectCount - stats.count), objectCount),
+                examples: stats.examples
+            };
+            if (stats.arrayCount) {
+                field.arrayLengths = { min: stats.minArrayLength, max: stats.maxArrayLength, average: Math.round(stats.totalArrayLength / stats.arrayCount * 10) / 10 };
+                const elementCount: number = Array.from(stats.elementTypeCounts.values()).reduce((total, count) => total + count, 0);
+                field.elementTypes = getTypeFrequencies(stats.elementTypeCounts, elementCount);
+            }
+            fields.push(field);
+        }
+        return { sampledDocuments: this._documentCount, fields };
+    }
+
+    private addObject(keys: string[], object: {}): void {
+        const id: string = getFieldId(keys);
+        this._objectCounts.set(id, (this._objectCounts.get(id) || 0) + 1);
+        for (const key of Object.keys(object)) {
+            const value: unknown = object[key];
+            if (value !== undefined) {
+                this.addValue([...keys, key], value);
+            }
+        }
+    }
+
+    private addValue(keys: string[], value: unknown): void {
+        const id: string = getFieldId(keys);
+        let stats: IFieldStats | undefined = this._fields.get(id);
+        if (!stats) {
+            stats = { keys, count: 0, typeCounts: new Map<SchemaValueType, number>(), nullCount: 0, arrayCount: 0, minArrayLength: Infinity, maxArrayLength: 0, totalArrayLength: 0, elementTypeCounts: new Map<SchemaValueType, number>(), examples: [] };
+            this._fields.set(id, stats);
+        }
+
+        const type: SchemaValueType = getValueType(value);
+        stats.count += 1;
+        stats.typeCounts.set(type, (stats.typeCounts.get(type) || 0) + 1);
+        if (type === 'null') {
+            stats.nullCount += 1;
+        } else if (type === 'array') {
+            const array: unknown[] = <unknown[]>value;
+            stats.arrayCount += 1;
+            stats.minArrayLength = Math.min(stats.minArrayLength, array.length);
+            stats.maxArrayLength = Math.max(stats.maxArrayLength, array.length);
+            stats.totalArrayLength += array.length;
+            for (const element of array) {
+                const elementType: SchemaValueType = getValueType(element);
+                stats.elementTypeCounts.set(elementType, (stats.elementTypeCounts.get(elementType) || 0) + 1);
+                if (elementType === 'object') {
+                    // As in Mongo queries, the fields of objects in an array are under the path of the array
+                    this.addObject(keys, <{}>element);
+                }
+            }
+        } else if (type === 'object') {
+            this.addObject(keys, <{}>value);
+        } else {
+            addExample(stats.examples, value);
+        }
+    }
+}
+
+export function getValueType(value: unknown): SchemaValueType {
+    if (value === null) {
+        return 'null';
+    } else if (Array.isArray(value)) {
+        return 'array';
+    } else if (value instanceof Date) {
+        return 'date';
+    } else if (value instanceof RegExp) {
+        return 'regex';
+    } else if (typeof value === 'object') {
+        const bsonType: unknown = (<{ _bsontype?: unknown }>value)._bsontype;
+        return typeof bsonType === 'string' ? getBsonValueType(bsonType) : 'object';
+    } else if (typeof value === 'bigint') {
+        return 'number';
+    } else {
+        return typeof value;
+    }
+}
+
+function getBsonValueType(bsonType: string): SchemaValueType {
+    switch (bsonType) {
+        case 'ObjectID':
+        case 'ObjectId':
+            return 'objectId';
+        case 'Decimal128':
+            return 'decimal';
+        case 'Double':
+        case 'Int32':
+            return 'number';
+        case 'BSONRegExp':
+            return 'regex';
+        case 'DBRef':
+            return 'dbRef';
+        default:
+            // e.g. Long, Binary, Timestamp, MinKey and MaxKey
+            return bsonType[0].toLowerCase() + bsonType.substring(1);
+    }
+}
+
+function getFieldId(keys: string[]): string {
+    return JSON.stringify(keys);
+}
+
+/**
+ * Returns the fields of the objects of a field, or of the documents for []
+ */
+export function getChildFields(fields: ISchemaFieldReport[], parentKeys: string[]): ISchemaFieldReport[] {
+    return fields.filter(f => f.keys.length === parentKeys.length + 1 && parentKeys.every((key, index) => f.keys[index] === key));
+}
+
+function getTypeFrequencies(typeCounts: Map<SchemaValueType, number>, total: number): ISchemaTypeFrequency[] {
+    return Array.from(typeCounts.entries())
+        .map(([type, count]) => { return { type, count, percent: getPercent(count, total) }; })
+        .sort((a, b) => b.count - a.count);
+}
+
+function getPercent(count: number, total: number): number {
+    return total ? Math.round(count / total * 1000) / 10 : 0;
+}
+
+/**
+ * Adds a value to the examples of a field if it's not already one of them. Long strings are shortened, and BSON values are shown as strings
+ */
+function addExample(examples: unknown[], value: unknown): void {
+    if (examples.length >= maxExamples) {
+        return;
+    }
+
+    let example: unknown = value;
+    if (value instanceof Date) {
+        example = isNaN(value.getTime()) ? String(value) : value.toISOString();
+    } else if (typeof value === 'object' || typeof value === 'bigint') {
+        example = String(value);
+    }
+    if (typeof example === 'string' && example.length > maxExampleLength) {
+        example = example.substring(0, maxExampleLength) + '…';
+    }
+
+    if (!examples.includes(example)) {
+        examples.push(example);
+    }
+}
+
+/**
+ * The dialects of JSON Schema that a report can be exported to. The "bson" dialect is the `$jsonSchema` of Mongo validators, which uses BSON types
+ */
+export type JsonSchemaDialect = 'json' | 'bson';
+
+/**
+ * Converts a report to a JSON Schema of the documents. Fields that are in every sampled document (or object) are required
+ */
+export function toJsonSchema(report: ISchemaReport, dialect: JsonSchemaDialect, title?: string): {} {
+    const schema: { [key: string]: unknown } = dialect === 'json' ? { $schema: 'http://json-schema.org/draft-07/schema#' } : {};
+    if (title) {
+        schema.title = title;
+    }
+    return Object.assign(schema, getObjectSchema(report.fields, [], dialect));
+}
+
+function getObjectSchema(fields: ISchemaFieldReport[], keys: string[], dialect: JsonSchemaDialect): { [key: string]: unknown } {
+    const properties: { [key: string]: {} } = {};
+    const required: string[] = [];
+    for (const field of getChildFields(fields, keys)) {
+        const key: string = field.keys[field.keys.length - 1];
+        properties[key] = getFieldSchema(fields, field, dialect);
+        if (field.missingPercent === 0) {
+            required.push(key);
+        }
+    }
+
+    const schema: { [key: string]: unknown } = getTypeSchema(['object'], dialect);
+    schema.properties = properties;
+    if (required.length) {
+        schema.required = required;
+    }
+    return schema;
+}
+
+function getFieldSchema(fields: ISchemaFieldReport[], field: ISchemaFieldReport, dialect: JsonSchemaDialect): {} {
+    const types: SchemaValueType[] = field.types.map(t => t.type);
+    const schema: { [key: string]: unknown } = getTypeSchema(types, dialect);
+    if (types.includes('object')) {
+        const objectSchema: { [key: string]: unknown } = getObjectSchema(fields, field.keys, dialect);
+        schema.properties = objectSchema.properties;
+        schema.required = objectSchema.required;
+    }
+    if (types.includes('array') && field.elementTypes && field.elementTypes.length) {
+        const elementTypes: SchemaValueType[] = field.elementTypes.map(t => t.type);
+        const itemsSchema: { [key: string]: unknown } = getTypeSchema(elementTypes, dialect);
+        if (elementTypes.includes('object')) {
+            const objectSchema: { [key: string]: unknown } = getObjectSchema(fields, field.keys, dialect);
+            itemsSchema.properties = objectSchema.properties;
+            itemsSchema.required = objectSchema.required;
+        }
+        schema.items = itemsSchema;
+    }
+    return <{}>JSON.parse(JSON.stringify(schema)); // Removes the properties that are undefined
+}
+
+function getTypeSchema(types: SchemaValueType[], dialect: JsonSchemaDialect): { [key: string]: unknown } {
+    const schema: { [key: string]: unknown } = {};
+    const typeNames: string[] = [];
+    for (const type of types) {
+        const typeName: string = dialect === 'bson' ? getBsonTypeName(type) : getJsonTypeName(type);
+        if (!typeNames.includes(typeName)) {
+            typeNames.push(typeName);
+        }
+        if (dialect === 'json' && type === 'date') {
+            schema.format = 'date-time';
+        }
+    }
+    schema[dialect === 'bson' ? 'bsonType' : 'type'] = typeNames.length === 1 ? typeNames[0] : typeNames;
+    return schema;
+}
+
+function getJsonTypeName(type: SchemaValueType): string {
+    switch (type) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+        case 'null':
+        case 'array':
+        case 'object':
+            return type;
+        default:
+            // BSON values such as dates and ObjectIds are strings in JSON
+            return 'string';
+    }
+}
+
+/**
+ * Returns the alias of a type in `$jsonSchema`: https://docs.mongodb.com/manual/reference/operator/query/type/#available-types
+ */
+function getBsonTypeName(type: SchemaValueType): string {
+    switch (type) {
+        case 'boolean':
+            return 'bool';
+        case 'binary':
+            return 'binData';
+        default:
+            return type;
+    }
+}
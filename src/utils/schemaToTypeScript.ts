@@ -0,0 +1,134 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { getChildFields, ISchemaFieldReport, ISchemaReport, SchemaValueType } from './schemaAnalysis';
+
+/**
+ * The types of the Mongo driver that BSON values are read as
+ */
+const mongoDriverTypes: { [type: string]: string } = {
+    objectId: 'ObjectId',
+    decimal: 'Decimal128',
+    long: 'Long',
+    binary: 'Binary',
+    timestamp: 'Timestamp',
+    minKey: 'MinKey',
+    maxKey: 'MaxKey',
+    code: 'Code',
+    dbRef: 'DBRef'
+};
+
+interface IInterfaceBuilder {
+    report: ISchemaReport;
+    interfaces: string[];
+    interfaceNames: Set<string>;
+    driverTypes: Set<string>;
+}
+
+/**
+ * Converts a report to TypeScript interfaces of the documents, with an interface for each nested object.
+ * Fields that are missing from some documents are optional, and fields with several types are unions
+ */
+export function toTypeScriptInterfaces(report: ISchemaReport, rootName: string): string {
+    const builder: IInterfaceBuilder = { report, interfaces: [], interfaceNames: new Set<string>(), driverTypes: new Set<string>() };
+    addInterface(builder, [], toPascalCase(rootName) || 'Document');
+
+    let result: string = '';
+    if (builder.driverTypes.size) {
+        result += `import { ${Array.from(builder.driverTypes).sort().join(', ')} } from 'mongodb';\n\n`;
+    }
+    return result + builder.interfaces.join('\n');
+}
+
+/**
+ * Adds the interface of the objects of a field (or [] for the documents) and returns its name
+ */
+function addInterface(builder: IInterfaceBuilder, keys: string[], name: string): string {
+    let uniqueName: string = name;
+    for (let count: number = 2; builder.interfaceNames.has(uniqueName); count += 1) {
+        uniqueName = name + count.toString();
+    }
+    builder.interfaceNames.add(uniqueName);
+
+    // Reserve the position of this interface so that it comes before the interfaces of its fields
+    const index: number = builder.interfaces.push('') - 1;
+    const lines: string[] = [];
+    for (const field of getChildFields(builder.report.fields, keys)) {
+        const key: string = field.keys[field.keys.length - 1];
+        const optional: string = field.missingPercent > 0 ? '?' : '';
+        lines.push(`    ${toPropertyName(key)}${optional}: ${getFieldType(builder, field, uniqueName + toPascalCase(key))};`);
+    }
+    builder.interfaces[index] = `export interface ${uniqueName} {\n${lines.join('\n')}${lines.length ? '\n' : ''}}\n`;
+    return uniqueName;
+}
+
+function getFieldType(builder: IInterfaceBuilder, field: ISchemaFieldReport, objectName: string): string {
+    let objectType: string | undefined;
+    const getObjectType = (): string => {
+        objectType = objectType || addInterface(builder, field.keys, objectName);
+        return objectType;
+    };
+
+    const types: string[] = [];
+    for (const { type } of field.types) {
+        if (type === 'array') {
+            const elementTypes: string[] = (field.elementTypes || []).map(t => t.type === 'object' ? getObjectType() : getTypeName(builder, t.type));
+            types.push(toArrayType(elementTypes));
+        } else {
+            types.push(type === 'object' ? getObjectType() : getTypeName(builder, type));
+        }
+    }
+    return toUnionType(types);
+}
+
+function getTypeName(builder: IInterfaceBuilder, type: SchemaValueType): string {
+    switch (type) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+        case 'null':
+            return type;
+        case 'date':
+            return 'Date';
+        case 'regex':
+            return 'RegExp';
+        case 'symbol':
+            return 'string';
+        case 'array':
+            // Arrays nested in arrays aren't analyzed
+            return 'unknown[]';
+        default: {
+            const driverType: string | undefined = mongoDriverTypes[type];
+            if (driverType) {
+                builder.driverTypes.add(driverType);
+                return driverType;
+            } else {
+                return 'unknown';
+            }
+        }
+    }
+}
+
+function toUnionType(types: string[]): string {
+    const uniqueTypes: string[] = Array.from(new Set(types));
+    return uniqueTypes.length ? uniqueTypes.join(' | ') : 'unknown';
+}
+
+function toArrayType(elementTypes: string[]): string {
+    const elementType: string = toUnionType(elementTypes);
+    return elementType.includes(' ') ? `(${elementType})[]` : `${elementType}[]`;
+}
+
+function toPropertyName(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Converts a name such as "order-items" or "_id" to a name for an interface, such as "OrderItems" or "Id"
+ */
+export function toPascalCase(name: string): string {
+    const pascalCase: string = name.split(/[^A-Za-z0-9]+/).map(word => word.charAt(0).toUpperCase() + word.substring(1)).join('');
+    return /^[0-9]/.test(pascalCase) ? '_' + pascalCase : pascalCase;
+}
@@ -16,3 +16,18 @@ export function getBatchSizeSetting(): number {
     const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration();
     return nonNullValue(config.get<number>(ext.settingsKeys.batchSize), 'batchSize');
 }
+
+export function getImportBatchSizeSetting(): number {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration();
+    return Math.max(1, nonNullValue(config.get<number>(ext.settingsKeys.importBatchSize), 'importBatchSize'));
+}
+
+export function getImportErrorHandlingSetting(): 'continue' | 'stop' {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration();
+    return config.get<string>(ext.settingsKeys.importErrorHandling) === 'stop' ? 'stop' : 'continue';
+}
+
+export function getSchemaSampleSizeSetting(): number {
+    const config: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration();
+    return Math.max(1, nonNullValue(config.get<number>(ext.settingsKeys.schemaSampleSize), 'schemaSampleSize'));
+}
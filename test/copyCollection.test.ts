@@ -0,0 +1,35 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getThrottleDelay, transformDocument } from '../extension.bundle';
+
+suite("Copy Collection Tests", () => {
+    test("Mongo to Core (SQL)", () => {
+        const document: {} = { _id: { $oid: '5ea8f3a9d3a8b3c3e8e5d3a1' }, created: { $date: { $numberLong: '1609459200000' } }, count: { $numberLong: '42' }, tags: [{ $numberInt: '1' }] };
+        assert.deepEqual(transformDocument(document, ['mongoIdToId', 'simplifyExtendedJson']), { id: '5ea8f3a9d3a8b3c3e8e5d3a1', created: '2021-01-01T00:00:00.000Z', count: 42, tags: [1] });
+    });
+
+    test("Map _id to id only if there is no id", () => {
+        assert.deepEqual(transformDocument({ _id: { $oid: '5ea8f3a9d3a8b3c3e8e5d3a1' } }, ['mongoIdToId']), { id: '5ea8f3a9d3a8b3c3e8e5d3a1' });
+        assert.deepEqual(transformDocument({ _id: 1, id: 'existing' }, ['mongoIdToId']), { _id: 1, id: 'existing' });
+    });
+
+    test("Core (SQL) to Mongo", () => {
+        assert.deepEqual(transformDocument({ id: 'a', name: 'b' }, ['idToMongoId']), { _id: 'a', name: 'b' });
+    });
+
+    test("Fill partition key", () => {
+        const mappings = [{ sourcePath: '/tenant/id', targetPath: '/tenantId' }];
+        assert.deepEqual(transformDocument({ id: 'a', tenant: { id: 't1' } }, ['fillPartitionKey'], mappings), { id: 'a', tenant: { id: 't1' }, tenantId: 't1' });
+        assert.deepEqual(transformDocument({ id: 'a', tenantId: 't2', tenant: { id: 't1' } }, ['fillPartitionKey'], mappings), { id: 'a', tenantId: 't2', tenant: { id: 't1' } });
+        assert.deepEqual(transformDocument({ id: 'a' }, ['fillPartitionKey'], mappings), { id: 'a' });
+    });
+
+    test("Throttle delay", () => {
+        assert.equal(getThrottleDelay(400, 800, 100), 400);
+        assert.equal(getThrottleDelay(400, 800, 600), 0);
+    });
+});
@@ -0,0 +1,29 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { flattenDocument, parseCsvDocument, toCsvRow } from '../extension.bundle';
+
+suite("CSV Tests", () => {
+    test("Flatten nested objects", () => {
+        assert.deepEqual(flattenDocument({ id: '1', address: { zipCode: '98052', geo: { lat: 47.6 } }, active: true }), { id: '1', 'address.zipCode': '98052', 'address.geo.lat': 47.6, active: true });
+    });
+
+    test("Flatten arrays, empty objects and nulls", () => {
+        assert.deepEqual(flattenDocument({ tags: ['a', 'b'], empty: {}, missing: null }), { tags: '["a","b"]', empty: '{}', missing: null });
+    });
+
+    test("Flatten Extended JSON values", () => {
+        assert.deepEqual(flattenDocument({ _id: { $oid: '5ea8f3a9d3a8b3c3e8e5d3a1' }, created: { $date: '2021-01-01T00:00:00.000Z' } }), { _id: '5ea8f3a9d3a8b3c3e8e5d3a1', created: '2021-01-01T00:00:00.000Z' });
+    });
+
+    test("Escape values", () => {
+        assert.equal(toCsvRow(['plain', 'with,comma', 'with "quote"', 'multi\nline', 42, false, null, undefined]), 'plain,"with,comma","with ""quote""","multi\nline",42,false,,');
+    });
+
+    test("Parse nested columns and values", () => {
+        assert.deepEqual(parseCsvDocument(['id', 'address.zipCode', 'address.geo.lat', 'active', 'tags', 'empty'], ['1', '01234', '47.6', 'true', '["a","b"]', '']), { id: 1, address: { zipCode: '01234', geo: { lat: 47.6 } }, active: true, tags: ['a', 'b'] });
+    });
+});
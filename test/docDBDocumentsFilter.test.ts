@@ -0,0 +1,33 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getFilterQuery, stripKeyword } from '../extension.bundle';
+
+suite("DocDB Documents Filter Tests", () => {
+    test("Filter query", () => {
+        assert.equal(getFilterQuery({}), 'SELECT * FROM c');
+        assert.equal(getFilterQuery({ where: 'c.status = "active"' }), 'SELECT * FROM c WHERE c.status = "active"');
+        assert.equal(getFilterQuery({ orderBy: 'c._ts DESC' }), 'SELECT * FROM c ORDER BY c._ts DESC');
+        assert.equal(getFilterQuery({ where: 'c.count > 1', orderBy: 'c.name' }), 'SELECT * FROM c WHERE c.count > 1 ORDER BY c.name');
+        assert.equal(getFilterQuery({ where: '', orderBy: '' }), 'SELECT * FROM c');
+    });
+
+    test("Strip keyword", () => {
+        assert.equal(stripKeyword('  c.id = "1" ', 'WHERE'), 'c.id = "1"');
+        assert.equal(stripKeyword('WHERE c.id = "1"', 'WHERE'), 'c.id = "1"');
+        assert.equal(stripKeyword(' where   c.id = "1"', 'WHERE'), 'c.id = "1"');
+        assert.equal(stripKeyword('ORDER BY c._ts DESC', 'ORDER BY'), 'c._ts DESC');
+        assert.equal(stripKeyword('order\tby  c._ts', 'ORDER BY'), 'c._ts');
+        assert.equal(stripKeyword('', 'WHERE'), '');
+    });
+
+    test("Don't strip identifiers that start with the keyword", () => {
+        assert.equal(stripKeyword('whereabouts = "home"', 'WHERE'), 'whereabouts = "home"');
+        assert.equal(stripKeyword('c.where = 1', 'WHERE'), 'c.where = 1');
+        assert.equal(stripKeyword('orderBy', 'ORDER BY'), 'orderBy');
+        assert.equal(stripKeyword('order_by DESC', 'ORDER BY'), 'order_by DESC');
+    });
+});
@@ -0,0 +1,30 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { compareDocuments, IComparedDocument, IDocumentChanges } from '../extension.bundle';
+
+function toComparedDocument(document: { id?: string }): IComparedDocument {
+    return { key: document.id, label: String(document.id), document };
+}
+
+suite("Document Changes Tests", () => {
+    test("Modified, added and removed documents", () => {
+        const loaded: {}[] = [{ id: '1', name: 'a' }, { id: '2', name: 'b' }, { id: '3', name: 'c' }];
+        const edited: {}[] = [{ id: '1', name: 'a' }, { id: '2', name: 'B' }, { id: '4', name: 'd' }, { name: 'e' }];
+        const changes: IDocumentChanges = compareDocuments(loaded.map(toComparedDocument), edited.map(toComparedDocument));
+        assert.equal(changes.unchangedCount, 1);
+        assert.deepEqual(changes.modified, [{ label: '2', original: { id: '2', name: 'b' }, modified: { id: '2', name: 'B' }, fields: ['name'] }]);
+        assert.deepEqual(changes.added.map(c => c.label), ['4', 'undefined']);
+        assert.deepEqual(changes.removed, [{ label: '3', original: { id: '3', name: 'c' }, fields: [] }]);
+    });
+
+    test("Changed fields", () => {
+        const loaded: {} = { id: '1', address: { city: 'Seattle', zip: '98101' }, tags: ['x'], ref: { $oid: '5f1d7f5e8a1b2c3d4e5f6a7b' }, old: true };
+        const edited: {} = { id: '1', address: { city: 'Redmond', zip: '98101', state: 'WA' }, tags: ['x', 'y'], ref: { $oid: '5f1d7f5e8a1b2c3d4e5f6a7c' } };
+        const changes: IDocumentChanges = compareDocuments([toComparedDocument(loaded)], [toComparedDocument(edited)]);
+        assert.deepEqual(changes.modified[0].fields, ['address.city', 'address.state', 'tags', 'ref', 'old']);
+    });
+});
@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { Collection } from 'mongodb';
+import { IMongoDocument, IResolvedMongoDocuments, mergeDocuments, resolveMongoConflicts } from '../extension.bundle';
+
+/**
+ * A collection that only finds documents by their ids, as the conflict checks do
+ */
+function createCollection(documents: IMongoDocument[]): Collection {
+    return <Collection><unknown>{
+        find: (filter: { _id: { $in: string[] } }) => {
+            return { toArray: async () => documents.filter(d => filter._id.$in.includes(<string>d._id)) };
+        }
+    };
+}
+
+suite("Document Conflict Tests", () => {
+    test("Merge changes to different fields", () => {
+        const original: {} = { id: '1', name: 'a', count: 1, address: { city: 'Seattle', zip: '98101' }, tags: ['x'] };
+        const remote: {} = { id: '1', name: 'b', count: 1, address: { city: 'Seattle', zip: '98052' }, tags: ['x'], added: true };
+        const local: {} = { id: '1', name: 'a', count: 2, address: { city: 'Redmond', zip: '98101' } };
+        assert.deepEqual(mergeDocuments(original, remote, local), {
+            document: { id: '1', name: 'b', count: 2, address: { city: 'Redmond', zip: '98052' }, added: true },
+            conflicts: []
+        });
+    });
+
+    test("Merge changes to the same fields", () => {
+        const original: {} = { name: 'a', tags: ['x'], address: { city: 'Seattle' } };
+        const remote: {} = { name: 'b', tags: ['x', 'y'], address: { city: 'Redmond' } };
+        const local: {} = { name: 'c', tags: ['x', 'y'], address: { city: 'Tacoma' } };
+        assert.deepEqual(mergeDocuments(original, remote, local), {
+            document: { name: 'c', tags: ['x', 'y'], address: { city: 'Tacoma' } },
+            conflicts: ['name', 'address.city']
+        });
+    });
+
+    test("Merge deleted fields", () => {
+        assert.deepEqual(mergeDocuments({ a: 1, b: 2 }, { a: 1 }, { a: 1, b: 2, c: 3 }).document, { a: 1, c: 3 });
+        assert.deepEqual(mergeDocuments({ a: 1, b: 2 }, { a: 1, b: 3 }, { a: 1 }), { document: { a: 1 }, conflicts: ['b'] });
+    });
+
+    test("Skip Mongo documents that weren't edited", async () => {
+        const snapshots: IMongoDocument[] = [{ _id: '1', name: 'a' }, { _id: '2', name: 'b' }];
+        const remoteDocuments: IMongoDocument[] = [{ _id: '1', name: 'a' }, { _id: '2', name: 'changed in the database' }];
+        const documents: IMongoDocument[] = [{ _id: '1', name: 'edited' }, { _id: '2', name: 'b' }, { _id: '3', name: 'added' }];
+        // Document "2" was changed in the database, but not in the editor, so it's neither written nor a conflict
+        const resolved: IResolvedMongoDocuments = await resolveMongoConflicts(createCollection(remoteDocuments), snapshots, documents);
+        assert.deepEqual(resolved, {
+            replacements: [{ document: documents[0], upsert: false }, { document: documents[2], upsert: false }],
+            remoteDocuments: []
+        });
+    });
+});
@@ -0,0 +1,55 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { CsvParser, IDocumentParser, IParsedDocument, JsonLinesParser, JsonParser } from '../extension.bundle';
+
+function parse(parser: IDocumentParser, chunks: string[]): IParsedDocument[] {
+    let documents: IParsedDocument[] = [];
+    for (const chunk of chunks) {
+        documents = documents.concat(parser.write(chunk));
+    }
+    return documents.concat(parser.end());
+}
+
+suite("Document Reader Tests", () => {
+    test("JSON array split across chunks", () => {
+        assert.deepEqual(parse(new JsonParser(), ['[\n  {"id": "1", "text": "a,]"},\n  {"id"', ': "2", "nested": {"a": [1, 2]}}\n]']), [
+            { index: 0, line: 2, document: { id: '1', text: 'a,]' } },
+            { index: 1, line: 3, document: { id: '2', nested: { a: [1, 2] } } }
+        ]);
+    });
+
+    test("Single JSON document", () => {
+        assert.deepEqual(parse(new JsonParser(), ['{"id": "1"', '}\n']), [{ index: 0, line: 1, document: { id: '1' } }]);
+    });
+
+    test("JSON array with an invalid document", () => {
+        const documents: IParsedDocument[] = parse(new JsonParser(), ['[{"id": "1"}, 42]']);
+        assert.equal(documents.length, 2);
+        assert.deepEqual(documents[0], { index: 0, line: 1, document: { id: '1' } });
+        assert.ok(documents[1].error);
+    });
+
+    test("JSON Lines", () => {
+        const documents: IParsedDocument[] = parse(new JsonLinesParser(), ['{"id": "1"}\r\n{"id"', ': "2"}\n\nnot json\n{"id": "3"}']);
+        assert.deepEqual(documents.map(d => d.document), [{ id: '1' }, { id: '2' }, undefined, { id: '3' }]);
+        assert.deepEqual(documents.map(d => d.line), [1, 2, 4, 5]);
+        assert.ok(documents[2].error);
+    });
+
+    test("CSV with quotes and CRLF", () => {
+        assert.deepEqual(parse(new CsvParser(), ['id,name,address.city\r\n1,"Smith, ""J""",Redmond\r\n2,"multi\nline', '",Seattle\r\n']), [
+            { index: 0, line: 2, document: { id: 1, name: 'Smith, "J"', address: { city: 'Redmond' } } },
+            { index: 1, line: 3, document: { id: 2, name: 'multi\nline', address: { city: 'Seattle' } } }
+        ]);
+    });
+
+    test("CSV with the wrong number of values", () => {
+        const documents: IParsedDocument[] = parse(new CsvParser(), ['id,name\n1\n2,b']);
+        assert.ok(documents[0].error);
+        assert.deepEqual(documents[1], { index: 1, line: 3, document: { id: 2, name: 'b' } });
+    });
+});
@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getAggregationExport, getPreviewPipeline, getStageName, parsePipeline, toJavaScript } from '../extension.bundle';
+
+suite("Mongo Aggregation Tests", () => {
+    test("Parse pipeline", () => {
+        assert.deepEqual(parsePipeline('[{ "$match": { "a": 1 } }, { "$limit": 5 }]'), [{ $match: { a: 1 } }, { $limit: 5 }]);
+        assert.deepEqual(parsePipeline('[]'), []);
+    });
+
+    test("Parse invalid pipelines", () => {
+        assert.throws(() => parsePipeline('[{ "$match": '), /not valid JSON/);
+        assert.throws(() => parsePipeline('{ "$match": {} }'), /must be an array/);
+        assert.throws(() => parsePipeline('[{ "$match": {}, "$limit": 1 }]'), /Stage 1/);
+        assert.throws(() => parsePipeline('[{ "$match": {} }, { "match": {} }]'), /Stage 2/);
+        assert.throws(() => parsePipeline('[{ "$out": "other" }, { "$match": {} }]'), /must be the last stage/);
+    });
+
+    test("Stage name", () => {
+        assert.equal(getStageName({ $group: { _id: '$a' } }), '$group');
+        assert.equal(getStageName({ group: {} }), undefined);
+        assert.equal(getStageName([]), undefined);
+        assert.equal(getStageName(null), undefined);
+    });
+
+    test("Preview pipeline", () => {
+        const pipeline: {}[] = [{ $match: { a: 1 } }, { $project: { a: 1 } }, { $sort: { a: 1 } }];
+        assert.deepEqual(getPreviewPipeline(pipeline, 0, 20), [{ $match: { a: 1 } }, { $limit: 20 }]);
+        assert.deepEqual(getPreviewPipeline(pipeline, 2, 10), [...pipeline, { $limit: 10 }]);
+        assert.throws(() => getPreviewPipeline([{ $match: {} }, { $merge: 'other' }], 1, 10), /can't be previewed/);
+    });
+
+    test("Convert Extended JSON to JavaScript", () => {
+        const value: {} = { _id: { $oid: '5ea8f3a9d3a8b3c3e8e5d3a1' }, created: { $gte: { $date: '2021-01-01T00:00:00Z' } }, "a.b": "it's" };
+        assert.equal(toJavaScript(value, 'shell'), [
+            '{',
+            '    "_id": ObjectId("5ea8f3a9d3a8b3c3e8e5d3a1"),',
+            '    "created": {',
+            '        "$gte": ISODate("2021-01-01T00:00:00.000Z")',
+            '    },',
+            '    "a.b": "it\'s"',
+            '}'
+        ].join('\n'));
+        assert.equal(toJavaScript(value, 'node'), [
+            '{',
+            '    _id: new ObjectId(\'5ea8f3a9d3a8b3c3e8e5d3a1\'),',
+            '    created: {',
+            '        $gte: new Date(\'2021-01-01T00:00:00.000Z\')',
+            '    },',
+            '    "a.b": \'it\\\'s\'',
+            '}'
+        ].join('\n'));
+        assert.equal(toJavaScript({ $date: { $numberLong: '1609459200000' } }, 'node'), 'new Date(\'2021-01-01T00:00:00.000Z\')');
+        assert.equal(toJavaScript([[], {}, null, 1.5, true], 'shell'), '[\n    [],\n    {},\n    null,\n    1.5,\n    true\n]');
+    });
+
+    test("Convert other BSON types to JavaScript", () => {
+        const values: {}[] = [
+            { $numberLong: '9007199254740993' },
+            { $numberDecimal: '1.10' },
+            { $regex: '^a/b', $options: 'i' },
+            { $options: 'm', $regex: 'it\'s' },
+            { $binary: 'AQI=', $type: '80' },
+            { $timestamp: { t: 1609459200, i: 3 } }
+        ];
+        assert.deepEqual(values.map(value => toJavaScript(value, 'shell')), [
+            'NumberLong("9007199254740993")',
+            'NumberDecimal("1.10")',
+            'RegExp("^a/b", "i")',
+            'RegExp("it\'s", "m")',
+            'BinData(128, "AQI=")',
+            'Timestamp(1609459200, 3)'
+        ]);
+        assert.deepEqual(values.map(value => toJavaScript(value, 'node')), [
+            'Long.fromString(\'9007199254740993\')',
+            'Decimal128.fromString(\'1.10\')',
+            'new BSONRegExp(\'^a/b\', \'i\')',
+            'new BSONRegExp(\'it\\\'s\', \'m\')',
+            'new Binary(Buffer.from(\'AQI=\', \'base64\'), 128)',
+            'new Timestamp(3, 1609459200)'
+        ]);
+        assert.equal(toJavaScript({ a: { $regex: 'b' } }, 'node'), '{\n    a: new BSONRegExp(\'b\', \'\')\n}');
+        assert.equal(toJavaScript({ $numberLong: 1 }, 'node'), '{\n    $numberLong: 1\n}');
+        assert.equal(toJavaScript({ $binary: 'AQI=', $type: 'zz' }, 'shell'), '{\n    "$binary": "AQI=",\n    "$type": "zz"\n}');
+    });
+
+    test("Export to scrapbook", () => {
+        assert.equal(getAggregationExport('scrapbook', 'db1', 'orders', [{ $limit: 1 }]), [
+            '// Aggregation pipeline for collection "orders" in database "db1"',
+            'db.orders.aggregate([',
+            '    {',
+            '        "$limit": 1',
+            '    }',
+            '])',
+            ''
+        ].join('\n'));
+        assert.ok(getAggregationExport('scrapbook', 'db1', 'my-orders', []).includes('db.getCollection("my-orders").aggregate([])'));
+    });
+
+    test("Export as JavaScript and TypeScript", () => {
+        const pipeline: {}[] = [{ $match: { _id: { $oid: '5ea8f3a9d3a8b3c3e8e5d3a1' } } }];
+        const javaScript: string = getAggregationExport('javascript', 'db1', 'orders', pipeline);
+        assert.ok(javaScript.startsWith('const { ObjectId } = require(\'mongodb\');\n'));
+        assert.ok(javaScript.includes('async function runAggregation(db) {'));
+        assert.ok(javaScript.includes('return await db.collection(\'orders\').aggregate(pipeline).toArray();'));
+        assert.ok(javaScript.includes('module.exports = { runAggregation };'));
+
+        const typeScript: string = getAggregationExport('typescript', 'db1', 'orders', pipeline);
+        assert.ok(typeScript.startsWith('import { Db, ObjectId } from \'mongodb\';\n'));
+        assert.ok(typeScript.includes('export async function runAggregation(db: Db): Promise<object[]> {'));
+        assert.ok(typeScript.includes('const pipeline: object[] = [\n        {\n            $match: {'));
+
+        assert.ok(getAggregationExport('typescript', 'db1', 'orders', [{ $limit: 1 }]).startsWith('import { Db } from \'mongodb\';\n'));
+        const bsonPipeline: {}[] = [{ $match: { a: { $numberLong: '1' }, b: { $numberDecimal: '1.5' }, c: { $regex: 'x' }, d: { $binary: 'AQI=', $type: '0' }, e: { $timestamp: { t: 1, i: 1 } } } }];
+        assert.ok(getAggregationExport('typescript', 'db1', 'orders', bsonPipeline).startsWith('import { Binary, BSONRegExp, Db, Decimal128, Long, Timestamp } from \'mongodb\';\n'));
+        assert.ok(getAggregationExport('javascript', 'db1', 'orders', bsonPipeline).startsWith('const { Binary, BSONRegExp, Decimal128, Long, Timestamp } = require(\'mongodb\');\n'));
+        assert.ok(!getAggregationExport('javascript', 'db1', 'orders', [{ $limit: 1 }]).includes('require('));
+    });
+});
@@ -0,0 +1,60 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getCollectionDetails, IMongoCollectionStats, parseValidationRules } from '../extension.bundle';
+
+const stats: IMongoCollectionStats = {
+    ns: 'shop.orders',
+    count: 3,
+    size: 300,
+    avgObjSize: 100,
+    storageSize: 4096,
+    nindexes: 1,
+    totalIndexSize: 4096,
+    indexSizes: { _id_: 4096 }
+};
+
+suite("Mongo Collection Details Tests", () => {
+    test("Collection details", () => {
+        assert.deepEqual(getCollectionDetails(stats, undefined), {
+            namespace: 'shop.orders',
+            count: 3,
+            size: '300 B',
+            averageDocumentSize: '100 B',
+            storageSize: '4.0 KB (4096 bytes)',
+            indexes: 1,
+            totalIndexSize: '4.0 KB (4096 bytes)',
+            indexSizes: { _id_: '4.0 KB (4096 bytes)' },
+            capped: false,
+            shardKey: null
+        });
+    });
+
+    test("Cosmos DB collection details", () => {
+        const shardKey: {} = { customerId: 'hashed' };
+        const details = <{ shardKey: {}, throughput: string }>getCollectionDetails(stats, shardKey, { provisionedThroughput: 400 });
+        assert.deepEqual(details.shardKey, shardKey);
+        assert.equal(details.throughput, '400 RU/s');
+        assert.equal((<{ throughput: string }>getCollectionDetails(stats, shardKey, { autoScaleSettings: { maxThroughput: 4000 } })).throughput, 'Autoscale up to 4000 RU/s');
+        assert.equal((<{ throughput: string }>getCollectionDetails(stats, shardKey, {}, { provisionedThroughput: 1000 })).throughput, 'Shared with the database, 1000 RU/s');
+        assert.equal((<{ throughput: string }>getCollectionDetails(stats, shardKey, {}, {})).throughput, 'No provisioned throughput (serverless account)');
+    });
+
+    test("Parse validation rules", () => {
+        const validator: {} = { $jsonSchema: { bsonType: 'object', required: ['name'] } };
+        assert.deepEqual(parseValidationRules(JSON.stringify({ validator, validationAction: 'warn' })), { validator, validationLevel: 'strict', validationAction: 'warn' });
+        assert.deepEqual(parseValidationRules('{}'), { validator: {}, validationLevel: 'strict', validationAction: 'error' });
+    });
+
+    test("Invalid validation rules", () => {
+        assert.throws(() => parseValidationRules('{ "validator": '), /must be valid JSON/);
+        assert.throws(() => parseValidationRules('[]'), /must be a JSON object/);
+        assert.throws(() => parseValidationRules('{ "validator": [] }'), /"validator" must be a JSON object/);
+        assert.throws(() => parseValidationRules('{ "validationLevel": "loose" }'), /"validationLevel" must be one of: off, strict, moderate/);
+        assert.throws(() => parseValidationRules('{ "validationAction": "ignore" }'), /"validationAction" must be one of: error, warn/);
+        assert.throws(() => parseValidationRules('{ "schema": {} }'), /Unknown property "schema"/);
+    });
+});
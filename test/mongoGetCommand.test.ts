@@ -6,7 +6,7 @@
 import * as assert from 'assert';
 import { Position } from 'vscode';
 import { parseError } from 'vscode-azureextensionui';
-import { findCommandAtPosition, getAllCommandsFromText, MongoCommand, nonNullProp, ObjectID, ObjectId } from '../extension.bundle';
+import { Decimal128, findCommandAtPosition, getAllCommandsFromText, getFindCommand, Long, MinKey, MongoCommand, nonNullProp, ObjectID, ObjectId } from '../extension.bundle';
 
 function expectSingleCommand(text: string): MongoCommand {
     const commands = getAllCommandsFromText(text);
@@ -508,12 +508,41 @@ suite("scrapbook parsing Tests", () => {
         });
     });
 
+    test("ISODate with time zone offset", () => {
+        testParse('db.c1.insertOne({ "_id": ObjectId("5aecf1a63d8af732f07e4275"), "name": "Stephen", "date": ISODate("2020-01-31T12:00:00+02:00"), "date2": ISODate("2020-01-31T12:00:00-0530") });', {
+            collection: "c1",
+            name: "insertOne",
+            args: [
+                {
+                    _id: {
+                        $oid: "5aecf1a63d8af732f07e4275"
+                    },
+                    date: {
+                        $date: "2020-01-31T10:00:00.000Z"
+                    },
+                    date2: {
+                        $date: "2020-01-31T17:30:00.000Z"
+                    },
+                    name: "Stephen"
+                }
+            ]
+        });
+    });
+
     test("Invalid ISODate", () => {
         testParse('db.c1.insertOne({ "_id": ObjectId("5aecf1a63d8af732f07e4275"), "name": "Stephen", "date": ISODate("2018-05-01T00:00:00z") });', {
             collection: "c1",
             name: "insertOne",
-            args: [],
-            firstErrorText: "Invalid time value"
+            args: [
+                {
+                    _id: {
+                        $oid: "5aecf1a63d8af732f07e4275"
+                    },
+                    date: {},
+                    name: "Stephen"
+                }
+            ],
+            firstErrorText: 'ISODate() expects a valid date, but got "2018-05-01T00:00:00z".'
         });
     });
 
@@ -536,6 +565,73 @@ suite("scrapbook parsing Tests", () => {
         });
     });
 
+    test("Shell helpers for numbers", () => {
+        testParse('db.c1.insertOne({ "long": NumberLong("9223372036854775807"), "int": NumberInt(42), "decimal": NumberDecimal("1.10") });', {
+            collection: "c1",
+            name: "insertOne",
+            args: [
+                {
+                    long: { $numberLong: "9223372036854775807" },
+                    int: 42,
+                    decimal: { $numberDecimal: "1.10" }
+                }
+            ]
+        });
+    });
+
+    test("Shell helpers for binary data, timestamps and keys", () => {
+        testParse('db.c1.insertOne({ "bin": BinData(0, "AQID"), "uuid": UUID("0123abcd-4567-89ab-cdef-0123456789ab"), "ts": Timestamp(1590000000, 1), "min": MinKey(), "max": MaxKey(), "re": RegExp("^a", "i") });', {
+            collection: "c1",
+            name: "insertOne",
+            args: [
+                {
+                    bin: { $binary: "AQID", $type: "0" },
+                    uuid: { $binary: "ASOrzUVniavN7wEjRWeJqw==", $type: "4" },
+                    ts: { $timestamp: { t: 1590000000, i: 1 } },
+                    min: { $minKey: 1 },
+                    max: { $maxKey: 1 },
+                    re: { $regex: "^a", $options: "i" }
+                }
+            ]
+        });
+    });
+
+    test("Shell helpers are converted to BSON values", () => {
+        const text = 'db.c1.insertOne({ "long": NumberLong(5), "decimal": NumberDecimal("1.5"), "min": MinKey(), "date": ISODate("2018-05-01") })';
+        const command: MongoCommand = findCommandAtPosition(getAllCommandsFromText(text), new Position(0, 0));
+        const document = <{ long: Long; decimal: Decimal128; min: MinKey; date: Date }>nonNullProp(command, 'argumentObjects')[0];
+        assert.ok(document.long instanceof Long);
+        assert.equal(String(document.long), "5");
+        assert.ok(document.decimal instanceof Decimal128);
+        assert.ok(document.min instanceof MinKey);
+        assert.ok(document.date instanceof Date);
+    });
+
+    test("Shell helpers with malformed arguments", () => {
+        const cases: [string, string][] = [
+            ['NumberLong("12.5")', 'NumberLong() expects a 64-bit integer as a number or string, but got "12.5".'],
+            ['NumberLong("9223372036854775808")', 'NumberLong() expects a 64-bit integer as a number or string, but got "9223372036854775808".'],
+            ['NumberInt(2147483648)', 'NumberInt() expects a 32-bit integer as a number or string, but got 2147483648.'],
+            ['NumberDecimal("abc")', 'NumberDecimal() expects a decimal number as a number or string, but got "abc".'],
+            ['Timestamp(-1, 0)', 'Timestamp() expects two integers between 0 and 4294967295, but got -1, 0.'],
+            ['BinData(256, "AQID")', 'BinData() expects a subtype between 0 and 255 as its first argument, but got 256.'],
+            ['BinData(0, "not base64")', 'BinData() expects a base64 string as its second argument, but got "not base64".'],
+            ['UUID("1234")', 'UUID() expects a string of 32 hexadecimal digits such as "0123abcd-4567-89ab-cdef-0123456789ab", but got "1234".'],
+            ['MinKey(1)', 'MinKey() expects 0 argument(s), but got 1.'],
+            ['RegExp("a", "q")', 'RegExp() expects flags made of "i", "m", "x", "s" and "u", but got "q".'],
+            ['Date("not a date")', 'Date() expects a valid date, but got "not a date".'],
+            ['NumberFloat(1)', '"NumberFloat" is not a supported function. Use one of ObjectId, ISODate, Date, NumberLong, NumberInt, NumberDecimal, Timestamp, BinData, UUID, MinKey, MaxKey, RegExp.']
+        ];
+        for (const [helper, errorMessage] of cases) {
+            testParse(`db.c1.insertOne({ "value": ${helper} })`, {
+                collection: "c1",
+                name: "insertOne",
+                args: [{ value: {} }],
+                firstErrorText: errorMessage
+            });
+        }
+    });
+
     test("Keys with periods", () => {
         testParse(
             `db.timesheets.update( {
@@ -754,7 +850,7 @@ suite("scrapbook parsing Tests", () => {
         const text = `db.c1.insert({"name": ObjectId("${idParam}")})`;
         const commands: MongoCommand[] = getAllCommandsFromText(text);
         const command: MongoCommand = findCommandAtPosition(commands, new Position(0, 0));
-        const errorMessage = "Argument passed in must be a single String of 12 bytes or a string of 24 hex characters";
+        const errorMessage = `ObjectId() expects a 24-character hexadecimal string, but got "${idParam}".`;
         assert.deepEqual(command.collection, "c1");
         assert.deepEqual(command.argumentObjects, [{ name: {} }]);
         assert.deepEqual(nonNullProp(command, 'errors')[0].message, errorMessage);
@@ -766,7 +862,7 @@ suite("scrapbook parsing Tests", () => {
             const text = `db.c1.insert({"name": ObjectId(${wrapInQuotes(idParam, i)})})`;
             const commands: MongoCommand[] = getAllCommandsFromText(text);
             const command: MongoCommand = findCommandAtPosition(commands, new Position(0, 0));
-            const errorMessage = "Argument passed in must be a single String of 12 bytes or a string of 24 hex characters";
+            const errorMessage = `ObjectId() expects a 24-character hexadecimal string, but got "${idParam}".`;
             assert.deepEqual(command.collection, "c1");
             assert.deepEqual(command.argumentObjects, [{ name: {} }]);
             assert.deepEqual(nonNullProp(command, 'errors')[0].message, errorMessage);
@@ -979,6 +1075,27 @@ suite("scrapbook parsing Tests", () => {
         });
     });
 
+    test("Chained command - function calls", () => {
+        const command: MongoCommand = expectSingleCommand('db.timesheets.find({name:"Andy"}, {_id: 0}).sort({age: 1}).skip(40).limit(10);');
+        assert.deepEqual(nonNullProp(command, 'functionCalls').map(call => call.name), ["find", "sort", "skip", "limit"]);
+        assert.deepEqual(nonNullProp(command, 'functionCalls').map(call => call.arguments.map(arg => JSON.parse(arg))), [[{ name: "Andy" }, { _id: 0 }], [{ age: 1 }], [40], [10]]);
+    });
+
+    test("Chained command - find with cursor methods", () => {
+        assert.deepEqual(getFindCommand(expectSingleCommand('db.orders.find({status: "A"}).sort({date: -1}).skip(20).limit(10).project({total: 1})')), {
+            findArgs: [{ status: "A" }],
+            cursorOptions: { sort: { date: -1 }, skip: 20, limit: 10, projection: { total: 1 } },
+            isCount: false
+        });
+        assert.deepEqual(getFindCommand(expectSingleCommand('db.orders.find({status: "A"}).count()')), { findArgs: [{ status: "A" }], cursorOptions: {}, isCount: true });
+        assert.deepEqual(getFindCommand(expectSingleCommand('db.orders.find()')), { findArgs: [], cursorOptions: {}, isCount: false });
+        assert.equal(getFindCommand(expectSingleCommand('db.orders.find().count().limit(1)')), undefined);
+        assert.equal(getFindCommand(expectSingleCommand('db.orders.find().map(1)')), undefined);
+        assert.equal(getFindCommand(expectSingleCommand('db.orders.aggregate([])')), undefined);
+        assert.throws(() => getFindCommand(expectSingleCommand('db.orders.find().limit("10")')), /must be a number/);
+        assert.throws(() => getFindCommand(expectSingleCommand('db.orders.find().sort(1)')), /must be an object/);
+    });
+
     test("Chained command - missing period", () => {
         testParse('db.timesheets.find({name:"Andy"}).sort({age: 1})skip(40);', {
             collection: "timesheets",
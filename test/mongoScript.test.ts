@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { Db } from 'mongodb';
+import { findCommandAtPosition, getAllCommandsFromText, MongoCommand, MongoScriptSandbox, splitStatements } from '../extension.bundle';
+
+function getStatementTexts(text: string): string[] {
+    return splitStatements(text).map(statement => statement.text);
+}
+
+/**
+ * A database with a single collection, "logs", that has two documents
+ */
+function createFakeDb(deleted: {}[]): Db {
+    const documents: {}[] = [{ _id: 1, level: 'info' }, { _id: 2, level: 'error' }];
+    const logs = {
+        find: () => {
+            let index: number = 0;
+            return {
+                hasNext: async () => index < documents.length,
+                next: async () => documents[index++],
+                close: async () => undefined
+            };
+        },
+        deleteMany: async (filter: {}) => {
+            deleted.push(filter);
+            return { deletedCount: 1 };
+        }
+    };
+    return <Db><unknown>{ collection: (name: string) => name === 'logs' ? logs : undefined };
+}
+
+suite("Mongo Script Tests", () => {
+    test("Split statements", () => {
+        assert.deepEqual(getStatementTexts('const a = 1; const b = 2'), ['const a = 1;', 'const b = 2']);
+        assert.deepEqual(getStatementTexts('const a = 1\nconst b = 2\n'), ['const a = 1', 'const b = 2']);
+        assert.deepEqual(getStatementTexts('// comment\nconst a = "x;y" // end\n/* block */'), ['const a = "x;y"']);
+        assert.deepEqual(getStatementTexts('db.c.find({\n  a: 1\n})\n  .sort({ a: 1 })\nprint(1)'), ['db.c.find({\n  a: 1\n})\n  .sort({ a: 1 })', 'print(1)']);
+        assert.deepEqual(getStatementTexts('for (let i = 0; i < 3; i++) {\n  print(i)\n}\nprint(2)'), ['for (let i = 0; i < 3; i++) {\n  print(i)\n}', 'print(2)']);
+        assert.deepEqual(getStatementTexts('if (a) {\n}\nelse {\n}'), ['if (a) {\n}\nelse {\n}']);
+        assert.deepEqual(getStatementTexts('const total = 1 +\n  2\nconst r = /a;b/i\nr'), ['const total = 1 +\n  2', 'const r = /a;b/i', 'r']);
+    });
+
+    test("Statement offsets", () => {
+        const text = 'const a = 1;\n  a';
+        assert.deepEqual(splitStatements(text).map(s => [s.start, s.end]), [[0, 12], [15, 16]]);
+    });
+
+    test("Scrapbooks of Mongo commands aren't scripts", () => {
+        const commands: MongoCommand[] = getAllCommandsFromText('db.c1.find()\ndb.c2.insertOne({ a: 1 })');
+        assert.deepEqual(commands.map(c => c.script), [undefined, undefined]);
+        assert.deepEqual(commands.map(c => c.name), ['find', 'insertOne']);
+    });
+
+    test("Scripts", () => {
+        const text = 'const cutoff = new Date();\ndb.logs.deleteMany({ ts: { $lt: cutoff } })\ndb.logs.find({ level: "error" })';
+        const commands: MongoCommand[] = getAllCommandsFromText(text);
+        assert.equal(commands.length, 3);
+        assert.deepEqual(commands.map(c => !!c.script), [true, true, false]);
+        assert.deepEqual(commands.map(c => c.errors), [undefined, undefined, undefined]);
+        assert.equal(commands[2].name, 'find');
+        assert.equal(commands[2].collection, 'logs');
+        assert.deepEqual([commands[1].range.start.line, commands[1].range.start.character, commands[1].range.end.line, commands[1].range.end.character], [1, 0, 1, 43]);
+        assert.equal(findCommandAtPosition(commands, commands[1].range.start), commands[1]);
+    });
+
+    test("Scripts with syntax errors", () => {
+        const commands: MongoCommand[] = getAllCommandsFromText('const cutoff = ;\ndb.logs.find()');
+        assert.equal(commands.length, 2);
+        assert.ok(commands[0].script);
+        assert.equal((commands[0].errors || []).length, 1);
+        assert.equal(commands[0].errors && commands[0].errors[0].range.start.line, 0);
+        assert.equal(commands[1].errors, undefined);
+    });
+
+    test("Run statements in a sandbox", async () => {
+        const deleted: {}[] = [];
+        const sandbox = new MongoScriptSandbox(createFakeDb(deleted), 1);
+        assert.equal(await sandbox.run('const limit = 1 + 2;'), undefined);
+        assert.equal(await sandbox.run('limit * 2'), '6');
+        // Declarations can run again
+        assert.equal(await sandbox.run('const limit = 10'), undefined);
+        assert.equal(await sandbox.run('print("limit", limit)'), 'limit 10');
+
+        assert.equal(await sandbox.run('const result = db.logs.deleteMany({ _id: ObjectId("5aecf1a63d8af732f07e4275") })'), undefined);
+        assert.equal(await sandbox.run('result.deletedCount'), '1');
+        assert.equal(String((<{ _id: {} }>deleted[0])._id), '5aecf1a63d8af732f07e4275');
+
+        assert.equal(await sandbox.run('for (let i = 0; i < 2; i++) { print(i) }'), '0\n1');
+        assert.equal(await sandbox.run('db.logs.find()'), '[\n\t{\n\t\t"_id": 1,\n\t\t"level": "info"\n\t}\n]\nOnly the first 1 documents are shown.');
+    });
+
+    test("Expressions that start like block statements", async () => {
+        const sandbox = new MongoScriptSandbox(createFakeDb([]), 10);
+        await sandbox.run('const docs = [1, 2, 3]');
+        assert.equal(await sandbox.run('docs.length'), '3');
+        assert.equal(await sandbox.run('docs.length + 1'), '4');
+        for (const name of ['document', 'format', 'total', 'tryCount', 'ifMatch', 'whileCount', 'switchValue', 'without']) {
+            await sandbox.run(`const ${name} = 1`);
+            assert.equal(await sandbox.run(`${name} + 1`), '2', name);
+        }
+        assert.equal(await sandbox.run('if (docs.length) { print("some") }'), 'some');
+    });
+
+    test("Sandboxes don't share variables", async () => {
+        const sandbox1 = new MongoScriptSandbox(createFakeDb([]), 10);
+        const sandbox2 = new MongoScriptSandbox(createFakeDb([]), 10);
+        await sandbox1.run('const a = 1');
+        assert.equal(await sandbox1.run('typeof a'), 'number');
+        assert.equal(await sandbox2.run('typeof a'), 'undefined');
+    });
+});
@@ -0,0 +1,48 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { getPartitionKeyPathValue, parsePartitionKeyPaths, setPartitionKeyPathValue, validatePartitionKeyPaths } from '../extension.bundle';
+
+suite("Partition Key Tests", () => {
+    test("Parse no paths", () => {
+        assert.equal(parsePartitionKeyPaths(''), undefined);
+        assert.equal(parsePartitionKeyPaths('  '), undefined);
+    });
+
+    test("Parse single path", () => {
+        assert.deepEqual(parsePartitionKeyPaths('address/zipCode'), { paths: ['/address/zipCode'] });
+        assert.deepEqual(parsePartitionKeyPaths('/id'), { paths: ['/id'] });
+    });
+
+    test("Parse hierarchical paths", () => {
+        assert.deepEqual(parsePartitionKeyPaths('tenantId, /userId,sessionId'), { paths: ['/tenantId', '/userId', '/sessionId'], kind: 'MultiHash', version: 2 });
+    });
+
+    test("Validate paths", () => {
+        assert.equal(validatePartitionKeyPaths(''), undefined);
+        assert.equal(validatePartitionKeyPaths('a, b, c'), undefined);
+        assert.ok(validatePartitionKeyPaths('a, b, c, d'));
+        assert.ok(validatePartitionKeyPaths('a, , c'));
+        assert.ok(validatePartitionKeyPaths('a, /a'));
+        assert.ok(validatePartitionKeyPaths('a#b'));
+    });
+
+    test("Get path value", () => {
+        const doc = { tenantId: 0, address: { zipCode: '98052' }, empty: null };
+        assert.equal(getPartitionKeyPathValue(doc, '/tenantId'), 0);
+        assert.equal(getPartitionKeyPathValue(doc, '/address/zipCode'), '98052');
+        assert.equal(getPartitionKeyPathValue(doc, '/empty'), null);
+        assert.equal(getPartitionKeyPathValue(doc, '/address/city'), undefined);
+        assert.equal(getPartitionKeyPathValue(doc, '/empty/city'), undefined);
+    });
+
+    test("Set path values with a shared parent", () => {
+        const doc = { id: '1' };
+        setPartitionKeyPathValue(doc, '/address/zipCode', '98052');
+        setPartitionKeyPathValue(doc, '/address/city', 'Redmond');
+        assert.deepEqual(doc, { id: '1', address: { zipCode: '98052', city: 'Redmond' } });
+    });
+});
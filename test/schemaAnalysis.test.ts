@@ -0,0 +1,177 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { Decimal128, Long, ObjectID } from 'mongodb';
+import { getValueType, ISchemaFieldReport, ISchemaReport, SchemaAnalyzer, toJsonSchema, toPascalCase, toTypeScriptInterfaces } from '../extension.bundle';
+
+function analyze(documents: {}[]): ISchemaReport {
+    const analyzer: SchemaAnalyzer = new SchemaAnalyzer();
+    for (const document of documents) {
+        analyzer.addDocument(document);
+    }
+    return analyzer.getReport();
+}
+
+function getField(report: ISchemaReport, path: string): ISchemaFieldReport {
+    const field: ISchemaFieldReport | undefined = report.fields.find(f => f.path === path);
+    assert.ok(field, `Missing field "${path}"`);
+    return field;
+}
+
+const orders: {}[] = [
+    { name: 'a', total: 10, address: { city: 'Seattle' }, items: [{ sku: 'x', quantity: 1 }, { sku: 'y' }] },
+    { name: 'b', total: null, address: { city: 'Redmond', zip: '98052' }, items: [] },
+    { name: 'c', total: '12', items: [{ sku: 'z', quantity: 2 }] },
+    { name: 'd', total: 14 }
+];
+
+suite("Schema Analysis Tests", () => {
+    test("Types and missing fields", () => {
+        const report: ISchemaReport = analyze(orders);
+        assert.equal(report.sampledDocuments, 4);
+        assert.deepEqual(report.fields.map(f => f.path), ['name', 'total', 'address', 'address.city', 'items', 'items.sku', 'items.quantity', 'address.zip']);
+
+        const total: ISchemaFieldReport = getField(report, 'total');
+        assert.deepEqual(total.types, [{ type: 'number', count: 2, percent: 50 }, { type: 'null', count: 1, percent: 25 }, { type: 'string', count: 1, percent: 25 }]);
+        assert.equal(total.nullPercent, 25);
+        assert.equal(total.missingPercent, 0);
+        assert.deepEqual(total.examples, [10, '12', 14]);
+
+        assert.equal(getField(report, 'address').missingPercent, 50);
+        assert.equal(getField(report, 'address.city').missingPercent, 0);
+        assert.equal(getField(report, 'address.zip').missingPercent, 50);
+    });
+
+    test("Arrays", () => {
+        const report: ISchemaReport = analyze(orders);
+        const items: ISchemaFieldReport = getField(report, 'items');
+        assert.deepEqual(items.arrayLengths, { min: 0, max: 2, average: 1 });
+        assert.deepEqual(items.elementTypes, [{ type: 'object', count: 3, percent: 100 }]);
+        assert.equal(getField(report, 'items.sku').missingPercent, 0);
+        assert.equal(getField(report, 'items.quantity').missingPercent, 33.3);
+    });
+
+    test("Keys with dots", () => {
+        const report: ISchemaReport = analyze([{ 'a.b': 1, a: { b: 'x' } }, { a: {} }]);
+        assert.deepEqual(report.fields.map(f => f.keys), [['a.b'], ['a'], ['a', 'b']]);
+        assert.equal(report.fields[0].missingPercent, 50);
+        assert.equal(report.fields[2].missingPercent, 50);
+        assert.deepEqual((<{ properties: {} }>toJsonSchema(report, 'json')).properties, {
+            'a.b': { type: 'number' },
+            a: { type: 'object', properties: { b: { type: 'string' } } }
+        });
+    });
+
+    test("BSON types", () => {
+        assert.equal(getValueType(new ObjectID()), 'objectId');
+        assert.equal(getValueType(new Date()), 'date');
+        assert.equal(getValueType(/a/), 'regex');
+        assert.equal(getValueType({ _bsontype: 'Long' }), 'long');
+        assert.equal(getValueType({ _bsontype: 'Decimal128' }), 'decimal');
+        assert.equal(getValueType({ _bsontype: 'Int32' }), 'number');
+        assert.equal(getValueType({ bsontype: 'Long' }), 'object');
+
+        const report: ISchemaReport = analyze([{ created: new Date('2020-01-01T00:00:00.000Z'), description: 'x'.repeat(60) }]);
+        assert.deepEqual(getField(report, 'created').examples, ['2020-01-01T00:00:00.000Z']);
+        assert.deepEqual(getField(report, 'description').examples, ['x'.repeat(50) + '…']);
+    });
+
+    test("JSON Schema", () => {
+        const report: ISchemaReport = analyze([{ _id: new ObjectID(), name: 'a', created: new Date(), tags: ['x'] }, { _id: new ObjectID(), name: 'b', created: new Date() }]);
+        assert.deepEqual(toJsonSchema(report, 'json', 'orders'), {
+            $schema: 'http://json-schema.org/draft-07/schema#',
+            title: 'orders',
+            type: 'object',
+            properties: {
+                _id: { type: 'string' },
+                name: { type: 'string' },
+                created: { type: 'string', format: 'date-time' },
+                tags: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['_id', 'name', 'created']
+        });
+        assert.deepEqual(toJsonSchema(report, 'bson'), {
+            bsonType: 'object',
+            properties: {
+                _id: { bsonType: 'objectId' },
+                name: { bsonType: 'string' },
+                created: { bsonType: 'date' },
+                tags: { bsonType: 'array', items: { bsonType: 'string' } }
+            },
+            required: ['_id', 'name', 'created']
+        });
+
+        const nested: {} = toJsonSchema(analyze(orders), 'json');
+        assert.deepEqual((<{ properties: { items: {} } }>nested).properties.items, {
+            type: 'array',
+            items: { type: 'object', properties: { sku: { type: 'string' }, quantity: { type: 'number' } }, required: ['sku'] }
+        });
+    });
+
+    test("TypeScript interfaces", () => {
+        assert.equal(toTypeScriptInterfaces(analyze(orders), 'orders'), [
+            'export interface Orders {',
+            '    name: string;',
+            '    total: number | null | string;',
+            '    address?: OrdersAddress;',
+            '    items?: OrdersItems[];',
+            '}',
+            '',
+            'export interface OrdersAddress {',
+            '    city: string;',
+            '    zip?: string;',
+            '}',
+            '',
+            'export interface OrdersItems {',
+            '    sku: string;',
+            '    quantity?: number;',
+            '}',
+            ''
+        ].join('\n'));
+
+        assert.equal(toTypeScriptInterfaces(analyze([{ _id: new ObjectID(), 'first-name': 'a', values: [1, 'b'], empty: [] }]), 'my-users'), [
+            `import { ObjectId } from 'mongodb';`,
+            '',
+            'export interface MyUsers {',
+            '    _id: ObjectId;',
+            '    "first-name": string;',
+            '    values: (number | string)[];',
+            '    empty: unknown[];',
+            '}',
+            ''
+        ].join('\n'));
+
+        assert.equal(toPascalCase('_id'), 'Id');
+        assert.equal(toPascalCase('2020-orders'), '_2020Orders');
+    });
+
+    test("TypeScript interfaces merge document shapes", () => {
+        const documents: {}[] = [
+            { _id: new ObjectID(), price: Decimal128.fromString('1.50'), views: Long.fromNumber(1), owner: 'a' },
+            { _id: new ObjectID(), price: 2, owner: { name: 'b' }, tags: [{ name: 'x' }, 'y'] }
+        ];
+        assert.equal(toTypeScriptInterfaces(analyze(documents), 'products'), [
+            `import { Decimal128, Long, ObjectId } from 'mongodb';`,
+            '',
+            'export interface Products {',
+            '    _id: ObjectId;',
+            '    price: Decimal128 | number;',
+            '    views?: Long;',
+            '    owner: string | ProductsOwner;',
+            '    tags?: (ProductsTags | string)[];',
+            '}',
+            '',
+            'export interface ProductsOwner {',
+            '    name: string;',
+            '}',
+            '',
+            'export interface ProductsTags {',
+            '    name: string;',
+            '}',
+            ''
+        ].join('\n'));
+    });
+});